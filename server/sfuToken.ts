@@ -0,0 +1,167 @@
+// Issues LiveKit access tokens for SFU mode (see src/lib/sfuClient.ts), served by the signaling server at
+// GET /sfu-token?room=<classId>&name=<display name>.
+//
+// LIVEKIT_API_KEY / LIVEKIT_API_SECRET must match the media server (the dev server from `npm run sfu` uses
+// devkey / secret). With FIREBASE_PROJECT_ID set, the caller's Firebase ID token (Authorization: Bearer) is
+// verified and its uid becomes the participant identity. The class document (classes/<room>) is then read with
+// that token: only the teacher and students on the roster get a token, banned students never do, and students
+// may publish their camera and microphone only. Without FIREBASE_PROJECT_ID the identity is taken from
+// ?identity=, which anyone can forge, and every participant gets the teacher's rights, so leave it unset
+// only for local testing.
+
+import { createHmac, createPublicKey, verify, JsonWebKey } from 'node:crypto';
+import { IncomingMessage, ServerResponse } from 'node:http';
+
+const API_KEY = process.env.LIVEKIT_API_KEY || 'devkey';
+const API_SECRET = process.env.LIVEKIT_API_SECRET || 'secret';
+const FIREBASE_PROJECT_ID = process.env.FIREBASE_PROJECT_ID;
+const TOKEN_TTL_SECONDS = 6 * 60 * 60;
+const FIREBASE_KEYS_URL =
+  'https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com';
+
+function base64url(data: string | Buffer): string {
+  return Buffer.from(data).toString('base64url');
+}
+
+type ParticipantRole = 'teacher' | 'student';
+
+// The teacher may publish anything and, as room admin, mute or remove participants through the server API
+const VIDEO_GRANTS: Record<ParticipantRole, Record<string, unknown>> = {
+  teacher: { canPublish: true, canSubscribe: true, canPublishData: true, roomAdmin: true },
+  student: { canPublish: true, canPublishSources: ['camera', 'microphone'], canSubscribe: true, canPublishData: false }
+};
+
+function createAccessToken(identity: string, name: string, room: string, role: ParticipantRole): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({
+    iss: API_KEY,
+    sub: identity,
+    name,
+    nbf: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    video: { room, roomJoin: true, ...VIDEO_GRANTS[role] }
+  }));
+  const signature = createHmac('sha256', API_SECRET).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+let firebaseKeys: { keys: (JsonWebKey & { kid: string })[]; expiresAt: number } | null = null;
+
+async function getFirebaseKey(kid: string): Promise<JsonWebKey | undefined> {
+  if (!firebaseKeys || firebaseKeys.expiresAt < Date.now()) {
+    const response = await fetch(FIREBASE_KEYS_URL);
+    const maxAge = Number(/max-age=(\d+)/.exec(response.headers.get('cache-control') || '')?.[1]) || 3600;
+    const { keys } = await response.json() as { keys: (JsonWebKey & { kid: string })[] };
+    firebaseKeys = { keys, expiresAt: Date.now() + maxAge * 1000 };
+  }
+  return firebaseKeys.keys.find(key => key.kid === kid);
+}
+
+// Returns the uid of a valid Firebase ID token for this project, or null
+async function verifyFirebaseToken(idToken: string): Promise<string | null> {
+  const [header, payload, signature] = idToken.split('.');
+  if (!header || !payload || !signature) return null;
+
+  try {
+    const { alg, kid } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const key = alg === 'RS256' ? await getFirebaseKey(kid) : undefined;
+    if (!key) return null;
+
+    const valid = verify(
+      'RSA-SHA256',
+      Buffer.from(`${header}.${payload}`),
+      createPublicKey({ key, format: 'jwk' }),
+      Buffer.from(signature, 'base64url')
+    );
+    const now = Date.now() / 1000;
+    if (!valid || claims.aud !== FIREBASE_PROJECT_ID || claims.exp < now ||
+      claims.iss !== `https://securetoken.google.com/${FIREBASE_PROJECT_ID}`) {
+      return null;
+    }
+    return typeof claims.sub === 'string' && claims.sub ? claims.sub : null;
+  } catch (error) {
+    console.warn('Error verifying Firebase ID token:', error);
+    return null;
+  }
+}
+
+interface FirestoreValue {
+  stringValue?: string;
+  arrayValue?: { values?: FirestoreValue[] };
+}
+
+function stringList(value: FirestoreValue | undefined): string[] {
+  return (value?.arrayValue?.values || []).flatMap(item => item.stringValue ?? []);
+}
+
+// Reads the class with the caller's own ID token, so Firestore security rules apply as in the app.
+// Returns the caller's role in the class, or null when they may not join it.
+async function getClassRole(room: string, uid: string, idToken: string): Promise<ParticipantRole | null> {
+  const url = `https://firestore.googleapis.com/v1/projects/${FIREBASE_PROJECT_ID}/databases/(default)/documents/classes/${encodeURIComponent(room)}`;
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${idToken}` } });
+  if (!response.ok) {
+    if (response.status !== 404 && response.status !== 403) {
+      console.warn('Error reading class', room, 'for SFU token:', response.status);
+    }
+    return null;
+  }
+
+  const { fields = {} } = await response.json() as { fields?: Record<string, FirestoreValue> };
+  if (fields.teacherId?.stringValue === uid) return 'teacher';
+  if (stringList(fields.bannedUserIds).includes(uid)) return null;
+  return stringList(fields.students).includes(uid) ? 'student' : null;
+}
+
+// The app is served from a different origin than the signaling server
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization'
+};
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+export async function handleSfuTokenRequest(request: IncomingMessage, response: ServerResponse) {
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204, CORS_HEADERS);
+    response.end();
+    return;
+  }
+
+  const url = new URL(request.url || '/', 'http://localhost');
+  const room = url.searchParams.get('room');
+  const name = url.searchParams.get('name') || '';
+  if (!room) {
+    sendJson(response, 400, { error: 'room is required' });
+    return;
+  }
+
+  let identity: string | null;
+  let role: ParticipantRole = 'teacher';
+  if (FIREBASE_PROJECT_ID) {
+    const idToken = request.headers.authorization?.replace(/^Bearer\s+/i, '');
+    identity = idToken ? await verifyFirebaseToken(idToken) : null;
+    if (!idToken || !identity) {
+      sendJson(response, 401, { error: 'A valid Firebase ID token is required' });
+      return;
+    }
+    const classRole = await getClassRole(room, identity, idToken);
+    if (!classRole) {
+      sendJson(response, 403, { error: 'Not a participant of this class' });
+      return;
+    }
+    role = classRole;
+  } else {
+    identity = url.searchParams.get('identity');
+    if (!identity) {
+      sendJson(response, 400, { error: 'identity is required' });
+      return;
+    }
+  }
+
+  sendJson(response, 200, { token: createAccessToken(identity, name, room, role) });
+}
@@ -0,0 +1,170 @@
+// Self-hosted WebRTC signaling server, an alternative to the Firestore webrtcSignals collection.
+// Run with `npm run signaling` and point the app at it with VITE_SIGNALING_URL=ws://localhost:8787.
+//
+// Clients connect to ws://host:port/?classId=<class>&userId=<user> and exchange WebRTCSignal messages as
+// JSON. The server only routes: it stamps each message with the sender's class and user id and forwards it
+// to every connection of the target user in the same class. Ordering, acks and retransmission are handled
+// end to end by the client's SignalingChannel. Messages for a user who is not connected are held for a
+// while, like unread Firestore documents, so a student can ask to join before the teacher arrives.
+//
+// It also issues access tokens for the SFU media server at /sfu-token (see server/sfuToken.ts).
+//
+// The signaling socket does not authenticate users; run it on a trusted network or behind a proxy that does.
+
+import { createServer, IncomingMessage } from 'node:http';
+import { WebSocket, WebSocketServer } from 'ws';
+import { handleSfuTokenRequest } from './sfuToken';
+
+const PORT = Number(process.env.SIGNALING_PORT) || 8787;
+// Matches the age after which SignalingChannel ignores a join-request
+const MAILBOX_TTL_MS = 5 * 60 * 1000;
+const MAILBOX_LIMIT = 200;
+const MAX_MESSAGE_BYTES = 64 * 1024;
+const HEARTBEAT_MS = 30_000;
+
+interface Client {
+  socket: WebSocket;
+  classId: string;
+  userId: string;
+  isAlive: boolean;
+}
+
+interface HeldMessage {
+  data: string;
+  heldAt: number;
+}
+
+// classId -> userId -> open connections (a user may have the class open in several tabs)
+const rooms = new Map<string, Map<string, Set<Client>>>();
+// `${classId}/${userId}` -> messages waiting for that user to connect
+const mailboxes = new Map<string, HeldMessage[]>();
+
+function mailboxKey(classId: string, userId: string): string {
+  return `${classId}/${userId}`;
+}
+
+function join(client: Client) {
+  const room = rooms.get(client.classId) || new Map<string, Set<Client>>();
+  rooms.set(client.classId, room);
+  const connections = room.get(client.userId) || new Set<Client>();
+  room.set(client.userId, connections);
+  connections.add(client);
+
+  const key = mailboxKey(client.classId, client.userId);
+  const held = mailboxes.get(key) || [];
+  mailboxes.delete(key);
+  const cutoff = Date.now() - MAILBOX_TTL_MS;
+  held.filter(message => message.heldAt > cutoff).forEach(message => client.socket.send(message.data));
+}
+
+function leave(client: Client) {
+  const room = rooms.get(client.classId);
+  const connections = room?.get(client.userId);
+  if (!room || !connections) return;
+
+  connections.delete(client);
+  if (connections.size === 0) room.delete(client.userId);
+  if (room.size === 0) rooms.delete(client.classId);
+}
+
+function hold(classId: string, userId: string, data: string) {
+  const key = mailboxKey(classId, userId);
+  const cutoff = Date.now() - MAILBOX_TTL_MS;
+  const held = (mailboxes.get(key) || []).filter(message => message.heldAt > cutoff);
+  held.push({ data, heldAt: Date.now() });
+  mailboxes.set(key, held.slice(-MAILBOX_LIMIT));
+}
+
+function route(sender: Client, raw: string) {
+  let message: Record<string, unknown>;
+  try {
+    message = JSON.parse(raw);
+  } catch {
+    console.warn('Ignoring malformed message from', sender.userId);
+    return;
+  }
+  if (typeof message !== 'object' || message === null || typeof message.targetUserId !== 'string') {
+    console.warn('Ignoring message without a target from', sender.userId);
+    return;
+  }
+
+  const targetUserId = message.targetUserId;
+  const data = JSON.stringify({
+    ...message,
+    classId: sender.classId,
+    fromUserId: sender.userId,
+    createdAt: Date.now()
+  });
+
+  const targets = rooms.get(sender.classId)?.get(targetUserId);
+  if (!targets || targets.size === 0) {
+    hold(sender.classId, targetUserId, data);
+    return;
+  }
+  targets.forEach(target => {
+    if (target.socket.readyState === WebSocket.OPEN) target.socket.send(data);
+  });
+}
+
+function parseClient(socket: WebSocket, request: IncomingMessage): Client | null {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const classId = url.searchParams.get('classId');
+  const userId = url.searchParams.get('userId');
+  if (!classId || !userId) return null;
+  return { socket, classId, userId, isAlive: true };
+}
+
+const httpServer = createServer((request, response) => {
+  if (request.url?.startsWith('/sfu-token')) {
+    handleSfuTokenRequest(request, response).catch(error => {
+      console.error('Error issuing SFU token:', error);
+      response.writeHead(500);
+      response.end();
+    });
+    return;
+  }
+
+  response.writeHead(200, { 'Content-Type': 'text/plain' });
+  response.end('Signaling server is running\n');
+});
+
+const wss = new WebSocketServer({ server: httpServer, maxPayload: MAX_MESSAGE_BYTES });
+
+wss.on('connection', (socket, request) => {
+  const client = parseClient(socket, request);
+  if (!client) {
+    socket.close(1008, 'classId and userId are required');
+    return;
+  }
+
+  join(client);
+  console.log(`${client.userId} joined ${client.classId}`);
+
+  socket.on('pong', () => {
+    client.isAlive = true;
+  });
+  socket.on('message', (data) => route(client, data.toString()));
+  socket.on('close', () => {
+    leave(client);
+    console.log(`${client.userId} left ${client.classId}`);
+  });
+  socket.on('error', (error) => console.error('Socket error for', client.userId, error));
+});
+
+// Drop connections that stopped answering pings, e.g. a laptop that went to sleep
+const heartbeat = setInterval(() => {
+  rooms.forEach(room => room.forEach(connections => connections.forEach(client => {
+    if (!client.isAlive) {
+      client.socket.terminate();
+      return;
+    }
+    client.isAlive = false;
+    client.socket.ping();
+  })));
+}, HEARTBEAT_MS);
+
+wss.on('close', () => clearInterval(heartbeat));
+
+httpServer.listen(PORT, () => {
+  console.log(`Signaling server listening on ws://localhost:${PORT}`);
+});
@@ -0,0 +1,136 @@
+import { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ChatMessage } from '@/types';
+import { MessageSquare, MessageSquareOff, Send, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  currentUserId: string;
+  isTeacher: boolean;
+  isMuted: boolean;
+  mutedUserIds: string[];
+  onSend: (text: string) => Promise<boolean>;
+  onDelete: (messageId: string) => void;
+  onToggleMute: (userId: string, muted: boolean) => void;
+}
+
+export function ChatPanel({
+  messages,
+  currentUserId,
+  isTeacher,
+  isMuted,
+  mutedUserIds,
+  onSend,
+  onDelete,
+  onToggleMute
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || sending) return;
+
+    setSending(true);
+    const sent = await onSend(draft);
+    if (sent) {
+      setDraft('');
+    }
+    setSending(false);
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {messages.length === 0 ? (
+          <div className="text-center text-gray-500 py-8">
+            <MessageSquare className="w-12 h-12 mx-auto mb-2" />
+            <p>No messages yet</p>
+            <p className="text-xs mt-1">Ask a question or say hello to the class</p>
+          </div>
+        ) : (
+          messages.map((message) => {
+            const isOwn = message.senderId === currentUserId;
+            const isSenderMuted = mutedUserIds.includes(message.senderId);
+            const canModerate = isTeacher && !isOwn && message.senderRole !== 'teacher';
+
+            return (
+              <div key={message.id} className={`group flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                  <span className="font-medium text-gray-300">{isOwn ? 'You' : message.senderName}</span>
+                  {message.senderRole === 'teacher' && (
+                    <Badge variant="outline" className="bg-blue-500/20 text-blue-400 border-blue-500/30 text-[10px] px-1 py-0">
+                      Teacher
+                    </Badge>
+                  )}
+                  {isSenderMuted && (
+                    <Badge variant="outline" className="bg-red-500/20 text-red-400 border-red-500/30 text-[10px] px-1 py-0">
+                      Muted
+                    </Badge>
+                  )}
+                  <span>{format(message.createdAt, 'h:mm a')}</span>
+                </div>
+                <div className="flex items-start gap-1 max-w-full">
+                  <div className={`rounded-lg px-3 py-2 text-sm break-words max-w-[15rem] ${
+                    message.deleted
+                      ? 'bg-gray-700/50 text-gray-500 italic'
+                      : isOwn
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-700 text-gray-100'
+                  }`}>
+                    {message.deleted ? 'Message removed by the teacher' : message.text}
+                  </div>
+                  {canModerate && (
+                    <div className="flex flex-col gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      {!message.deleted && (
+                        <button
+                          type="button"
+                          onClick={() => onDelete(message.id)}
+                          className="text-gray-400 hover:text-red-400"
+                          title="Delete message"
+                        >
+                          <Trash2 className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => onToggleMute(message.senderId, !isSenderMuted)}
+                        className={isSenderMuted ? 'text-red-400 hover:text-gray-300' : 'text-gray-400 hover:text-red-400'}
+                        title={isSenderMuted ? 'Unmute in chat' : 'Mute in chat'}
+                      >
+                        <MessageSquareOff className="w-3 h-3" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t border-gray-700 flex gap-2">
+        <Input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder={isMuted ? 'You have been muted by the teacher' : 'Type a message...'}
+          className="bg-gray-700 border-gray-600 text-white"
+          maxLength={1000}
+          disabled={isMuted}
+        />
+        <Button type="submit" size="sm" disabled={isMuted || sending || !draft.trim()}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { WifiOff } from 'lucide-react';
+import { ConnectionStatsSample, formatStatsSummary, QualityLevel } from '@/lib/connectionStats';
+
+interface ConnectionQualityIndicatorProps {
+  connected: boolean;
+  sample?: ConnectionStatsSample;
+}
+
+const LEVEL_BARS: Record<QualityLevel, number> = { excellent: 4, good: 3, fair: 2, poor: 1 };
+const LEVEL_COLORS: Record<QualityLevel, string> = {
+  excellent: 'bg-green-400',
+  good: 'bg-green-400',
+  fair: 'bg-yellow-400',
+  poor: 'bg-red-400'
+};
+
+// Signal bars from the latest stats sample; shows full bars in gray until the first sample arrives
+export function ConnectionQualityIndicator({ connected, sample }: ConnectionQualityIndicatorProps) {
+  if (!connected) return <WifiOff className="w-3 h-3 text-red-400" />;
+
+  const bars = sample ? LEVEL_BARS[sample.level] : 4;
+  const color = sample ? LEVEL_COLORS[sample.level] : 'bg-gray-400';
+
+  return (
+    <div className="flex items-end gap-px h-3" title={sample ? formatStatsSummary(sample) : 'Measuring connection…'}>
+      {[1, 2, 3, 4].map(bar => (
+        <div
+          key={bar}
+          className={`w-[3px] rounded-sm ${bar <= bars ? color : 'bg-gray-600'}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </div>
+  );
+}
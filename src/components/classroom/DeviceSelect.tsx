@@ -0,0 +1,43 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { deviceLabel } from '@/lib/mediaDevices';
+
+// Select items cannot have an empty value, so the browser default gets its own
+const DEFAULT_DEVICE = 'default-device';
+
+interface DeviceSelectProps {
+  label: string;
+  devices: MediaDeviceInfo[];
+  value: string | undefined;
+  onChange: (deviceId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+export function DeviceSelect({ label, devices, value, onChange, disabled = false }: DeviceSelectProps) {
+  const selected = value && devices.some(device => device.deviceId === value) ? value : DEFAULT_DEVICE;
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs text-gray-300">{label}</Label>
+      <Select
+        value={selected}
+        onValueChange={next => onChange(next === DEFAULT_DEVICE ? undefined : next)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="bg-gray-800 border-gray-600 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEFAULT_DEVICE}>System default</SelectItem>
+          {devices
+            .filter(device => device.deviceId !== 'default')
+            .map((device, index) => (
+              <SelectItem key={device.deviceId} value={device.deviceId}>
+                {deviceLabel(device, index)}
+              </SelectItem>
+            ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { DeviceSelect } from '@/components/classroom/DeviceSelect';
+import { useAudioLevel } from '@/hooks/use-audio-level';
+import { MediaDeviceLists, playTestSound, supportsAudioOutputSelection } from '@/lib/mediaDevices';
+import { Settings, Volume2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface DeviceSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  devices: MediaDeviceLists;
+  audioInputId: string | undefined;
+  videoInputId: string | undefined;
+  audioOutputId: string | undefined;
+  audioTrack: MediaStreamTrack | null;
+  onAudioInputChange: (deviceId: string | undefined) => void;
+  onVideoInputChange: (deviceId: string | undefined) => void;
+  onAudioOutputChange: (deviceId: string | undefined) => void;
+}
+
+// Mid-class device switching; the new device replaces the old one on every open connection
+export function DeviceSettingsDialog({
+  open,
+  onOpenChange,
+  devices,
+  audioInputId,
+  videoInputId,
+  audioOutputId,
+  audioTrack,
+  onAudioInputChange,
+  onVideoInputChange,
+  onAudioOutputChange
+}: DeviceSettingsDialogProps) {
+  const level = useAudioLevel(open ? audioTrack : null);
+
+  const handleTestSound = () => {
+    playTestSound(audioOutputId).catch(error => {
+      console.error('Error playing test sound:', error);
+      toast.error('Could not play a test sound');
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings className="w-4 h-4" />
+            Audio & Video Settings
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Changes apply right away without leaving the class.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <DeviceSelect label="Camera" devices={devices.videoInputs} value={videoInputId} onChange={onVideoInputChange} />
+          <div className="space-y-2">
+            <DeviceSelect
+              label="Microphone"
+              devices={devices.audioInputs}
+              value={audioInputId}
+              onChange={onAudioInputChange}
+            />
+            <Progress value={level * 100} className="h-2" />
+          </div>
+          {supportsAudioOutputSelection() && (
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <DeviceSelect
+                  label="Speaker"
+                  devices={devices.audioOutputs}
+                  value={audioOutputId}
+                  onChange={onAudioOutputChange}
+                />
+              </div>
+              <Button variant="outline" size="sm" onClick={handleTestSound} title="Play a test sound">
+                <Volume2 className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState, useEffect, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { DirectMessage } from '@/types';
+import { Check, CheckCheck, Lock, Send } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface DirectMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  counterpartName: string;
+  currentUserId: string;
+  messages: DirectMessage[];
+  onSend: (text: string) => Promise<boolean>;
+}
+
+export function DirectMessageDialog({
+  open,
+  onOpenChange,
+  counterpartName,
+  currentUserId,
+  messages,
+  onSend
+}: DirectMessageDialogProps) {
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (open) {
+      bottomRef.current?.scrollIntoView({ block: 'end' });
+    }
+  }, [open, messages.length]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || sending) return;
+
+    setSending(true);
+    const sent = await onSend(draft);
+    if (sent) {
+      setDraft('');
+    }
+    setSending(false);
+  };
+
+  const renderReceipt = (message: DirectMessage) => {
+    if (message.readAt) {
+      return (
+        <span className="flex items-center gap-1 text-blue-300">
+          <CheckCheck className="w-3 h-3" />
+          Seen {format(message.readAt, 'h:mm a')}
+        </span>
+      );
+    }
+    if (message.deliveredAt) {
+      return (
+        <span className="flex items-center gap-1">
+          <CheckCheck className="w-3 h-3" />
+          Delivered
+        </span>
+      );
+    }
+    return (
+      <span className="flex items-center gap-1">
+        <Check className="w-3 h-3" />
+        Sent
+      </span>
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Lock className="w-4 h-4 text-purple-400" />
+            Private chat with {counterpartName}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Only the two of you can see these messages
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="h-72 overflow-y-auto space-y-3 border border-gray-700 rounded-lg p-3">
+          {messages.length === 0 ? (
+            <div className="text-center text-gray-500 py-8 text-sm">
+              No private messages yet
+            </div>
+          ) : (
+            messages.map((message) => {
+              const isOwn = message.senderId === currentUserId;
+
+              return (
+                <div key={message.id} className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                  <div className={`rounded-lg px-3 py-2 text-sm break-words max-w-[18rem] ${
+                    isOwn ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-100'
+                  }`}>
+                    {message.text}
+                  </div>
+                  <div className="flex items-center gap-2 text-[10px] text-gray-400 mt-1">
+                    <span>{format(message.createdAt, 'h:mm a')}</span>
+                    {isOwn && renderReceipt(message)}
+                  </div>
+                </div>
+              );
+            })
+          )}
+          <div ref={bottomRef} />
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={`Message ${counterpartName} privately...`}
+            className="bg-gray-700 border-gray-600 text-white"
+            maxLength={1000}
+          />
+          <Button type="submit" size="sm" disabled={sending || !draft.trim()} className="bg-purple-600 hover:bg-purple-700">
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  getMediaMode,
+  getMediaServer,
+  isSfuAvailable,
+  MESH_PARTICIPANT_LIMIT,
+  setMediaMode,
+  setMediaServer
+} from '@/lib/mediaMode';
+import { Class, MediaMode, MediaServer } from '@/types';
+import { Network, Presentation, Server, Users } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface MediaModeToggleProps {
+  classItem: Class;
+  studentCount: number;
+}
+
+// Teacher switch between lecture (students see only the teacher) and discussion (students see each other),
+// plus direct peer connections or the media server when one is configured
+export function MediaModeToggle({ classItem, studentCount }: MediaModeToggleProps) {
+  const [saving, setSaving] = useState(false);
+  const mode = getMediaMode(classItem);
+  const server = getMediaServer(classItem);
+
+  const handleChange = async (next: MediaMode) => {
+    if (next === mode) return;
+
+    setSaving(true);
+    try {
+      await setMediaMode(classItem.id, next);
+      toast.success(next === 'discussion' ? 'Students can now see and hear each other' : 'Switched to lecture mode');
+    } catch (error) {
+      console.error('Error changing media mode:', error);
+      toast.error('Failed to change mode');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleServerChange = async (next: MediaServer) => {
+    if (next === server) return;
+
+    setSaving(true);
+    try {
+      await setMediaServer(classItem.id, next);
+      toast.success(next === 'sfu' ? 'Media now goes through the media server' : 'Switched to direct connections');
+    } catch (error) {
+      console.error('Error changing media server:', error);
+      toast.error('Failed to change connection type');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="grid grid-cols-2 gap-1 rounded-md bg-gray-800 p-1">
+        <Button
+          variant={mode === 'lecture' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => handleChange('lecture')}
+          disabled={saving}
+          title="Students see and hear only you"
+        >
+          <Presentation className="w-4 h-4 mr-1" />
+          Lecture
+        </Button>
+        <Button
+          variant={mode === 'discussion' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => handleChange('discussion')}
+          disabled={saving}
+          title="Students also see and hear each other"
+        >
+          <Users className="w-4 h-4 mr-1" />
+          Discussion
+        </Button>
+      </div>
+      {isSfuAvailable() && (
+        <div className="grid grid-cols-2 gap-1 rounded-md bg-gray-800 p-1">
+          <Button
+            variant={server === 'p2p' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => handleServerChange('p2p')}
+            disabled={saving}
+            title="Direct connections between you and each student"
+          >
+            <Network className="w-4 h-4 mr-1" />
+            Direct
+          </Button>
+          <Button
+            variant={server === 'sfu' ? 'default' : 'ghost'}
+            size="sm"
+            onClick={() => handleServerChange('sfu')}
+            disabled={saving}
+            title="Route media through the media server, for large classes"
+          >
+            <Server className="w-4 h-4 mr-1" />
+            Server
+          </Button>
+        </div>
+      )}
+      {mode === 'discussion' && server === 'p2p' && studentCount > MESH_PARTICIPANT_LIMIT && (
+        <p className="text-xs text-yellow-400">
+          Discussion mode supports up to {MESH_PARTICIPANT_LIMIT} students; with {studentCount} in the room
+          students only see you
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Button } from '@/components/ui/button';
+import { ModerationLogEntry } from '@/types';
+import { format } from 'date-fns';
+
+interface ModerationLogPanelProps {
+  log: ModerationLogEntry[];
+  bannedUsers: { userId: string; name: string }[];
+  onUnban: (userId: string, name: string) => void;
+}
+
+const ACTION_LABELS: Record<ModerationLogEntry['action'], string> = {
+  mute: 'muted',
+  'request-unmute': 'asked to unmute',
+  'disable-camera': 'turned off the camera of',
+  remove: 'removed',
+  ban: 'banned',
+  unban: 'lifted the ban on',
+  'mute-all': 'muted all students'
+};
+
+export function ModerationLogPanel({ log, bannedUsers, onUnban }: ModerationLogPanelProps) {
+  return (
+    <div className="space-y-3">
+      {bannedUsers.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium text-gray-300">Banned</p>
+          {bannedUsers.map(({ userId, name }) => (
+            <div key={userId} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{name}</span>
+              <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => onUnban(userId, name)}>
+                Unban
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+      {log.length === 0 ? (
+        <p className="text-xs text-gray-400">No moderation actions yet</p>
+      ) : (
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {log.map(entry => (
+            <p key={entry.id} className="text-xs text-gray-300">
+              <span className="text-gray-500">{format(entry.createdAt, 'HH:mm')}</span>{' '}
+              {entry.actorName} {ACTION_LABELS[entry.action]}
+              {entry.targetName && ` ${entry.targetName}`}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
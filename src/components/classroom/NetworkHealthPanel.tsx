@@ -0,0 +1,64 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ConnectionStatsSample, formatStatsSummary, isStruggling } from '@/lib/connectionStats';
+import { Download } from 'lucide-react';
+
+interface NetworkHealthPanelProps {
+  stats: Map<string, ConnectionStatsSample>;
+  names: Record<string, string>;
+  // Stats come from peer connections; through the SFU there are none per student
+  sfuMode: boolean;
+  onExport: () => void;
+}
+
+function formatBitrate(bitsPerSecond: number): string {
+  return bitsPerSecond >= 1_000_000
+    ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps`
+    : `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+// Teacher view of the students whose connections are struggling, worst first
+export function NetworkHealthPanel({ stats, names, sfuMode, onExport }: NetworkHealthPanelProps) {
+  const struggling = Array.from(stats.entries())
+    .filter(([, sample]) => isStruggling(sample))
+    .sort(([, a], [, b]) => a.score - b.score);
+
+  return (
+    <div className="space-y-2">
+      {sfuMode ? (
+        <p className="text-xs text-gray-400">Per-student stats are not available while media goes through the server</p>
+      ) : stats.size === 0 ? (
+        <p className="text-xs text-gray-400">No connections measured yet</p>
+      ) : struggling.length === 0 ? (
+        <p className="text-xs text-green-400">All {stats.size} connections look healthy</p>
+      ) : (
+        <div className="space-y-2">
+          {struggling.map(([studentId, sample]) => (
+            <div key={studentId} className="rounded bg-gray-800 p-2">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm font-medium truncate">{names[studentId] || 'Student'}</span>
+                <Badge
+                  variant="outline"
+                  className={sample.level === 'poor'
+                    ? 'bg-red-500/20 text-red-400 border-red-500/30'
+                    : 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30'}
+                >
+                  {sample.level}
+                </Badge>
+              </div>
+              <p className="text-xs text-gray-400">{formatStatsSummary(sample)}</p>
+              <p className="text-xs text-gray-500">
+                ↑ {formatBitrate(sample.outboundBitrate)} · ↓ {formatBitrate(sample.inboundBitrate)}
+                {sample.framesDropped > 0 && ` · ${sample.framesDropped} frames dropped`}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+      <Button variant="outline" size="sm" className="w-full justify-start" onClick={onExport}>
+        <Download className="w-4 h-4 mr-2" />
+        Export Stats (JSON)
+      </Button>
+    </div>
+  );
+}
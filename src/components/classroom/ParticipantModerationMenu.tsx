@@ -0,0 +1,66 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { ModerationAction } from '@/types';
+import { Ban, Mic, MicOff, MoreVertical, UserX, VideoOff } from 'lucide-react';
+
+interface ParticipantModerationMenuProps {
+  studentName: string;
+  onAction: (action: ModerationAction) => void;
+}
+
+// Per-student teacher actions in the participant list
+export function ParticipantModerationMenu({ studentName, onAction }: ParticipantModerationMenuProps) {
+  const confirmAndRun = (action: 'remove' | 'ban', message: string) => {
+    if (confirm(message)) onAction(action);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0 text-gray-300 hover:text-white"
+          title="Moderate"
+        >
+          <MoreVertical className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => onAction('mute')}>
+          <MicOff className="w-4 h-4 mr-2" />
+          Mute
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onAction('request-unmute')}>
+          <Mic className="w-4 h-4 mr-2" />
+          Ask to unmute
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => onAction('disable-camera')}>
+          <VideoOff className="w-4 h-4 mr-2" />
+          Turn off camera
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem
+          className="text-red-600"
+          onClick={() => confirmAndRun('remove', `Remove ${studentName} from the class? They can join again.`)}
+        >
+          <UserX className="w-4 h-4 mr-2" />
+          Remove from class
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          className="text-red-600"
+          onClick={() => confirmAndRun('ban', `Ban ${studentName}? They will not be able to rejoin this class.`)}
+        >
+          <Ban className="w-4 h-4 mr-2" />
+          Ban from class
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
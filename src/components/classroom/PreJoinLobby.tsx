@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { DeviceSelect } from '@/components/classroom/DeviceSelect';
+import { useAudioLevel } from '@/hooks/use-audio-level';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import {
+  DevicePreferences,
+  getMediaConstraints,
+  loadDevicePreferences,
+  playTestSound,
+  saveDevicePreferences,
+  supportsAudioOutputSelection
+} from '@/lib/mediaDevices';
+import { Loader2, Mic, MicOff, Video, VideoOff, Volume2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface PreJoinLobbyProps {
+  classTitle: string;
+  isTeacher: boolean;
+  // The preview stream is handed over (not stopped) so joining does not reopen the devices
+  onJoin: (stream: MediaStream | null, preferences: DevicePreferences, mediaError: string | null) => void;
+}
+
+function describeMediaError(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError') return 'Camera/microphone access denied. Please allow permissions in your browser.';
+  if (name === 'NotFoundError') return 'No camera/microphone found. Please connect a device to use these features.';
+  return 'Failed to access camera/microphone. Please check your device permissions.';
+}
+
+async function openPreview(preferences: DevicePreferences): Promise<MediaStream> {
+  const request = (withDeviceIds: boolean) => navigator.mediaDevices.getUserMedia({
+    audio: getMediaConstraints('audio', withDeviceIds ? preferences.audioInputId : undefined),
+    video: preferences.joinWithCamera
+      ? getMediaConstraints('video', withDeviceIds ? preferences.videoInputId : undefined)
+      : false
+  });
+
+  try {
+    return await request(true);
+  } catch (error) {
+    // A remembered device that is no longer plugged in
+    if (error instanceof DOMException && error.name === 'OverconstrainedError') return request(false);
+    throw error;
+  }
+}
+
+// Shown before entering the room: pick devices, check the camera and microphone, and choose how to join
+export function PreJoinLobby({ classTitle, isTeacher, onJoin }: PreJoinLobbyProps) {
+  const [preferences, setPreferences] = useState<DevicePreferences>(() =>
+    loadDevicePreferences({ joinMuted: false, joinWithCamera: isTeacher })
+  );
+  const [stream, setStream] = useState<MediaStream | null>(null);
+  const [mediaError, setMediaError] = useState<string | null>(null);
+  const [opening, setOpening] = useState(true);
+  const { devices, refresh } = useMediaDevices();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const handedOver = useRef(false);
+
+  const audioTrack = stream?.getAudioTracks()[0] || null;
+  const level = useAudioLevel(audioTrack);
+
+  const { audioInputId, videoInputId, joinWithCamera } = preferences;
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setMediaError('Media devices not supported in this browser');
+      setOpening(false);
+      return;
+    }
+
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    setOpening(true);
+
+    openPreview({ audioInputId, videoInputId, joinWithCamera, joinMuted: false })
+      .then(previewStream => {
+        opened = previewStream;
+        if (cancelled) {
+          previewStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        setStream(previewStream);
+        setMediaError(null);
+        // Device labels are only available once access has been granted
+        refresh();
+      })
+      .catch(error => {
+        console.error('Error opening preview:', error);
+        if (!cancelled) {
+          setStream(null);
+          setMediaError(describeMediaError(error));
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setOpening(false);
+      });
+
+    return () => {
+      cancelled = true;
+      if (opened && !handedOver.current) opened.getTracks().forEach(track => track.stop());
+    };
+  }, [audioInputId, videoInputId, joinWithCamera, refresh]);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  const updatePreferences = (changes: Partial<DevicePreferences>) => {
+    setPreferences(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleTestSound = () => {
+    playTestSound(preferences.audioOutputId).catch(error => {
+      console.error('Error playing test sound:', error);
+      toast.error('Could not play a test sound');
+    });
+  };
+
+  const handleJoin = () => {
+    saveDevicePreferences(preferences);
+    handedOver.current = true;
+    onJoin(stream, preferences, mediaError);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-6">
+      <Card className="w-full max-w-3xl bg-gray-800 border-gray-700 text-white">
+        <CardHeader>
+          <CardTitle>Ready to join {classTitle}?</CardTitle>
+        </CardHeader>
+        <CardContent className="grid gap-6 md:grid-cols-2">
+          <div className="space-y-3">
+            <div className="relative aspect-video bg-black rounded-lg overflow-hidden">
+              <video
+                ref={videoRef}
+                autoPlay
+                muted
+                playsInline
+                className={`w-full h-full object-cover ${stream?.getVideoTracks().length ? '' : 'hidden'}`}
+              />
+              {!stream?.getVideoTracks().length && (
+                <div className="absolute inset-0 flex flex-col items-center justify-center text-gray-400 text-sm gap-2">
+                  {opening ? <Loader2 className="w-6 h-6 animate-spin" /> : <VideoOff className="w-8 h-8" />}
+                  {opening ? 'Starting camera…' : mediaError || 'Camera is off'}
+                </div>
+              )}
+            </div>
+            <div className="flex items-center gap-2">
+              {preferences.joinMuted ? <MicOff className="w-4 h-4 text-red-400" /> : <Mic className="w-4 h-4 text-green-400" />}
+              <Progress value={audioTrack ? level * 100 : 0} className="h-2 flex-1" />
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <DeviceSelect
+              label="Camera"
+              devices={devices.videoInputs}
+              value={preferences.videoInputId}
+              onChange={videoInputId => updatePreferences({ videoInputId })}
+              disabled={!preferences.joinWithCamera}
+            />
+            <DeviceSelect
+              label="Microphone"
+              devices={devices.audioInputs}
+              value={preferences.audioInputId}
+              onChange={audioInputId => updatePreferences({ audioInputId })}
+            />
+            {supportsAudioOutputSelection() && (
+              <div className="flex items-end gap-2">
+                <div className="flex-1">
+                  <DeviceSelect
+                    label="Speaker"
+                    devices={devices.audioOutputs}
+                    value={preferences.audioOutputId}
+                    onChange={audioOutputId => updatePreferences({ audioOutputId })}
+                  />
+                </div>
+                <Button variant="outline" size="sm" onClick={handleTestSound} title="Play a test sound">
+                  <Volume2 className="w-4 h-4" />
+                </Button>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="join-with-camera" className="flex items-center gap-2 text-sm">
+                <Video className="w-4 h-4" />
+                Join with camera on
+              </Label>
+              <Switch
+                id="join-with-camera"
+                checked={preferences.joinWithCamera}
+                onCheckedChange={joinWithCamera => updatePreferences({ joinWithCamera })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="join-muted" className="flex items-center gap-2 text-sm">
+                <MicOff className="w-4 h-4" />
+                Join with microphone muted
+              </Label>
+              <Switch
+                id="join-muted"
+                checked={preferences.joinMuted}
+                onCheckedChange={joinMuted => updatePreferences({ joinMuted })}
+              />
+            </div>
+
+            <Button className="w-full" onClick={handleJoin} disabled={opening}>
+              Join Class
+            </Button>
+            {mediaError && !opening && (
+              <p className="text-xs text-yellow-400">You can still join to watch and chat without a camera or microphone.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { SlideViewer } from '@/components/classroom/SlideViewer';
+import { SlideDeck } from '@/types';
+import { ChevronLeft, ChevronRight, Presentation, RefreshCw, X } from 'lucide-react';
+
+interface PresentationStageProps {
+  deck: SlideDeck;
+  page: number;
+  pageCount: number;
+  isTeacher: boolean;
+  canNavigate: boolean;
+  allowFreeBrowse: boolean;
+  followTeacher: boolean;
+  teacherPage: number;
+  onPageCountChange: (pageCount: number) => void;
+  onPageChange: (page: number) => void;
+  onAllowFreeBrowseChange: (allowFreeBrowse: boolean) => void;
+  onSyncToTeacher: () => void;
+  onStop: () => void;
+}
+
+export function PresentationStage({
+  deck,
+  page,
+  pageCount,
+  isTeacher,
+  canNavigate,
+  allowFreeBrowse,
+  followTeacher,
+  teacherPage,
+  onPageCountChange,
+  onPageChange,
+  onAllowFreeBrowseChange,
+  onSyncToTeacher,
+  onStop
+}: PresentationStageProps) {
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Presentation className="w-5 h-5 text-blue-400" />
+          <span className="font-semibold">{deck.deckName}</span>
+          <Badge variant="secondary" className="bg-blue-500 text-white">
+            {page} / {pageCount || '…'}
+          </Badge>
+          {!isTeacher && !followTeacher && (
+            <Badge variant="outline" className="border-yellow-500/40 text-yellow-400">
+              Browsing freely · teacher on {teacherPage}
+            </Badge>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {isTeacher && (
+            <div className="flex items-center gap-2">
+              <Switch
+                id="allow-free-browse"
+                checked={allowFreeBrowse}
+                onCheckedChange={onAllowFreeBrowseChange}
+              />
+              <Label htmlFor="allow-free-browse" className="text-xs text-gray-300">
+                Let students browse freely
+              </Label>
+            </div>
+          )}
+          {!isTeacher && !followTeacher && (
+            <Button variant="outline" size="sm" onClick={onSyncToTeacher}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Follow teacher
+            </Button>
+          )}
+          {isTeacher && (
+            <Button variant="destructive" size="sm" onClick={onStop}>
+              <X className="w-4 h-4 mr-2" />
+              Stop Presenting
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 bg-black rounded-xl overflow-hidden relative min-h-[300px]">
+        <SlideViewer deck={deck} page={page} onPageCountChange={onPageCountChange} />
+      </div>
+
+      {canNavigate && (
+        <div className="flex items-center justify-center gap-4 mt-4">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page - 1)}
+            disabled={page <= 1}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="text-sm text-gray-300">
+            Slide {page} of {pageCount || '…'}
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onPageChange(page + 1)}
+            disabled={pageCount > 0 && page >= pageCount}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
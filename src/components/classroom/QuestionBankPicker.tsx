@@ -0,0 +1,200 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { QuizTimeLimitPicker } from '@/components/classroom/QuizTimeLimitPicker';
+import { QuizDraft } from '@/components/classroom/QuizBuilderDialog';
+import { useQuestionBank } from '@/hooks/use-question-bank';
+import { filterBankQuestions } from '@/lib/questionBank';
+import { getTotalPoints, QUESTION_TYPE_LABELS } from '@/lib/quiz';
+import { BankQuestion } from '@/types';
+import { Check, Library, Play, Search } from 'lucide-react';
+
+interface QuestionBankPickerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teacherId: string;
+  onLaunch: (draft: QuizDraft, bankQuestionIds: string[]) => Promise<boolean>;
+}
+
+export function QuestionBankPicker({ open, onOpenChange, teacherId, onLaunch }: QuestionBankPickerProps) {
+  const { questions, tags, topics, loading } = useQuestionBank(teacherId, open);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [title, setTitle] = useState('');
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState<number | null>(null);
+  const [launching, setLaunching] = useState(false);
+
+  useEffect(() => {
+    if (open) return;
+    setSelectedIds([]);
+    setTitle('');
+  }, [open]);
+
+  const filtered = filterBankQuestions(questions, search, tagFilter, topicFilter);
+  // Keep the order in which questions were picked
+  const selected = selectedIds
+    .map(id => questions.find(question => question.id === id))
+    .filter((question): question is BankQuestion => question !== undefined);
+
+  const toggleSelected = (questionId: string) => {
+    setSelectedIds(prev => prev.includes(questionId)
+      ? prev.filter(id => id !== questionId)
+      : [...prev, questionId]
+    );
+  };
+
+  const launch = async (bankQuestions: BankQuestion[]) => {
+    if (bankQuestions.length === 0 || launching) return;
+
+    setLaunching(true);
+    await onLaunch({
+      title: title.trim() || topicFilter || bankQuestions[0].question.prompt,
+      questions: bankQuestions.map(bankQuestion => bankQuestion.question),
+      timeLimitSeconds
+    }, bankQuestions.map(bankQuestion => bankQuestion.id));
+    setLaunching(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <Library className="w-6 h-6 text-blue-400" />
+            Launch from Question Bank
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Launch a single question right away, or pick several to run them as one quiz
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <Input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search questions, tags or topics"
+              className="bg-gray-700 border-gray-600 text-white pl-9"
+            />
+          </div>
+
+          {(topics.length > 0 || tags.length > 0) && (
+            <div className="flex flex-wrap gap-2">
+              {topics.map(topic => (
+                <Badge
+                  key={`topic-${topic}`}
+                  variant="outline"
+                  className={`cursor-pointer ${topicFilter === topic ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-500 text-gray-300'}`}
+                  onClick={() => setTopicFilter(topicFilter === topic ? null : topic)}
+                >
+                  {topic}
+                </Badge>
+              ))}
+              {tags.map(tag => (
+                <Badge
+                  key={`tag-${tag}`}
+                  variant="outline"
+                  className={`cursor-pointer ${tagFilter === tag ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-600 text-gray-400'}`}
+                  onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+                >
+                  #{tag}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {loading ? (
+              <p className="text-sm text-gray-400 text-center py-6">Loading question bank...</p>
+            ) : filtered.length === 0 ? (
+              <p className="text-sm text-gray-400 text-center py-6">
+                {questions.length === 0
+                  ? 'Your question bank is empty. Add questions from the teacher dashboard.'
+                  : 'No questions match your filters'
+                }
+              </p>
+            ) : filtered.map(bankQuestion => {
+              const isSelected = selectedIds.includes(bankQuestion.id);
+
+              return (
+                <div
+                  key={bankQuestion.id}
+                  className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer ${
+                    isSelected ? 'bg-blue-500/20 border-blue-500' : 'bg-gray-700/50 border-gray-600 hover:bg-gray-700'
+                  }`}
+                  onClick={() => toggleSelected(bankQuestion.id)}
+                >
+                  <div className={`w-5 h-5 mt-0.5 rounded border-2 flex-shrink-0 flex items-center justify-center ${
+                    isSelected ? 'border-blue-500 bg-blue-500/20' : 'border-gray-400'
+                  }`}>
+                    {isSelected && <Check className="w-3 h-3 text-blue-400" />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium">{bankQuestion.question.prompt}</p>
+                    <p className="text-xs text-gray-400 mt-1">
+                      {QUESTION_TYPE_LABELS[bankQuestion.question.type]} · {bankQuestion.question.points} pts
+                      {bankQuestion.topic && ` · ${bankQuestion.topic}`}
+                      {` · used ${bankQuestion.usageCount}×`}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      launch([bankQuestion]);
+                    }}
+                    disabled={launching}
+                    className="text-green-400 hover:text-green-300 hover:bg-gray-600"
+                    title="Launch this question now"
+                  >
+                    <Play className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+
+          {selected.length > 0 && (
+            <div className="space-y-4 pt-2 border-t border-gray-700">
+              <Input
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Quiz title (optional)"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <QuizTimeLimitPicker value={timeLimitSeconds} onChange={setTimeLimitSeconds} />
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => launch(selected)}
+              disabled={selected.length === 0 || launching}
+              className="flex-1 bg-green-600 hover:bg-green-700"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Launch {selected.length || ''} Question{selected.length === 1 ? '' : 's'}
+              {selected.length > 0 && ` · ${getTotalPoints(selected.map(question => question.question))} pts`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,218 @@
+import { useState, useRef } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { QuizQuestionEditor } from '@/components/classroom/QuizQuestionEditor';
+import { QuizTimeLimitPicker } from '@/components/classroom/QuizTimeLimitPicker';
+import { cleanQuestion, createEmptyQuestion, getTotalPoints, isQuestionComplete } from '@/lib/quiz';
+import { parseQuizFile, QUIZ_IMPORT_ACCEPT } from '@/lib/quizImport';
+import { QuizQuestion } from '@/types';
+import { Award, ArrowDown, ArrowUp, FileUp, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+export interface QuizDraft {
+  title: string;
+  questions: QuizQuestion[];
+  timeLimitSeconds: number | null;
+}
+
+interface QuizBuilderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreate: (draft: QuizDraft) => Promise<boolean>;
+}
+
+export function QuizBuilderDialog({ open, onOpenChange, onCreate }: QuizBuilderDialogProps) {
+  const [title, setTitle] = useState('');
+  const [questions, setQuestions] = useState<QuizQuestion[]>([createEmptyQuestion()]);
+  const [timeLimitSeconds, setTimeLimitSeconds] = useState<number | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const moveQuestion = (index: number, direction: -1 | 1) => {
+    setQuestions(prev => {
+      const next = [...prev];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = await parseQuizFile(file);
+      if (imported.questions.length === 0) {
+        toast.error('No usable questions found in the file');
+        return;
+      }
+
+      // Replace the untouched starter question, otherwise append
+      const isUntouched = questions.length === 1 && !questions[0].prompt.trim();
+      setQuestions(prev => isUntouched ? imported.questions : [...prev, ...imported.questions]);
+      if (!title.trim()) setTitle(imported.title);
+
+      toast.success(`Imported ${imported.questions.length} question${imported.questions.length === 1 ? '' : 's'}`, {
+        description: imported.warnings.length > 0
+          ? `${imported.warnings.length} skipped: ${imported.warnings.slice(0, 3).join('; ')}`
+          : undefined
+      });
+    } catch (error) {
+      console.error('Error importing quiz:', error);
+      toast.error((error as Error).message || 'Failed to import quiz');
+    }
+  };
+
+  const isValid = questions.length > 0 && questions.every(isQuestionComplete);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValid || submitting) return;
+
+    setSubmitting(true);
+    const created = await onCreate({
+      title: title.trim() || questions[0].prompt.trim(),
+      questions: questions.map(cleanQuestion),
+      timeLimitSeconds
+    });
+    setSubmitting(false);
+
+    if (created) {
+      setTitle('');
+      setQuestions([createEmptyQuestion()]);
+      setTimeLimitSeconds(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <Award className="w-6 h-6 text-yellow-400" />
+            Create Quiz
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Build a quiz from choice, true/false, short-answer and numeric questions
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="quizTitle" className="text-sm font-medium text-gray-300">
+              Quiz Title
+            </Label>
+            <Input
+              id="quizTitle"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="Defaults to the first question"
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+
+          <QuizTimeLimitPicker value={timeLimitSeconds} onChange={setTimeLimitSeconds} />
+
+          {questions.map((question, questionIndex) => (
+            <div key={question.id} className="space-y-4 p-4 rounded-xl border border-gray-600 bg-gray-700/40">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-semibold text-gray-200">Question {questionIndex + 1}</span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveQuestion(questionIndex, -1)}
+                    disabled={questionIndex === 0}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveQuestion(questionIndex, 1)}
+                    disabled={questionIndex === questions.length - 1}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setQuestions(prev => prev.filter(q => q.id !== question.id))}
+                    disabled={questions.length === 1}
+                    className="text-red-400 hover:text-red-300"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <QuizQuestionEditor
+                question={question}
+                onChange={(next) => setQuestions(prev => prev.map(q => q.id === question.id ? next : q))}
+              />
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setQuestions(prev => [...prev, createEmptyQuestion()])}
+              className="flex-1 border-dashed border-gray-500 text-gray-300 hover:bg-gray-700"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add Question
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              className="border-dashed border-gray-500 text-gray-300 hover:bg-gray-700"
+              title="Import questions from CSV, JSON or Moodle GIFT"
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={QUIZ_IMPORT_ACCEPT}
+              onChange={handleImportFile}
+              className="hidden"
+            />
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-gray-400">
+            <span>{questions.length} question{questions.length === 1 ? '' : 's'}</span>
+            <span>{getTotalPoints(questions)} points total</span>
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="flex-1 bg-green-600 hover:bg-green-700"
+              disabled={!isValid || submitting}
+            >
+              <Award className="w-4 h-4 mr-2" />
+              Create Quiz
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,28 @@
+import { Progress } from '@/components/ui/progress';
+import { formatCountdown } from '@/lib/quiz';
+import { Timer } from 'lucide-react';
+
+interface QuizCountdownProps {
+  remainingMs: number;
+  totalMs: number;
+}
+
+export function QuizCountdown({ remainingMs, totalMs }: QuizCountdownProps) {
+  const isUrgent = remainingMs <= 10000;
+  const isExpired = remainingMs <= 0;
+
+  return (
+    <div className="space-y-1">
+      <div className={`flex items-center justify-between text-sm font-medium ${
+        isExpired ? 'text-red-400' : isUrgent ? 'text-red-400 animate-pulse' : 'text-yellow-400'
+      }`}>
+        <span className="flex items-center gap-1">
+          <Timer className="w-4 h-4" />
+          {isExpired ? "Time's up" : 'Time remaining'}
+        </span>
+        <span className="font-mono">{formatCountdown(remainingMs)}</span>
+      </div>
+      <Progress value={totalMs > 0 ? (remainingMs / totalMs) * 100 : 0} className="h-1" />
+    </div>
+  );
+}
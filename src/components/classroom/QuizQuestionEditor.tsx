@@ -0,0 +1,240 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { changeQuestionType, isChoiceQuestion, MAX_OPTIONS, MIN_OPTIONS, QUESTION_TYPE_LABELS } from '@/lib/quiz';
+import { QuizQuestion, QuizQuestionType } from '@/types';
+import { Check, CheckCircle2, Plus, X } from 'lucide-react';
+
+interface QuizQuestionEditorProps {
+  question: QuizQuestion;
+  onChange: (question: QuizQuestion) => void;
+}
+
+const QUESTION_TYPES = Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[];
+
+// Type picker, prompt, answer key and points for one question; shared by the quiz builder and the question bank
+export function QuizQuestionEditor({ question, onChange }: QuizQuestionEditorProps) {
+  const updateQuestion = (changes: Partial<QuizQuestion>) => {
+    onChange({ ...question, ...changes });
+  };
+
+  const updateOption = (optionIndex: number, value: string) => {
+    const options = [...question.options];
+    options[optionIndex] = value;
+    updateQuestion({ options });
+  };
+
+  const removeOption = (optionIndex: number) => {
+    const options = question.options.filter((_, index) => index !== optionIndex);
+    const shiftIndex = (index: number) => index > optionIndex ? index - 1 : index;
+
+    if (question.type === 'multiple') {
+      const correctAnswers = (question.correctAnswers || [])
+        .filter(index => index !== optionIndex)
+        .map(shiftIndex);
+      updateQuestion({ options, correctAnswers });
+      return;
+    }
+
+    const correctAnswer = question.correctAnswer === optionIndex ? 0 : shiftIndex(question.correctAnswer);
+    updateQuestion({ options, correctAnswer });
+  };
+
+  const toggleCorrectOption = (optionIndex: number) => {
+    if (question.type !== 'multiple') {
+      updateQuestion({ correctAnswer: optionIndex });
+      return;
+    }
+
+    const correctAnswers = question.correctAnswers || [];
+    updateQuestion({
+      correctAnswers: correctAnswers.includes(optionIndex)
+        ? correctAnswers.filter(index => index !== optionIndex)
+        : [...correctAnswers, optionIndex].sort((a, b) => a - b)
+    });
+  };
+
+  const updateAcceptedAnswer = (answerIndex: number, value: string) => {
+    const acceptedAnswers = [...(question.acceptedAnswers || [])];
+    acceptedAnswers[answerIndex] = value;
+    updateQuestion({ acceptedAnswers });
+  };
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-1">
+        {QUESTION_TYPES.map(type => (
+          <Button
+            key={type}
+            type="button"
+            size="sm"
+            variant={question.type === type ? 'default' : 'ghost'}
+            onClick={() => question.type !== type && onChange(changeQuestionType(question, type))}
+            className={question.type === type ? 'bg-blue-600 hover:bg-blue-700' : 'text-gray-400 hover:text-white'}
+          >
+            {QUESTION_TYPE_LABELS[type]}
+          </Button>
+        ))}
+      </div>
+
+      <Textarea
+        value={question.prompt}
+        onChange={(e) => updateQuestion({ prompt: e.target.value })}
+        placeholder={question.type === 'true-false' ? 'Enter a statement to mark true or false...' : 'Enter your quiz question here...'}
+        className="bg-gray-700 border-gray-600 text-white min-h-[80px]"
+        required
+      />
+
+      {isChoiceQuestion(question) && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4 text-green-400" />
+            {question.type === 'multiple'
+              ? 'Options (select every correct one) *'
+              : question.type === 'true-false' ? 'Correct answer *' : 'Options (select the correct one) *'
+            }
+          </Label>
+          {question.options.map((option, optionIndex) => {
+            const isCorrect = question.type === 'multiple'
+              ? !!question.correctAnswers?.includes(optionIndex)
+              : question.correctAnswer === optionIndex;
+
+            return (
+              <div key={optionIndex} className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={() => toggleCorrectOption(optionIndex)}
+                  className={`w-5 h-5 border-2 flex-shrink-0 flex items-center justify-center ${
+                    question.type === 'multiple' ? 'rounded' : 'rounded-full'
+                  } ${isCorrect ? 'border-green-500 bg-green-500/20' : 'border-gray-400'}`}
+                  title="Mark as correct answer"
+                >
+                  {isCorrect && (question.type === 'multiple'
+                    ? <Check className="w-3 h-3 text-green-500" />
+                    : <div className="w-2 h-2 bg-green-500 rounded-full" />
+                  )}
+                </button>
+                {question.type === 'true-false' ? (
+                  <span className={`text-sm ${isCorrect ? 'text-green-400' : 'text-gray-300'}`}>{option}</span>
+                ) : (
+                  <>
+                    <Input
+                      value={option}
+                      onChange={(e) => updateOption(optionIndex, e.target.value)}
+                      placeholder={`Enter option ${optionIndex + 1}`}
+                      className={`bg-gray-700 text-white ${isCorrect ? 'border-green-500' : 'border-gray-600'}`}
+                      required
+                    />
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeOption(optionIndex)}
+                      disabled={question.options.length <= MIN_OPTIONS}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+          {question.type !== 'true-false' && question.options.length < MAX_OPTIONS && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => updateQuestion({ options: [...question.options, ''] })}
+              className="text-gray-300"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add option
+            </Button>
+          )}
+        </div>
+      )}
+
+      {question.type === 'short-answer' && (
+        <div className="space-y-2">
+          <Label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+            <CheckCircle2 className="w-4 h-4 text-green-400" />
+            Accepted answers (case and extra spaces are ignored) *
+          </Label>
+          {(question.acceptedAnswers || []).map((answer, answerIndex) => (
+            <div key={answerIndex} className="flex items-center gap-2">
+              <Input
+                value={answer}
+                onChange={(e) => updateAcceptedAnswer(answerIndex, e.target.value)}
+                placeholder={answerIndex === 0 ? 'Expected answer' : 'Alternative spelling or synonym'}
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => updateQuestion({
+                  acceptedAnswers: (question.acceptedAnswers || []).filter((_, index) => index !== answerIndex)
+                })}
+                disabled={(question.acceptedAnswers || []).length <= 1}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => updateQuestion({ acceptedAnswers: [...(question.acceptedAnswers || []), ''] })}
+            className="text-gray-300"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add accepted answer
+          </Button>
+        </div>
+      )}
+
+      {question.type === 'numeric' && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor={`numeric-${question.id}`} className="text-sm text-gray-300">Correct answer *</Label>
+            <Input
+              id={`numeric-${question.id}`}
+              type="number"
+              step="any"
+              value={question.numericAnswer ?? ''}
+              onChange={(e) => updateQuestion({ numericAnswer: e.target.value === '' ? undefined : Number(e.target.value) })}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`tolerance-${question.id}`} className="text-sm text-gray-300">Tolerance (±)</Label>
+            <Input
+              id={`tolerance-${question.id}`}
+              type="number"
+              step="any"
+              min={0}
+              value={question.tolerance ?? 0}
+              onChange={(e) => updateQuestion({ tolerance: Math.abs(Number(e.target.value)) || 0 })}
+              className="bg-gray-700 border-gray-600 text-white"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <Label htmlFor={`points-${question.id}`} className="text-sm text-gray-300">Points</Label>
+        <Input
+          id={`points-${question.id}`}
+          type="number"
+          min={1}
+          max={100}
+          value={question.points}
+          onChange={(e) => updateQuestion({ points: parseInt(e.target.value) || 1 })}
+          className="bg-gray-700 border-gray-600 text-white w-24"
+        />
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,139 @@
+import { Input } from '@/components/ui/input';
+import { QuizSelection } from '@/lib/quiz';
+import { QuizQuestion } from '@/types';
+import { Check } from 'lucide-react';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  selection: QuizSelection | undefined;
+  onChange: (selection: QuizSelection) => void;
+  disabled?: boolean;
+}
+
+interface OptionRowProps {
+  label: string;
+  selected: boolean;
+  multiple: boolean;
+  onClick: () => void;
+}
+
+function OptionRow({ label, selected, multiple, onClick }: OptionRowProps) {
+  return (
+    <div
+      className={`
+        relative flex items-start space-x-3 p-4 rounded-xl border-2 transition-all duration-200 cursor-pointer
+        ${selected
+          ? 'bg-blue-500/20 border-blue-500'
+          : 'bg-gray-700/80 border-gray-600 hover:bg-gray-600/80 hover:border-gray-500'
+        }
+      `}
+      onClick={onClick}
+    >
+      <div className={`
+        w-5 h-5 mt-0.5 border-2 flex items-center justify-center
+        ${multiple ? 'rounded' : 'rounded-full'}
+        ${selected ? 'border-blue-500 bg-blue-500/20' : 'border-gray-400'}
+      `}>
+        {selected && (multiple
+          ? <Check className="w-3 h-3 text-blue-400" />
+          : <div className="w-2 h-2 bg-blue-500 rounded-full" />
+        )}
+      </div>
+      <div className={`text-base font-medium select-none ${selected ? 'text-blue-300' : 'text-gray-300'}`}>
+        {label}
+      </div>
+    </div>
+  );
+}
+
+function SingleChoiceInput({ question, selection, onChange, disabled }: QuizQuestionInputProps) {
+  return (
+    <div className="space-y-3">
+      {question.options.map((option, index) => (
+        <OptionRow
+          key={index}
+          label={option}
+          selected={selection === index}
+          multiple={false}
+          onClick={() => !disabled && onChange(index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function TrueFalseInput({ question, selection, onChange, disabled }: QuizQuestionInputProps) {
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      {question.options.map((option, index) => (
+        <button
+          key={index}
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange(index)}
+          className={`p-4 rounded-xl border-2 text-lg font-semibold transition-all duration-200 ${
+            selection === index
+              ? index === 0 ? 'bg-green-500/20 border-green-500 text-green-300' : 'bg-red-500/20 border-red-500 text-red-300'
+              : 'bg-gray-700/80 border-gray-600 text-gray-300 hover:bg-gray-600/80'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function MultiSelectInput({ question, selection, onChange, disabled }: QuizQuestionInputProps) {
+  const selected = Array.isArray(selection) ? selection : [];
+
+  const toggle = (index: number) => {
+    if (disabled) return;
+    onChange(selected.includes(index) ? selected.filter(i => i !== index) : [...selected, index]);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-400">Select all that apply</p>
+      {question.options.map((option, index) => (
+        <OptionRow
+          key={index}
+          label={option}
+          selected={selected.includes(index)}
+          multiple
+          onClick={() => toggle(index)}
+        />
+      ))}
+    </div>
+  );
+}
+
+function TextAnswerInput({ question, selection, onChange, disabled }: QuizQuestionInputProps) {
+  const isNumeric = question.type === 'numeric';
+
+  return (
+    <Input
+      value={typeof selection === 'string' ? selection : ''}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={isNumeric ? 'Enter a number' : 'Type your answer'}
+      inputMode={isNumeric ? 'decimal' : 'text'}
+      disabled={disabled}
+      className="bg-gray-700 border-gray-600 text-white h-12 text-base"
+    />
+  );
+}
+
+// Renders the answer control matching the question type
+export function QuizQuestionInput(props: QuizQuestionInputProps) {
+  switch (props.question.type) {
+    case 'multiple':
+      return <MultiSelectInput {...props} />;
+    case 'true-false':
+      return <TrueFalseInput {...props} />;
+    case 'short-answer':
+    case 'numeric':
+      return <TextAnswerInput {...props} />;
+    default:
+      return <SingleChoiceInput {...props} />;
+  }
+}
@@ -0,0 +1,75 @@
+import { aggregateAnswers, getCorrectText, isChoiceQuestion, QUESTION_TYPE_LABELS } from '@/lib/quiz';
+import { QuizAnswer, QuizQuestion } from '@/types';
+import { CheckCircle2 } from 'lucide-react';
+
+interface QuizQuestionResultsProps {
+  question: QuizQuestion;
+  questionNumber: number;
+  answers: QuizAnswer[];
+}
+
+// Per-question breakdown in the teacher's results dialog
+export function QuizQuestionResults({ question, questionNumber, answers }: QuizQuestionResultsProps) {
+  const correctAnswers = answers.filter(answer => answer.isCorrect).length;
+  const buckets = aggregateAnswers(question, answers);
+  const isChoice = isChoiceQuestion(question);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-gray-200">{questionNumber}. {question.prompt}</span>
+        <span className="text-gray-400 whitespace-nowrap ml-4">
+          {correctAnswers}/{answers.length} correct
+        </span>
+      </div>
+      <p className="text-xs text-gray-500">
+        {QUESTION_TYPE_LABELS[question.type]}
+        {question.type === 'multiple' && ' · percentages are of students who answered'}
+        {!isChoice && ` · accepted: ${getCorrectText(question)}`}
+      </p>
+
+      {buckets.length === 0 && (
+        <p className="text-sm text-gray-500 p-3 bg-gray-700/50 rounded-lg">No answers yet</p>
+      )}
+
+      {buckets.map((bucket, index) => {
+        const percentage = answers.length > 0 ? Math.round((bucket.count / answers.length) * 100) : 0;
+
+        return (
+          <div key={index} className="flex items-center gap-3 p-3 bg-gray-700/50 rounded-lg">
+            {isChoice && (
+              <div className="flex items-center gap-2 w-32">
+                <span className={`w-3 h-3 rounded-full ${bucket.isCorrect ? 'bg-green-500' : 'bg-gray-500'}`}></span>
+                <span className="text-sm font-medium">Option {index + 1}</span>
+                {bucket.isCorrect && (
+                  <CheckCircle2 className="w-4 h-4 text-green-500" />
+                )}
+              </div>
+            )}
+            <div className="flex-1">
+              <div className="flex justify-between text-sm mb-2">
+                <span className="text-gray-300 truncate flex-1 mr-4 flex items-center gap-1">
+                  {!isChoice && bucket.isCorrect && (
+                    <CheckCircle2 className="w-4 h-4 text-green-500 flex-shrink-0" />
+                  )}
+                  {bucket.label}
+                </span>
+                <span className="text-gray-400 whitespace-nowrap">
+                  {bucket.count} ({percentage}%)
+                </span>
+              </div>
+              <div className="w-full bg-gray-600 rounded-full h-3">
+                <div
+                  className={`h-3 rounded-full transition-all duration-500 ${
+                    bucket.isCorrect ? 'bg-green-500' : 'bg-blue-500'
+                  }`}
+                  style={{ width: `${percentage}%` }}
+                ></div>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { QuizCountdown } from '@/components/classroom/QuizCountdown';
+import { QuizQuestionResults } from '@/components/classroom/QuizQuestionResults';
+import { useQuizCountdown } from '@/hooks/use-quiz-countdown';
+import { getScorePercentage, isLateResponse } from '@/lib/quiz';
+import { Quiz, QuizResponse } from '@/types';
+import { Clock } from 'lucide-react';
+
+interface QuizResultsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  quiz: Quiz | null;
+  responses: QuizResponse[];
+  onCloseQuiz: () => void;
+}
+
+export function QuizResultsDialog({ open, onOpenChange, quiz, responses: allResponses, onCloseQuiz }: QuizResultsDialogProps) {
+  const countdown = useQuizCountdown(quiz);
+  // Submissions that arrived after the deadline are listed but never counted
+  const lateResponses = quiz ? allResponses.filter(response => isLateResponse(quiz, response)) : [];
+  const responses = allResponses.filter(response => !lateResponses.includes(response));
+
+  const totalResponses = responses.length;
+  const averageScore = totalResponses > 0
+    ? Math.round(responses.reduce((total, response) => total + getScorePercentage(response), 0) / totalResponses)
+    : 0;
+  const perfectScores = responses.filter(response => response.maxScore > 0 && response.score === response.maxScore).length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Quiz Results</DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Results for: {quiz?.title}
+          </DialogDescription>
+        </DialogHeader>
+
+        {quiz && (
+          <div className="space-y-6">
+            {quiz.isActive && countdown.remainingMs !== null && countdown.totalMs !== null && (
+              <QuizCountdown remainingMs={countdown.remainingMs} totalMs={countdown.totalMs} />
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="bg-gray-700 p-4 rounded-lg text-center">
+                <p className="text-2xl font-bold text-blue-400">{totalResponses}</p>
+                <p className="text-sm text-gray-400">Total Responses</p>
+              </div>
+              <div className="bg-gray-700 p-4 rounded-lg text-center">
+                <p className="text-2xl font-bold text-green-400">{perfectScores}</p>
+                <p className="text-sm text-gray-400">Full Marks</p>
+              </div>
+              <div className="bg-gray-700 p-4 rounded-lg text-center">
+                <p className="text-2xl font-bold text-yellow-400">{averageScore}%</p>
+                <p className="text-sm text-gray-400">Average Score</p>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <h4 className="font-medium">Response Breakdown</h4>
+              {quiz.questions.map((question, questionIndex) => (
+                <QuizQuestionResults
+                  key={question.id}
+                  question={question}
+                  questionNumber={questionIndex + 1}
+                  answers={responses
+                    .map(response => response.answers.find(answer => answer.questionId === question.id))
+                    .filter(answer => answer !== undefined)}
+                />
+              ))}
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-3">Student Scores</h4>
+              {responses.length > 0 ? (
+                <div className="max-h-60 overflow-y-auto space-y-2 border border-gray-600 rounded-lg p-2">
+                  {responses.map((response) => {
+                    const percentage = getScorePercentage(response);
+
+                    return (
+                      <div
+                        key={response.id}
+                        className={`flex items-center gap-3 p-3 rounded-lg ${
+                          percentage >= 50 ? 'bg-green-500/10' : 'bg-red-500/10'
+                        }`}
+                      >
+                        <Avatar className="h-8 w-8">
+                          <AvatarFallback className={percentage >= 50 ? 'bg-green-600' : 'bg-red-600'}>
+                            {response.studentName?.[0]?.toUpperCase() || 'S'}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-sm truncate">{response.studentName}</p>
+                          <p className="text-xs text-gray-400">
+                            {response.correctCount}/{response.totalQuestions} correct
+                          </p>
+                        </div>
+                        <span className="text-sm font-semibold">
+                          {response.score}/{response.maxScore}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-8 bg-gray-700/50 rounded-lg border border-gray-600">
+                  <p className="text-gray-400">No responses yet</p>
+                </div>
+              )}
+            </div>
+
+            {lateResponses.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-3 flex items-center gap-2 text-red-400">
+                  <Clock className="w-4 h-4" />
+                  Late Submissions (not scored)
+                </h4>
+                <div className="space-y-2">
+                  {lateResponses.map(response => (
+                    <div key={response.id} className="flex items-center justify-between p-2 rounded-lg bg-red-500/10 text-sm">
+                      <span className="truncate">{response.studentName}</span>
+                      <span className="text-xs text-gray-400">{response.submittedAt.toLocaleTimeString()}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="flex-1"
+              >
+                Close
+              </Button>
+              {quiz.isActive && (
+                <Button
+                  onClick={onCloseQuiz}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700"
+                >
+                  Close Quiz
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
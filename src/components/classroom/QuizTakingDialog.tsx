@@ -0,0 +1,182 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { QuizCountdown } from '@/components/classroom/QuizCountdown';
+import { QuizQuestionInput } from '@/components/classroom/QuizQuestionInput';
+import { useQuizCountdown } from '@/hooks/use-quiz-countdown';
+import { getScorePercentage, hasAnswer, QUESTION_TYPE_LABELS, QuizSelection, QuizSelections } from '@/lib/quiz';
+import { Quiz, QuizResponse } from '@/types';
+import { Award, CheckCircle2, ChevronLeft, ChevronRight, XCircle } from 'lucide-react';
+
+interface QuizTakingDialogProps {
+  open: boolean;
+  onClose: () => void;
+  quiz: Quiz;
+  selections: QuizSelections;
+  onSelect: (questionId: string, selection: QuizSelection) => void;
+  submittedResponse: QuizResponse | null;
+  onSubmit: () => void;
+  submitting: boolean;
+}
+
+export function QuizTakingDialog({
+  open,
+  onClose,
+  quiz,
+  selections,
+  onSelect,
+  submittedResponse,
+  onSubmit,
+  submitting
+}: QuizTakingDialogProps) {
+  const [step, setStep] = useState(0);
+  const countdown = useQuizCountdown(quiz);
+
+  useEffect(() => {
+    setStep(0);
+  }, [quiz.id]);
+
+  const question = quiz.questions[Math.min(step, quiz.questions.length - 1)];
+  const isLastStep = step === quiz.questions.length - 1;
+  const answeredCount = quiz.questions.filter(q => hasAnswer(selections[q.id])).length;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Award className="w-5 h-5 text-yellow-400" />
+            {submittedResponse ? 'Quiz Review' : quiz.title}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            {submittedResponse
+              ? 'Review your submitted answers'
+              : `${quiz.questions.length} question${quiz.questions.length === 1 ? '' : 's'} · ${quiz.totalPoints} points - You can only submit once`
+            }
+          </DialogDescription>
+        </DialogHeader>
+
+        {submittedResponse ? (
+          <div className="space-y-4">
+            <div className={`p-4 rounded-lg border-2 text-center ${
+              submittedResponse.isCorrect
+                ? 'bg-green-500/20 border-green-500 text-green-400'
+                : 'bg-blue-500/20 border-blue-500 text-blue-300'
+            }`}>
+              <p className="text-3xl font-bold">{submittedResponse.score}/{submittedResponse.maxScore}</p>
+              <p className="text-sm mt-1">
+                {submittedResponse.correctCount} of {submittedResponse.totalQuestions} correct · {getScorePercentage(submittedResponse)}%
+              </p>
+            </div>
+
+            <div className="space-y-3">
+              {submittedResponse.answers.map((answer, index) => (
+                <div
+                  key={answer.questionId}
+                  className={`p-3 rounded-lg border ${
+                    answer.isCorrect ? 'bg-green-500/10 border-green-500/40' : 'bg-red-500/10 border-red-500/40'
+                  }`}
+                >
+                  <div className="flex items-start gap-2">
+                    {answer.isCorrect ? (
+                      <CheckCircle2 className="w-5 h-5 text-green-500 flex-shrink-0" />
+                    ) : (
+                      <XCircle className="w-5 h-5 text-red-500 flex-shrink-0" />
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium">{index + 1}. {answer.prompt}</p>
+                      <p className="text-xs text-blue-300 mt-1">
+                        Your answer: {answer.selectedText || 'No answer'}
+                      </p>
+                      {!answer.isCorrect && (
+                        <p className="text-xs text-green-400">Correct answer: {answer.correctText}</p>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-400 whitespace-nowrap">
+                      {answer.pointsAwarded}/{answer.points} pts
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={onClose} className="w-full bg-gray-600 hover:bg-gray-700">
+              Close Review
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {countdown.remainingMs !== null && countdown.totalMs !== null && (
+              <QuizCountdown remainingMs={countdown.remainingMs} totalMs={countdown.totalMs} />
+            )}
+
+            {countdown.isExpired && (
+              <div className="p-3 rounded-lg border border-red-500/40 bg-red-500/10 text-sm text-red-300">
+                Time is up. This quiz no longer accepts answers.
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="flex justify-between text-xs text-gray-400">
+                <span>Question {step + 1} of {quiz.questions.length} · {QUESTION_TYPE_LABELS[question.type]}</span>
+                <span>{question.points} point{question.points === 1 ? '' : 's'}</span>
+              </div>
+              <Progress value={((step + 1) / quiz.questions.length) * 100} className="h-1" />
+            </div>
+
+            <div className="bg-gray-700 p-4 rounded-lg border border-gray-600">
+              <p className="font-medium text-white">{question.prompt}</p>
+            </div>
+
+            <QuizQuestionInput
+              question={question}
+              selection={selections[question.id]}
+              onChange={(selection) => onSelect(question.id, selection)}
+              disabled={countdown.isExpired}
+            />
+
+            <div className="flex gap-2 pt-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setStep(step - 1)}
+                disabled={step === 0}
+                className="border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </Button>
+              {isLastStep ? (
+                <Button
+                  onClick={onSubmit}
+                  disabled={answeredCount === 0 || submitting || countdown.isExpired}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 shadow-lg hover:shadow-blue-500/25"
+                >
+                  <CheckCircle2 className="w-4 h-4 mr-2" />
+                  Submit Quiz ({answeredCount}/{quiz.questions.length} answered)
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => setStep(step + 1)}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700"
+                >
+                  Next Question
+                  <ChevronRight className="w-4 h-4 ml-2" />
+                </Button>
+              )}
+            </div>
+
+            <Button
+              type="button"
+              variant="ghost"
+              onClick={onClose}
+              className="w-full text-gray-400 hover:text-white hover:bg-gray-700"
+            >
+              Close and answer later
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
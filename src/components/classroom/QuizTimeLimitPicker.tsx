@@ -0,0 +1,50 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Timer } from 'lucide-react';
+
+interface QuizTimeLimitPickerProps {
+  value: number | null;
+  onChange: (seconds: number | null) => void;
+}
+
+const TIME_LIMIT_PRESETS: { label: string; seconds: number | null }[] = [
+  { label: 'None', seconds: null },
+  { label: '30s', seconds: 30 },
+  { label: '1 min', seconds: 60 },
+  { label: '2 min', seconds: 120 },
+  { label: '5 min', seconds: 300 },
+  { label: '10 min', seconds: 600 }
+];
+
+export function QuizTimeLimitPicker({ value, onChange }: QuizTimeLimitPickerProps) {
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium text-gray-300 flex items-center gap-2">
+        <Timer className="w-4 h-4 text-yellow-400" />
+        Time Limit
+      </Label>
+      <div className="flex flex-wrap gap-2">
+        {TIME_LIMIT_PRESETS.map(preset => (
+          <Button
+            key={preset.label}
+            type="button"
+            size="sm"
+            variant={value === preset.seconds ? 'default' : 'outline'}
+            onClick={() => onChange(preset.seconds)}
+            className={value === preset.seconds
+              ? 'bg-yellow-600 hover:bg-yellow-700'
+              : 'border-gray-600 text-gray-300 hover:bg-gray-700'
+            }
+          >
+            {preset.label}
+          </Button>
+        ))}
+      </div>
+      {value && (
+        <p className="text-xs text-gray-400">
+          The quiz closes automatically when the timer runs out and late answers are rejected
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { RaisedHand } from '@/types';
+import { format } from 'date-fns';
+import { Hand, Megaphone, X } from 'lucide-react';
+
+interface RaiseHandQueueProps {
+  queue: RaisedHand[];
+  onCallOn: (hand: RaisedHand) => void;
+  onLower: (userId: string) => void;
+  onLowerAll: () => void;
+}
+
+export function RaiseHandQueue({ queue, onCallOn, onLower, onLowerAll }: RaiseHandQueueProps) {
+  if (queue.length === 0) {
+    return <p className="text-xs text-gray-400">No hands raised</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="max-h-48 overflow-y-auto space-y-1">
+        {queue.map((hand, index) => (
+          <div key={hand.id} className="flex items-center gap-2 p-1 rounded hover:bg-gray-600 transition-colors">
+            <span className="w-5 text-xs text-gray-400 text-right">{index + 1}.</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">
+                {hand.userName}
+                {hand.calledOnAt && (
+                  <Badge variant="outline" className="ml-2 bg-green-500/20 text-green-400 border-green-500/30 text-xs">
+                    Called on
+                  </Badge>
+                )}
+              </p>
+              <p className="text-xs text-gray-400">Raised at {format(hand.raisedAt, 'HH:mm')}</p>
+            </div>
+            {!hand.calledOnAt && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onCallOn(hand)}
+                className="h-7 w-7 p-0 text-gray-300 hover:text-white"
+                title="Call on"
+              >
+                <Megaphone className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onLower(hand.userId)}
+              className="h-7 w-7 p-0 text-gray-300 hover:text-white"
+              title="Lower hand"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <Button variant="outline" size="sm" className="w-full justify-start" onClick={onLowerAll}>
+        <Hand className="w-4 h-4 mr-2" />
+        Lower All Hands
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { Loader2 } from 'lucide-react';
+import { MAX_RECONNECT_ATTEMPTS } from '@/lib/WebRTCManager';
+
+interface ReconnectingOverlayProps {
+  attempt: number;
+  compact?: boolean;
+}
+
+// Covers a video tile whose connection dropped, keeping its last frame visible underneath
+export function ReconnectingOverlay({ attempt, compact = false }: ReconnectingOverlayProps) {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-1 bg-black/60 text-white">
+      <Loader2 className={`${compact ? 'w-4 h-4' : 'w-6 h-6'} animate-spin`} />
+      <span className={compact ? 'text-[10px]' : 'text-sm font-medium'}>Reconnecting…</span>
+      {!compact && attempt > 0 && (
+        <span className="text-xs text-gray-300">
+          Attempt {attempt} of {MAX_RECONNECT_ATTEMPTS}
+        </span>
+      )}
+    </div>
+  );
+}
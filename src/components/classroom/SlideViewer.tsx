@@ -0,0 +1,119 @@
+import { useState, useEffect, useRef } from 'react';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { SlideDeck } from '@/types';
+import { loadPdfDocument } from '@/lib/slides';
+
+interface SlideViewerProps {
+  deck: SlideDeck;
+  page: number;
+  onPageCountChange?: (pageCount: number) => void;
+}
+
+export function SlideViewer({ deck, page, onPageCountChange }: SlideViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const pdfUrl = deck.kind === 'pdf' ? deck.slides[0]?.fileUrl : null;
+
+  useEffect(() => {
+    if (deck.kind === 'images') {
+      onPageCountChange?.(deck.slides.length);
+    }
+  }, [deck, onPageCountChange]);
+
+  useEffect(() => {
+    if (!pdfUrl) {
+      setPdf(null);
+      return;
+    }
+
+    let cancelled = false;
+    setError(null);
+
+    loadPdfDocument(pdfUrl)
+      .then(document => {
+        if (cancelled) return;
+        setPdf(document);
+        onPageCountChange?.(document.numPages);
+      })
+      .catch(loadError => {
+        console.error('Error loading PDF slides:', loadError);
+        if (!cancelled) setError('Failed to load slides');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfUrl, onPageCountChange]);
+
+  useEffect(() => {
+    if (!pdf || !canvasRef.current || !containerRef.current) return;
+
+    let renderTask: RenderTask | null = null;
+    let cancelled = false;
+
+    const renderPage = async () => {
+      const pdfPage = await pdf.getPage(Math.min(Math.max(page, 1), pdf.numPages));
+      if (cancelled || !canvasRef.current || !containerRef.current) return;
+
+      const unscaled = pdfPage.getViewport({ scale: 1 });
+      const bounds = containerRef.current.getBoundingClientRect();
+      const scale = Math.min(bounds.width / unscaled.width, bounds.height / unscaled.height) || 1;
+      const viewport = pdfPage.getViewport({ scale: scale * window.devicePixelRatio });
+
+      const canvas = canvasRef.current;
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      canvas.style.width = `${viewport.width / window.devicePixelRatio}px`;
+      canvas.style.height = `${viewport.height / window.devicePixelRatio}px`;
+
+      renderTask = pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      await renderTask.promise;
+    };
+
+    renderPage().catch(renderError => {
+      if ((renderError as Error).name !== 'RenderingCancelledException') {
+        console.error('Error rendering slide:', renderError);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, page]);
+
+  if (error) {
+    return (
+      <div className="w-full h-full flex items-center justify-center text-gray-400">
+        {error}
+      </div>
+    );
+  }
+
+  if (deck.kind === 'images') {
+    const slide = deck.slides[Math.min(Math.max(page, 1), deck.slides.length) - 1];
+    return (
+      <div className="w-full h-full flex items-center justify-center">
+        {slide && (
+          <img
+            src={slide.fileUrl}
+            alt={`${deck.deckName} - slide ${page}`}
+            className="max-w-full max-h-full object-contain"
+          />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="w-full h-full flex items-center justify-center">
+      {!pdf && (
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+      )}
+      <canvas ref={canvasRef} className={pdf ? '' : 'hidden'} />
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { Button } from '@/components/ui/button';
+import { LayoutGrid, UserSquare } from 'lucide-react';
+
+export type VideoLayout = 'grid' | 'speaker';
+
+interface VideoLayoutToggleProps {
+  layout: VideoLayout;
+  onChange: (layout: VideoLayout) => void;
+}
+
+// Grid gives every tile equal weight; speaker view enlarges whoever is talking
+export function VideoLayoutToggle({ layout, onChange }: VideoLayoutToggleProps) {
+  return (
+    <div className="flex gap-1 rounded-md bg-gray-900 p-0.5">
+      <Button
+        variant={layout === 'grid' ? 'default' : 'ghost'}
+        size="sm"
+        className="h-6 px-2"
+        onClick={() => onChange('grid')}
+        title="Grid view"
+      >
+        <LayoutGrid className="w-3 h-3" />
+      </Button>
+      <Button
+        variant={layout === 'speaker' ? 'default' : 'ghost'}
+        size="sm"
+        className="h-6 px-2"
+        onClick={() => onChange('speaker')}
+        title="Speaker view"
+      >
+        <UserSquare className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { SignalLow, SignalMedium, VideoOff } from 'lucide-react';
+import { VideoQuality } from '@/lib/videoQuality';
+
+interface VideoQualityBadgeProps {
+  quality: VideoQuality;
+}
+
+// Shown on a student's tile when their connection only takes a reduced version of the teacher's video
+export function VideoQualityBadge({ quality }: VideoQualityBadgeProps) {
+  if (quality === 'high') return null;
+
+  const Icon = quality === 'audio-only' ? VideoOff : quality === 'low' ? SignalLow : SignalMedium;
+  const label = quality === 'audio-only' ? 'Audio only' : quality === 'low' ? 'Low video' : 'Reduced video';
+
+  return (
+    <div
+      className="absolute top-2 right-2 flex items-center gap-1 rounded bg-black/70 px-2 py-1 text-xs text-yellow-300"
+      title="Your video is sent at lower quality because of this student's connection"
+    >
+      <Icon className="w-3 h-3" />
+      {label}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { useAttendanceReport } from '@/hooks/use-attendance-report';
+import { addStudentToRoster, LATE_GRACE_MINUTES, removeStudentFromRoster } from '@/lib/attendance';
+import { AttendanceReportRow, Class } from '@/types';
+import { UserMinus, UserPlus, Wifi } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface AttendanceReportDialogProps {
+  classItem: Class | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const STATUS_STYLES: Record<AttendanceReportRow['status'], string> = {
+  present: 'bg-green-100 text-green-800 border-green-200',
+  late: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  absent: 'bg-red-100 text-red-800 border-red-200'
+};
+
+export function AttendanceReportDialog({ classItem, onOpenChange }: AttendanceReportDialogProps) {
+  const { rows, loading } = useAttendanceReport(classItem, !!classItem);
+  const [email, setEmail] = useState('');
+  const [adding, setAdding] = useState(false);
+
+  const grace = classItem?.lateGraceMinutes ?? LATE_GRACE_MINUTES;
+  const counts = {
+    present: rows.filter(row => row.status === 'present').length,
+    late: rows.filter(row => row.status === 'late').length,
+    absent: rows.filter(row => row.status === 'absent').length
+  };
+
+  const handleAddStudent = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classItem || !email.trim()) return;
+
+    setAdding(true);
+    try {
+      const student = await addStudentToRoster(classItem, email);
+      toast.success(`${student.studentName} added to the roster`);
+      setEmail('');
+    } catch (error) {
+      console.error('Error adding student to roster:', error);
+      toast.error((error as Error).message || 'Failed to add student');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleRemoveStudent = async (row: AttendanceReportRow) => {
+    if (!classItem || !confirm(`Remove ${row.studentName} from the roster?`)) return;
+
+    try {
+      await removeStudentFromRoster(classItem.id, row.studentId);
+    } catch (error) {
+      console.error('Error removing student from roster:', error);
+      toast.error('Failed to remove student');
+    }
+  };
+
+  const handleGraceChange = async (value: string) => {
+    const minutes = Number(value);
+    if (!classItem || !Number.isInteger(minutes) || minutes < 0 || minutes === grace) return;
+
+    try {
+      await updateDoc(doc(db, 'classes', classItem.id), { lateGraceMinutes: minutes });
+    } catch (error) {
+      console.error('Error updating late grace period:', error);
+      toast.error('Failed to update grace period');
+    }
+  };
+
+  return (
+    <Dialog open={!!classItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Attendance for {classItem?.title}</DialogTitle>
+          <DialogDescription>
+            Scheduled {classItem && format(classItem.scheduledAt, 'PPP p')} · joins more than {grace} minute
+            {grace === 1 ? '' : 's'} after the start count as late
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="flex gap-2">
+            <Badge variant="outline" className={STATUS_STYLES.present}>{counts.present} present</Badge>
+            <Badge variant="outline" className={STATUS_STYLES.late}>{counts.late} late</Badge>
+            <Badge variant="outline" className={STATUS_STYLES.absent}>{counts.absent} absent</Badge>
+          </div>
+          <div className="flex items-center gap-2 ml-auto">
+            <Label htmlFor="lateGrace" className="text-sm text-slate-600">Grace (min)</Label>
+            <Input
+              key={grace}
+              id="lateGrace"
+              type="number"
+              min={0}
+              defaultValue={grace}
+              onBlur={(e) => handleGraceChange(e.target.value)}
+              className="w-20"
+            />
+          </div>
+        </div>
+
+        <form onSubmit={handleAddStudent} className="flex gap-2">
+          <Input
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Add a student to the roster by email"
+          />
+          <Button type="submit" variant="outline" disabled={adding || !email.trim()}>
+            <UserPlus className="w-4 h-4 mr-2" />
+            {adding ? 'Adding...' : 'Add'}
+          </Button>
+        </form>
+
+        <div className="border rounded-lg max-h-96 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-slate-500 text-center py-8">Loading attendance...</p>
+          ) : rows.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">
+              No students have joined and the roster is empty
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-600 text-left">
+                <tr>
+                  <th className="p-3 font-medium">Student</th>
+                  <th className="p-3 font-medium">Status</th>
+                  <th className="p-3 font-medium">Joined</th>
+                  <th className="p-3 font-medium">Left</th>
+                  <th className="p-3 font-medium text-right">Minutes</th>
+                  <th className="p-3 font-medium text-right">Sessions</th>
+                  <th className="p-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.studentId} className="border-t">
+                    <td className="p-3">
+                      <p className="font-medium text-slate-900">{row.studentName}</p>
+                      {row.studentEmail && <p className="text-xs text-slate-500">{row.studentEmail}</p>}
+                    </td>
+                    <td className="p-3">
+                      <Badge variant="outline" className={STATUS_STYLES[row.status]}>
+                        {row.status === 'late' ? `Late ${row.minutesLate}m` : row.status.charAt(0).toUpperCase() + row.status.slice(1)}
+                      </Badge>
+                    </td>
+                    <td className="p-3 text-slate-600">{row.firstJoinedAt ? format(row.firstJoinedAt, 'h:mm a') : '—'}</td>
+                    <td className="p-3 text-slate-600">
+                      {row.isOnline ? (
+                        <span className="flex items-center gap-1 text-green-700">
+                          <Wifi className="w-3 h-3" />
+                          In class
+                        </span>
+                      ) : row.lastLeftAt ? format(row.lastLeftAt, 'h:mm a') : '—'}
+                    </td>
+                    <td className="p-3 text-right text-slate-900">{row.totalMinutes}</td>
+                    <td className="p-3 text-right text-slate-600">{row.sessionCount}</td>
+                    <td className="p-3 text-right">
+                      {classItem?.students?.includes(row.studentId) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRemoveStudent(row)}
+                          title="Remove from roster"
+                        >
+                          <UserMinus className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { QuizQuestionEditor } from '@/components/classroom/QuizQuestionEditor';
+import { parseTags, saveBankQuestion } from '@/lib/questionBank';
+import { createEmptyQuestion, isQuestionComplete } from '@/lib/quiz';
+import { BankQuestion, QuizQuestion } from '@/types';
+import { Library } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface BankQuestionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  teacherId: string;
+  // Question being edited, or null to author a new one
+  bankQuestion: BankQuestion | null;
+}
+
+export function BankQuestionDialog({ open, onOpenChange, teacherId, bankQuestion }: BankQuestionDialogProps) {
+  const [question, setQuestion] = useState<QuizQuestion>(createEmptyQuestion());
+  const [tagsInput, setTagsInput] = useState('');
+  const [topic, setTopic] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setQuestion(bankQuestion ? bankQuestion.question : createEmptyQuestion());
+    setTagsInput(bankQuestion ? bankQuestion.tags.join(', ') : '');
+    setTopic(bankQuestion?.topic || '');
+  }, [open, bankQuestion]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isQuestionComplete(question) || saving) return;
+
+    setSaving(true);
+    try {
+      await saveBankQuestion(teacherId, { question, tags: parseTags(tagsInput), topic }, bankQuestion?.id);
+      toast.success(bankQuestion ? 'Question updated' : 'Question added to bank');
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving bank question:', error);
+      toast.error('Failed to save question');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            <Library className="w-6 h-6 text-blue-400" />
+            {bankQuestion ? 'Edit Question' : 'New Bank Question'}
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Saved questions can be launched as a quiz from any of your live classes
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="bankTopic" className="text-sm font-medium text-gray-300">Topic</Label>
+              <Input
+                id="bankTopic"
+                value={topic}
+                onChange={(e) => setTopic(e.target.value)}
+                placeholder="e.g. Algebra"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bankTags" className="text-sm font-medium text-gray-300">Tags</Label>
+              <Input
+                id="bankTags"
+                value={tagsInput}
+                onChange={(e) => setTagsInput(e.target.value)}
+                placeholder="Comma separated, e.g. week 3, warm-up"
+                className="bg-gray-700 border-gray-600 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-4 p-4 rounded-xl border border-gray-600 bg-gray-700/40">
+            <QuizQuestionEditor question={question} onChange={setQuestion} />
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="flex-1 bg-blue-600 hover:bg-blue-700"
+              disabled={!isQuestionComplete(question) || saving}
+            >
+              {saving ? 'Saving...' : 'Save Question'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
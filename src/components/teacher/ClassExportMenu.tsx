@@ -0,0 +1,85 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import {
+  ATTENDANCE_COLUMNS,
+  exportRows,
+  ExportFormat,
+  fetchClassQuizResponses,
+  QUIZ_RESULT_COLUMNS,
+  toAttendanceRows,
+  toQuizResultRows
+} from '@/lib/classExport';
+import { Class, StudentAttendance } from '@/types';
+import { Download } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface ClassExportMenuProps {
+  classItem: Class;
+  attendance: StudentAttendance[];
+}
+
+export function ClassExportMenu({ classItem, attendance }: ClassExportMenuProps) {
+  const [exporting, setExporting] = useState(false);
+
+  const handleExportResults = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      const responses = await fetchClassQuizResponses(classItem.id);
+      if (responses.length === 0) {
+        toast.info('No quiz results to export for this class');
+        return;
+      }
+      await exportRows(toQuizResultRows(classItem, responses), QUIZ_RESULT_COLUMNS, format, `${classItem.title} quiz results`);
+    } catch (error) {
+      console.error('Error exporting quiz results:', error);
+      toast.error('Failed to export quiz results');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleExportAttendance = async (format: ExportFormat) => {
+    if (attendance.length === 0) {
+      toast.info('No attendance to export for this class');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      await exportRows(toAttendanceRows(classItem, attendance), ATTENDANCE_COLUMNS, format, `${classItem.title} attendance`);
+    } catch (error) {
+      console.error('Error exporting attendance:', error);
+      toast.error('Failed to export attendance');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={exporting} className="flex items-center gap-2">
+          <Download className="w-4 h-4" />
+          {exporting ? 'Exporting...' : 'Export'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Quiz results</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExportResults('csv')}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExportResults('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Attendance</DropdownMenuLabel>
+        <DropdownMenuItem onClick={() => handleExportAttendance('csv')}>CSV</DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExportAttendance('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState, useRef } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { BankQuestionDialog } from '@/components/teacher/BankQuestionDialog';
+import { useQuestionBank } from '@/hooks/use-question-bank';
+import { deleteBankQuestion, filterBankQuestions, importBankQuestions } from '@/lib/questionBank';
+import { parseQuizFile, QUIZ_IMPORT_ACCEPT } from '@/lib/quizImport';
+import { getCorrectText, QUESTION_TYPE_LABELS } from '@/lib/quiz';
+import { BankQuestion } from '@/types';
+import { FileUp, History, Library, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface QuestionBankSectionProps {
+  teacherId: string;
+}
+
+export function QuestionBankSection({ teacherId }: QuestionBankSectionProps) {
+  const { questions, tags, topics, loading } = useQuestionBank(teacherId);
+  const [search, setSearch] = useState('');
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [topicFilter, setTopicFilter] = useState<string | null>(null);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const filtered = filterBankQuestions(questions, search, tagFilter, topicFilter);
+
+  const openEditor = (bankQuestion: BankQuestion | null) => {
+    setEditing(bankQuestion);
+    setShowEditor(true);
+  };
+
+  // Imported questions are filed under a topic named after the file or quiz title
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const imported = await parseQuizFile(file);
+      if (imported.questions.length === 0) {
+        toast.error('No usable questions found in the file');
+        return;
+      }
+
+      await importBankQuestions(teacherId, imported.questions, imported.title);
+      toast.success(`Added ${imported.questions.length} question${imported.questions.length === 1 ? '' : 's'} to your bank`, {
+        description: imported.warnings.length > 0
+          ? `${imported.warnings.length} skipped: ${imported.warnings.slice(0, 3).join('; ')}`
+          : undefined
+      });
+    } catch (error) {
+      console.error('Error importing questions:', error);
+      toast.error((error as Error).message || 'Failed to import questions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (bankQuestion: BankQuestion) => {
+    if (!confirm('Delete this question from your bank?')) return;
+
+    try {
+      await deleteBankQuestion(bankQuestion.id);
+      toast.success('Question deleted');
+    } catch (error) {
+      console.error('Error deleting bank question:', error);
+      toast.error('Failed to delete question');
+    }
+  };
+
+  return (
+    <Card className="shadow-lg border-slate-200 mt-8">
+      <CardHeader className="pb-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <CardTitle className="text-2xl text-slate-900 flex items-center gap-2">
+              <Library className="w-6 h-6 text-blue-600" />
+              Question Bank
+            </CardTitle>
+            <CardDescription>
+              Author questions ahead of time and launch them as a quiz from any live class
+            </CardDescription>
+          </div>
+          <div className="mt-4 sm:mt-0 flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importing}
+              title="Import questions from CSV, JSON or Moodle GIFT"
+            >
+              <FileUp className="w-4 h-4 mr-2" />
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept={QUIZ_IMPORT_ACCEPT}
+              onChange={handleImportFile}
+              className="hidden"
+            />
+            <Button onClick={() => openEditor(null)} className="bg-blue-600 hover:bg-blue-700 shadow-md">
+              <Plus className="w-4 h-4 mr-2" />
+              New Question
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="relative">
+          <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search questions, tags or topics"
+            className="pl-9"
+          />
+        </div>
+
+        {(topics.length > 0 || tags.length > 0) && (
+          <div className="flex flex-wrap gap-2">
+            {topics.map(topic => (
+              <Badge
+                key={`topic-${topic}`}
+                variant={topicFilter === topic ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => setTopicFilter(topicFilter === topic ? null : topic)}
+              >
+                {topic}
+              </Badge>
+            ))}
+            {tags.map(tag => (
+              <Badge
+                key={`tag-${tag}`}
+                variant={tagFilter === tag ? 'default' : 'secondary'}
+                className="cursor-pointer"
+                onClick={() => setTagFilter(tagFilter === tag ? null : tag)}
+              >
+                #{tag}
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <p className="text-sm text-slate-500 text-center py-8">Loading question bank...</p>
+        ) : filtered.length === 0 ? (
+          <div className="text-center py-8 text-slate-500">
+            <Library className="w-10 h-10 mx-auto mb-2 text-slate-300" />
+            <p className="text-sm">
+              {questions.length === 0 ? 'Your question bank is empty' : 'No questions match your filters'}
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {filtered.map(bankQuestion => (
+              <div key={bankQuestion.id} className="p-4 rounded-lg border bg-slate-50">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0 flex-1">
+                    <p className="font-medium text-slate-900">{bankQuestion.question.prompt}</p>
+                    <p className="text-xs text-slate-600 mt-1">
+                      {QUESTION_TYPE_LABELS[bankQuestion.question.type]} · {bankQuestion.question.points} pt
+                      {bankQuestion.question.points === 1 ? '' : 's'} · Answer: {getCorrectText(bankQuestion.question)}
+                    </p>
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {bankQuestion.topic && <Badge variant="outline">{bankQuestion.topic}</Badge>}
+                      {bankQuestion.tags.map(tag => (
+                        <Badge key={tag} variant="secondary">#{tag}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setHistoryFor(historyFor === bankQuestion.id ? null : bankQuestion.id)}
+                      title="Usage history"
+                    >
+                      <History className="w-4 h-4 mr-1" />
+                      {bankQuestion.usageCount}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(bankQuestion)}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(bankQuestion)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                {historyFor === bankQuestion.id && (
+                  <div className="mt-3 pt-3 border-t">
+                    {bankQuestion.usageHistory.length === 0 ? (
+                      <p className="text-xs text-slate-500">Not used in a quiz yet</p>
+                    ) : (
+                      <ul className="space-y-1">
+                        {[...bankQuestion.usageHistory]
+                          .sort((a, b) => b.usedAt.getTime() - a.usedAt.getTime())
+                          .map(usage => (
+                            <li key={`${usage.quizId}-${usage.usedAt.getTime()}`} className="flex justify-between text-xs text-slate-600">
+                              <span>{usage.classTitle}</span>
+                              <span>{format(usage.usedAt, 'PPP p')}</span>
+                            </li>
+                          ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <BankQuestionDialog
+        open={showEditor}
+        onOpenChange={setShowEditor}
+        teacherId={teacherId}
+        bankQuestion={editing}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { collection, query, where, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { deleteSlideDeck, groupSlidesIntoDecks, isSupportedSlideFile, slideFromDoc, uploadSlideDeck } from '@/lib/slides';
+import { Class, Slide } from '@/types';
+import { FileText, Image, Trash2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface SlideDeckDialogProps {
+  classItem: Class | null;
+  teacherId: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SlideDeckDialog({ classItem, teacherId, onOpenChange }: SlideDeckDialogProps) {
+  const [slides, setSlides] = useState<Slide[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [deckName, setDeckName] = useState('');
+  const [uploading, setUploading] = useState(false);
+
+  const classId = classItem?.id;
+
+  useEffect(() => {
+    if (!classId) return;
+
+    const slidesQuery = query(
+      collection(db, 'slides'),
+      where('classId', '==', classId)
+    );
+
+    const unsubscribe = onSnapshot(slidesQuery, (snapshot) => {
+      setSlides(snapshot.docs.map(slideDoc => slideFromDoc(slideDoc.id, slideDoc.data())));
+    }, (error) => {
+      console.error('Error fetching slides:', error);
+    });
+
+    return () => unsubscribe();
+  }, [classId]);
+
+  const decks = useMemo(() => groupSlidesIntoDecks(slides), [slides]);
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    const unsupported = selected.filter(file => !isSupportedSlideFile(file));
+    if (unsupported.length > 0) {
+      toast.error('Only PDF and image files are supported');
+    }
+    setFiles(selected.filter(isSupportedSlideFile));
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!classId || files.length === 0) return;
+
+    setUploading(true);
+    try {
+      await uploadSlideDeck(classId, teacherId, files, deckName);
+      toast.success('Slides uploaded successfully!');
+      setFiles([]);
+      setDeckName('');
+    } catch (error) {
+      console.error('Error uploading slides:', error);
+      toast.error((error as Error).message || 'Failed to upload slides');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDeleteDeck = async (deckId: string) => {
+    if (!classId || !confirm('Are you sure you want to delete this slide deck?')) return;
+
+    try {
+      await deleteSlideDeck(classId, deckId);
+      toast.success('Slide deck deleted');
+    } catch (error) {
+      console.error('Error deleting slide deck:', error);
+      toast.error('Failed to delete slide deck');
+    }
+  };
+
+  return (
+    <Dialog open={!!classItem} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Slides for {classItem?.title}</DialogTitle>
+          <DialogDescription>
+            Upload a PDF or a set of images to present inside the classroom
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleUpload} className="space-y-4 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="deckName">Deck Name</Label>
+            <Input
+              id="deckName"
+              value={deckName}
+              onChange={(e) => setDeckName(e.target.value)}
+              placeholder="Defaults to the file name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="slideFiles">Files *</Label>
+            <Input
+              id="slideFiles"
+              type="file"
+              accept="application/pdf,image/*"
+              multiple
+              onChange={handleFilesSelected}
+            />
+            {files.length > 0 && (
+              <p className="text-xs text-slate-600">
+                {files.length} file{files.length === 1 ? '' : 's'} selected
+              </p>
+            )}
+          </div>
+          <Button
+            type="submit"
+            className="w-full bg-blue-600 hover:bg-blue-700"
+            disabled={uploading || files.length === 0}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {uploading ? 'Uploading...' : 'Upload Slides'}
+          </Button>
+        </form>
+
+        <div className="border-t pt-4">
+          <h4 className="font-semibold text-slate-900 mb-3">Uploaded Decks ({decks.length})</h4>
+          {decks.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-4">No slides uploaded yet</p>
+          ) : (
+            <div className="grid gap-2 max-h-60 overflow-y-auto">
+              {decks.map(deck => (
+                <div key={deck.deckId} className="flex items-center justify-between p-3 bg-slate-50 rounded-lg border">
+                  <div className="flex items-center gap-3 min-w-0">
+                    {deck.kind === 'pdf' ? (
+                      <FileText className="w-5 h-5 text-red-600 flex-shrink-0" />
+                    ) : (
+                      <Image className="w-5 h-5 text-blue-600 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-900 truncate">{deck.deckName}</p>
+                      <p className="text-xs text-slate-600">
+                        Uploaded {format(deck.uploadedAt, 'PPP p')}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-xs">
+                      {deck.kind === 'pdf' ? 'PDF' : `${deck.slides.length} images`}
+                    </Badge>
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteDeck(deck.deckId)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+import { useState, useEffect, useRef } from 'react';
+import { ActiveSpeakerDetector } from '@/lib/speakerDetection';
+
+// Who is talking among these streams (keyed by user id, the local one included). The stage speaker is the
+// latest remote active speaker, for speaker view: your own voice should not enlarge someone else's tile away.
+export function useActiveSpeaker(streams: Map<string, MediaStream>, localUserId: string | undefined) {
+  const detector = useRef<ActiveSpeakerDetector | null>(null);
+  const [speakingIds, setSpeakingIds] = useState<Set<string>>(new Set());
+  const [activeSpeakerId, setActiveSpeakerId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const instance = new ActiveSpeakerDetector();
+    detector.current = instance;
+    instance.on('speaking-changed', ({ speakingIds }) => setSpeakingIds(speakingIds));
+    instance.on('active-speaker-changed', ({ speakerId }) => setActiveSpeakerId(speakerId));
+
+    return () => {
+      detector.current = null;
+      instance.dispose();
+    };
+  }, []);
+
+  useEffect(() => {
+    detector.current?.setStreams(streams);
+  }, [streams]);
+
+  const [stageSpeakerId, setStageSpeakerId] = useState<string | null>(null);
+  useEffect(() => {
+    if (activeSpeakerId && activeSpeakerId !== localUserId) setStageSpeakerId(activeSpeakerId);
+  }, [activeSpeakerId, localUserId]);
+
+  return {
+    speakingIds,
+    activeSpeakerId,
+    stageSpeakerId: stageSpeakerId && streams.has(stageSpeakerId) ? stageSpeakerId : null
+  };
+}
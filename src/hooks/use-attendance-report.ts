@@ -0,0 +1,67 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  ATTENDANCE_HEARTBEAT_MS,
+  buildAttendanceReport,
+  fetchRoster,
+  RosterStudent,
+  subscribeToClassAttendance
+} from '@/lib/attendance';
+import { Class, StudentAttendance } from '@/types';
+
+// Live attendance report for one class; recomputed on every heartbeat while the class is running
+export function useAttendanceReport(classItem: Class | null, enabled = true) {
+  const [records, setRecords] = useState<StudentAttendance[]>([]);
+  const [roster, setRoster] = useState<RosterStudent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => Date.now());
+
+  const classId = classItem?.id;
+  const isLive = classItem?.status === 'live';
+  const rosterKey = (classItem?.students || []).join(',');
+
+  useEffect(() => {
+    if (!classId || !enabled) return;
+
+    setLoading(true);
+    const unsubscribe = subscribeToClassAttendance(classId, (sessions) => {
+      setRecords(sessions);
+      setNow(Date.now());
+      setLoading(false);
+    }, (error) => {
+      console.error('Error listening to attendance:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [classId, enabled]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const studentIds = rosterKey ? rosterKey.split(',') : [];
+    let cancelled = false;
+    fetchRoster(studentIds)
+      .then(students => {
+        if (!cancelled) setRoster(students);
+      })
+      .catch(error => console.error('Error loading class roster:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [rosterKey, enabled]);
+
+  useEffect(() => {
+    if (!isLive || !enabled) return;
+
+    const interval = setInterval(() => setNow(Date.now()), ATTENDANCE_HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [isLive, enabled]);
+
+  const rows = useMemo(
+    () => (classItem ? buildAttendanceReport(classItem, records, roster, now) : []),
+    [classItem, records, roster, now]
+  );
+
+  return { rows, roster, loading };
+}
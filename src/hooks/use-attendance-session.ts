@@ -0,0 +1,81 @@
+import { useEffect, useRef } from 'react';
+import {
+  ATTENDANCE_HEARTBEAT_MS,
+  clearTabSessionId,
+  endAttendanceSession,
+  getTabSessionId,
+  rotateTabSessionId,
+  startAttendanceSession,
+  touchAttendanceSession
+} from '@/lib/attendance';
+import { Class, User } from '@/types';
+
+// Tracks a student's time in the room as attendance sessions: one is opened on entry and on every
+// reconnect, kept alive with a heartbeat, and closed on leave, tab close or loss of connection.
+export function useAttendanceSession(classItem: Class | null, student: User | null, enabled: boolean) {
+  // Class snapshots (mutes, status) must not restart the session, so the effect reads the latest values
+  const latest = useRef({ classItem, student });
+  latest.current = { classItem, student };
+  const classId = classItem?.id;
+  const studentId = student?.uid;
+
+  useEffect(() => {
+    if (!classId || !studentId || !enabled) return;
+
+    let attendanceId: string | null = null;
+    let opening: Promise<void> | null = null;
+    let disposed = false;
+
+    const open = (tabSessionId: string) => {
+      const { classItem, student } = latest.current;
+      if (attendanceId || opening || !classItem || !student) return;
+      opening = startAttendanceSession(classItem, student, tabSessionId)
+        .then(id => {
+          attendanceId = id;
+          // The component may have unmounted while the session was being created
+          if (disposed) close();
+        })
+        .catch(error => console.error('Error starting attendance session:', error))
+        .finally(() => {
+          opening = null;
+        });
+    };
+
+    const close = () => {
+      if (!attendanceId) return;
+      const closingId = attendanceId;
+      attendanceId = null;
+      endAttendanceSession(closingId).catch(error => console.error('Error ending attendance session:', error));
+    };
+
+    const heartbeat = setInterval(() => {
+      if (attendanceId && navigator.onLine) {
+        touchAttendanceSession(attendanceId).catch(error => console.error('Error updating attendance session:', error));
+      }
+    }, ATTENDANCE_HEARTBEAT_MS);
+
+    // pagehide fires on tab close and navigation away; pageshow brings back pages restored from the bfcache
+    const handlePageShow = (e: PageTransitionEvent) => {
+      if (e.persisted) open(rotateTabSessionId(classId));
+    };
+    const handleOnline = () => open(rotateTabSessionId(classId));
+
+    window.addEventListener('pagehide', close);
+    window.addEventListener('pageshow', handlePageShow);
+    window.addEventListener('offline', close);
+    window.addEventListener('online', handleOnline);
+
+    open(getTabSessionId(classId));
+
+    return () => {
+      disposed = true;
+      clearInterval(heartbeat);
+      window.removeEventListener('pagehide', close);
+      window.removeEventListener('pageshow', handlePageShow);
+      window.removeEventListener('offline', close);
+      window.removeEventListener('online', handleOnline);
+      close();
+      clearTabSessionId(classId);
+    };
+  }, [classId, studentId, enabled]);
+}
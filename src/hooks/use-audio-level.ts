@@ -0,0 +1,28 @@
+import { useState, useEffect } from 'react';
+import { createAudioLevelMeter } from '@/lib/audioLevel';
+
+const LEVEL_INTERVAL_MS = 100;
+
+// Input level of an audio track from 0 to 1, for a microphone meter
+export function useAudioLevel(track: MediaStreamTrack | null) {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => {
+    if (!track) {
+      setLevel(0);
+      return;
+    }
+
+    const context = new AudioContext();
+    const meter = createAudioLevelMeter(context, track);
+    const interval = setInterval(() => setLevel(meter.read()), LEVEL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      meter.close();
+      context.close();
+    };
+  }, [track]);
+
+  return level;
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  onSnapshot,
+  orderBy,
+  limitToLast,
+  updateDoc,
+  doc,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { ChatMessage, Class, User } from '@/types';
+import { toast } from 'sonner';
+
+const CHAT_HISTORY_LIMIT = 200;
+const MAX_MESSAGE_LENGTH = 1000;
+
+// Keeps the chat stream of a class in sync and tracks unread messages while the chat tab is hidden
+export function useClassChat(classData: Class | null, currentUser: User | null, isOpen: boolean) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [lastReadAt, setLastReadAt] = useState<Date>(() => new Date());
+
+  const classId = classData?.id;
+  const isTeacher = !!classData && classData.teacherId === currentUser?.uid;
+  const isMuted = !isTeacher && !!currentUser && (classData?.chatMutedUserIds || []).includes(currentUser.uid);
+
+  useEffect(() => {
+    if (!classId) return;
+
+    console.log('Setting up chat listener for class:', classId);
+
+    const chatQuery = query(
+      collection(db, 'chatMessages'),
+      where('classId', '==', classId),
+      orderBy('createdAt', 'asc'),
+      limitToLast(CHAT_HISTORY_LIMIT)
+    );
+
+    const unsubscribeChat = onSnapshot(chatQuery, (snapshot) => {
+      const chatData: ChatMessage[] = [];
+      snapshot.forEach((doc) => {
+        // Pending writes have no server timestamp yet, so use the local estimate
+        const data = doc.data({ serverTimestamps: 'estimate' });
+        chatData.push({
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date()
+        } as ChatMessage);
+      });
+      setMessages(chatData);
+    }, (error) => {
+      console.error('Error listening to chat messages:', error);
+    });
+
+    return () => unsubscribeChat();
+  }, [classId]);
+
+  // Everything that arrives while the chat is open counts as read
+  useEffect(() => {
+    if (isOpen) {
+      setLastReadAt(new Date());
+    }
+  }, [isOpen, messages]);
+
+  const unreadCount = isOpen ? 0 : messages.filter(message =>
+    message.senderId !== currentUser?.uid &&
+    !message.deleted &&
+    message.createdAt > lastReadAt
+  ).length;
+
+  const sendMessage = useCallback(async (text: string): Promise<boolean> => {
+    const trimmed = text.trim();
+    if (!classId || !currentUser || !trimmed) return false;
+
+    if (isMuted) {
+      toast.error('The teacher has muted you in chat');
+      return false;
+    }
+
+    try {
+      await addDoc(collection(db, 'chatMessages'), {
+        classId,
+        senderId: currentUser.uid,
+        senderName: currentUser.displayName || currentUser.email || 'User',
+        senderRole: isTeacher ? 'teacher' : 'student',
+        text: trimmed.slice(0, MAX_MESSAGE_LENGTH),
+        createdAt: serverTimestamp(),
+        deleted: false
+      });
+      return true;
+    } catch (error) {
+      console.error('Error sending chat message:', error);
+      toast.error('Failed to send message');
+      return false;
+    }
+  }, [classId, currentUser, isMuted, isTeacher]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    if (!isTeacher || !currentUser) return;
+
+    try {
+      await updateDoc(doc(db, 'chatMessages', messageId), {
+        deleted: true,
+        deletedBy: currentUser.uid,
+        text: ''
+      });
+    } catch (error) {
+      console.error('Error deleting chat message:', error);
+      toast.error('Failed to delete message');
+    }
+  }, [isTeacher, currentUser]);
+
+  const setUserMuted = useCallback(async (userId: string, muted: boolean) => {
+    if (!isTeacher || !classId) return;
+
+    try {
+      await updateDoc(doc(db, 'classes', classId), {
+        chatMutedUserIds: muted ? arrayUnion(userId) : arrayRemove(userId)
+      });
+      toast.success(muted ? 'User muted in chat' : 'User unmuted in chat');
+    } catch (error) {
+      console.error('Error updating chat mute:', error);
+      toast.error('Failed to update chat permissions');
+    }
+  }, [isTeacher, classId]);
+
+  return {
+    messages,
+    unreadCount,
+    isMuted,
+    mutedUserIds: classData?.chatMutedUserIds || [],
+    sendMessage,
+    deleteMessage,
+    setUserMuted
+  };
+}
@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  onSnapshot,
+  orderBy,
+  doc,
+  writeBatch,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Class, DirectMessage, User } from '@/types';
+import { toast } from 'sonner';
+
+// One private thread per teacher/student pair within a class
+export function getDirectThreadId(classId: string, teacherId: string, studentId: string): string {
+  return `${classId}_${teacherId}_${studentId}`;
+}
+
+// Private teacher <-> student messaging for a class. Threads are keyed by the other participant's uid.
+export function useDirectMessages(classData: Class | null, currentUser: User | null, openCounterpartId: string | null) {
+  const [messages, setMessages] = useState<DirectMessage[]>([]);
+
+  const classId = classData?.id;
+  const teacherId = classData?.teacherId;
+  const isTeacher = !!teacherId && teacherId === currentUser?.uid;
+  const userId = currentUser?.uid;
+
+  useEffect(() => {
+    if (!classId || !userId) return;
+
+    const messagesQuery = query(
+      collection(db, 'directMessages'),
+      where('classId', '==', classId),
+      where(isTeacher ? 'teacherId' : 'studentId', '==', userId),
+      orderBy('createdAt', 'asc')
+    );
+
+    const unsubscribeMessages = onSnapshot(messagesQuery, (snapshot) => {
+      const messagesData: DirectMessage[] = [];
+      snapshot.forEach((doc) => {
+        const data = doc.data({ serverTimestamps: 'estimate' });
+        messagesData.push({
+          id: doc.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date(),
+          deliveredAt: data.deliveredAt?.toDate(),
+          readAt: data.readAt?.toDate()
+        } as DirectMessage);
+      });
+      setMessages(messagesData);
+    }, (error) => {
+      console.error('Error listening to direct messages:', error);
+    });
+
+    return () => unsubscribeMessages();
+  }, [classId, userId, isTeacher]);
+
+  // Acknowledge delivery of everything we received, and reading of the open thread
+  useEffect(() => {
+    if (!userId) return;
+
+    const pending = messages.filter(message =>
+      message.senderId !== userId &&
+      (!message.deliveredAt || (!message.readAt && getCounterpartId(message, isTeacher) === openCounterpartId))
+    );
+    if (pending.length === 0) return;
+
+    const batch = writeBatch(db);
+    pending.forEach(message => {
+      const isOpen = getCounterpartId(message, isTeacher) === openCounterpartId;
+      batch.update(doc(db, 'directMessages', message.id), {
+        ...(message.deliveredAt ? {} : { deliveredAt: serverTimestamp() }),
+        ...(isOpen && !message.readAt ? { readAt: serverTimestamp() } : {})
+      });
+    });
+    batch.commit().catch(error => {
+      console.error('Error updating direct message receipts:', error);
+    });
+  }, [messages, userId, isTeacher, openCounterpartId]);
+
+  const threads = useMemo(() => {
+    const byCounterpart = new Map<string, DirectMessage[]>();
+    messages.forEach(message => {
+      const counterpartId = getCounterpartId(message, isTeacher);
+      byCounterpart.set(counterpartId, [...(byCounterpart.get(counterpartId) || []), message]);
+    });
+    return byCounterpart;
+  }, [messages, isTeacher]);
+
+  const getUnreadCount = useCallback((counterpartId: string) => {
+    if (counterpartId === openCounterpartId) return 0;
+    return (threads.get(counterpartId) || []).filter(message =>
+      message.senderId !== userId && !message.readAt
+    ).length;
+  }, [threads, userId, openCounterpartId]);
+
+  const totalUnread = messages.filter(message =>
+    message.senderId !== userId &&
+    !message.readAt &&
+    getCounterpartId(message, isTeacher) !== openCounterpartId
+  ).length;
+
+  const sendDirectMessage = useCallback(async (counterpartId: string, text: string): Promise<boolean> => {
+    const trimmed = text.trim();
+    if (!classId || !teacherId || !currentUser || !trimmed) return false;
+
+    const studentId = isTeacher ? counterpartId : currentUser.uid;
+
+    try {
+      await addDoc(collection(db, 'directMessages'), {
+        classId,
+        threadId: getDirectThreadId(classId, teacherId, studentId),
+        teacherId,
+        studentId,
+        senderId: currentUser.uid,
+        senderName: currentUser.displayName || currentUser.email || 'User',
+        text: trimmed.slice(0, 1000),
+        createdAt: serverTimestamp()
+      });
+      return true;
+    } catch (error) {
+      console.error('Error sending direct message:', error);
+      toast.error('Failed to send private message');
+      return false;
+    }
+  }, [classId, teacherId, currentUser, isTeacher]);
+
+  return {
+    threads,
+    totalUnread,
+    getUnreadCount,
+    sendDirectMessage
+  };
+}
+
+function getCounterpartId(message: DirectMessage, isTeacher: boolean): string {
+  return isTeacher ? message.studentId : message.teacherId;
+}
@@ -0,0 +1,26 @@
+import { useState, useEffect, useCallback } from 'react';
+import { listMediaDevices, MediaDeviceLists } from '@/lib/mediaDevices';
+
+const NO_DEVICES: MediaDeviceLists = { audioInputs: [], videoInputs: [], audioOutputs: [] };
+
+// Cameras, microphones and speakers, kept current as devices are plugged in and out
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceLists>(NO_DEVICES);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      setDevices(await listMediaDevices());
+    } catch (error) {
+      console.error('Error listing media devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback } from 'react';
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  onSnapshot,
+  orderBy,
+  limit,
+  updateDoc,
+  doc,
+  arrayUnion,
+  arrayRemove,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Class, ModerationAction, ModerationLogEntry, User } from '@/types';
+import { toast } from 'sonner';
+
+const MODERATION_LOG_LIMIT = 50;
+
+const ACTION_TOASTS: Record<ModerationAction, string> = {
+  mute: 'Student muted',
+  'request-unmute': 'Asked student to unmute',
+  'disable-camera': "Student's camera turned off",
+  remove: 'Student removed from class',
+  ban: 'Student banned from class'
+};
+
+// Teacher moderation of student media. Commands travel to the student over the signaling channel (see
+// sendCommand) and are carried out by the student's classroom; bans are also kept on the class document so
+// they outlast the session. Every action is recorded in the moderationLog collection.
+export function useModeration(
+  classData: Class | null,
+  currentUser: User | null,
+  sendCommand: (userId: string, action: ModerationAction) => boolean
+) {
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+
+  const classId = classData?.id;
+  const isTeacher = !!classData && classData.teacherId === currentUser?.uid;
+  const bannedUserIds = classData?.bannedUserIds || [];
+  const isBanned = !isTeacher && !!currentUser && bannedUserIds.includes(currentUser.uid);
+
+  useEffect(() => {
+    if (!classId || !isTeacher) return;
+
+    const logQuery = query(
+      collection(db, 'moderationLog'),
+      where('classId', '==', classId),
+      orderBy('createdAt', 'desc'),
+      limit(MODERATION_LOG_LIMIT)
+    );
+
+    const unsubscribeLog = onSnapshot(logQuery, (snapshot) => {
+      setLog(snapshot.docs.map(entry => {
+        const data = entry.data({ serverTimestamps: 'estimate' });
+        return {
+          id: entry.id,
+          ...data,
+          createdAt: data.createdAt?.toDate() || new Date()
+        } as ModerationLogEntry;
+      }));
+    }, (error) => {
+      console.error('Error listening to moderation log:', error);
+    });
+
+    return () => unsubscribeLog();
+  }, [classId, isTeacher]);
+
+  const record = useCallback(async (entry: Pick<ModerationLogEntry, 'action' | 'targetUserId' | 'targetName'>) => {
+    if (!classId || !currentUser) return;
+
+    try {
+      await addDoc(collection(db, 'moderationLog'), {
+        ...entry,
+        classId,
+        actorId: currentUser.uid,
+        actorName: currentUser.displayName || currentUser.email || 'Teacher',
+        createdAt: serverTimestamp()
+      });
+    } catch (error) {
+      console.error('Error recording moderation action:', error);
+    }
+  }, [classId, currentUser]);
+
+  const moderate = useCallback(async (targetUserId: string, targetName: string, action: ModerationAction) => {
+    if (!isTeacher || !classId) return;
+
+    try {
+      if (action === 'ban') {
+        await updateDoc(doc(db, 'classes', classId), { bannedUserIds: arrayUnion(targetUserId) });
+      }
+      // A banned student who is not connected right now is turned away when they next open the class
+      if (!sendCommand(targetUserId, action) && action !== 'ban') {
+        toast.error('Student is not connected');
+        return;
+      }
+      toast.success(ACTION_TOASTS[action]);
+      await record({ action, targetUserId, targetName });
+    } catch (error) {
+      console.error('Error applying moderation action:', error);
+      toast.error('Failed to apply moderation action');
+    }
+  }, [isTeacher, classId, sendCommand, record]);
+
+  const muteAll = useCallback(async (userIds: string[]) => {
+    if (!isTeacher) return;
+
+    const reached = userIds.filter(userId => sendCommand(userId, 'mute'));
+    toast.success(`Muted ${reached.length} student${reached.length === 1 ? '' : 's'}`);
+    await record({ action: 'mute-all' });
+  }, [isTeacher, sendCommand, record]);
+
+  const unban = useCallback(async (userId: string, name: string) => {
+    if (!isTeacher || !classId) return;
+
+    try {
+      await updateDoc(doc(db, 'classes', classId), { bannedUserIds: arrayRemove(userId) });
+      toast.success('Student can join again');
+      await record({ action: 'unban', targetUserId: userId, targetName: name });
+    } catch (error) {
+      console.error('Error lifting ban:', error);
+      toast.error('Failed to lift ban');
+    }
+  }, [isTeacher, classId, record]);
+
+  return {
+    log,
+    bannedUserIds,
+    isBanned,
+    moderate,
+    muteAll,
+    unban
+  };
+}
@@ -0,0 +1,138 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  doc,
+  setDoc,
+  updateDoc,
+  Timestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { groupSlidesIntoDecks, slideFromDoc } from '@/lib/slides';
+import { PresentationState, Slide, User } from '@/types';
+import { toast } from 'sonner';
+
+// Slide decks of a class plus the teacher-driven presentation state (stored at presentations/{classId})
+export function usePresentation(classId: string | undefined, currentUser: User | null, isTeacher: boolean) {
+  const [slides, setSlides] = useState<Slide[]>([]);
+  const [presentation, setPresentation] = useState<PresentationState | null>(null);
+  const [localPage, setLocalPage] = useState(1);
+  const [followTeacher, setFollowTeacher] = useState(true);
+  const [pageCount, setPageCount] = useState(0);
+
+  useEffect(() => {
+    if (!classId) return;
+
+    const slidesQuery = query(
+      collection(db, 'slides'),
+      where('classId', '==', classId)
+    );
+
+    const unsubscribeSlides = onSnapshot(slidesQuery, (snapshot) => {
+      setSlides(snapshot.docs.map(slideDoc => slideFromDoc(slideDoc.id, slideDoc.data())));
+    }, (error) => {
+      console.error('Error listening to slides:', error);
+    });
+
+    const unsubscribePresentation = onSnapshot(doc(db, 'presentations', classId), (snapshot) => {
+      if (!snapshot.exists()) {
+        setPresentation(null);
+        return;
+      }
+      const data = snapshot.data();
+      setPresentation({
+        ...data,
+        updatedAt: data.updatedAt?.toDate() || new Date()
+      } as PresentationState);
+    }, (error) => {
+      console.error('Error listening to presentation:', error);
+    });
+
+    return () => {
+      unsubscribeSlides();
+      unsubscribePresentation();
+    };
+  }, [classId]);
+
+  const decks = useMemo(() => groupSlidesIntoDecks(slides), [slides]);
+  const isPresenting = !!presentation?.isActive;
+  const activeDeck = isPresenting ? decks.find(deck => deck.deckId === presentation?.deckId) || null : null;
+
+  // Students snap back to the teacher's page whenever free browsing is off
+  useEffect(() => {
+    if (presentation && (!presentation.allowFreeBrowse || followTeacher)) {
+      setLocalPage(presentation.page);
+    }
+  }, [presentation, followTeacher]);
+
+  useEffect(() => {
+    if (presentation && !presentation.allowFreeBrowse) {
+      setFollowTeacher(true);
+    }
+  }, [presentation]);
+
+  const currentPage = isTeacher ? presentation?.page || 1 : localPage;
+
+  const updatePresentation = useCallback(async (changes: Partial<Omit<PresentationState, 'updatedAt'>>) => {
+    if (!classId || !isTeacher) return;
+
+    try {
+      await updateDoc(doc(db, 'presentations', classId), {
+        ...changes,
+        updatedAt: Timestamp.fromDate(new Date())
+      });
+    } catch (error) {
+      console.error('Error updating presentation:', error);
+      toast.error('Failed to update presentation');
+    }
+  }, [classId, isTeacher]);
+
+  const startPresentation = useCallback(async (deckId: string) => {
+    if (!classId || !currentUser || !isTeacher) return;
+
+    try {
+      await setDoc(doc(db, 'presentations', classId), {
+        classId,
+        deckId,
+        page: 1,
+        allowFreeBrowse: presentation?.allowFreeBrowse || false,
+        isActive: true,
+        presenterId: currentUser.uid,
+        updatedAt: Timestamp.fromDate(new Date())
+      });
+      toast.success('Presentation started');
+    } catch (error) {
+      console.error('Error starting presentation:', error);
+      toast.error('Failed to start presentation');
+    }
+  }, [classId, currentUser, isTeacher, presentation?.allowFreeBrowse]);
+
+  const goToPage = useCallback((page: number) => {
+    const clamped = Math.min(Math.max(page, 1), pageCount || 1);
+    if (isTeacher) {
+      updatePresentation({ page: clamped });
+    } else if (presentation?.allowFreeBrowse) {
+      setFollowTeacher(false);
+      setLocalPage(clamped);
+    }
+  }, [isTeacher, pageCount, presentation?.allowFreeBrowse, updatePresentation]);
+
+  return {
+    decks,
+    presentation,
+    activeDeck,
+    isPresenting,
+    currentPage,
+    pageCount,
+    setPageCount,
+    followTeacher,
+    canNavigate: isTeacher || !!presentation?.allowFreeBrowse,
+    syncToTeacher: () => setFollowTeacher(true),
+    startPresentation,
+    stopPresentation: () => updatePresentation({ isActive: false }),
+    setAllowFreeBrowse: (allowFreeBrowse: boolean) => updatePresentation({ allowFreeBrowse }),
+    goToPage
+  };
+}
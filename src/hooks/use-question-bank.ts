@@ -0,0 +1,37 @@
+import { useState, useEffect, useMemo } from 'react';
+import { collection, query, where, onSnapshot } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { bankQuestionFromDoc, getBankTags, getBankTopics } from '@/lib/questionBank';
+import { BankQuestion } from '@/types';
+
+// A teacher's saved questions, most recently edited first
+export function useQuestionBank(teacherId: string | undefined, enabled = true) {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!teacherId || !enabled) return;
+
+    const bankQuery = query(
+      collection(db, 'questionBank'),
+      where('teacherId', '==', teacherId)
+    );
+
+    const unsubscribe = onSnapshot(bankQuery, (snapshot) => {
+      const bankQuestions = snapshot.docs.map(bankDoc => bankQuestionFromDoc(bankDoc.id, bankDoc.data()));
+      bankQuestions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+      setQuestions(bankQuestions);
+      setLoading(false);
+    }, (error) => {
+      console.error('Error listening to question bank:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [teacherId, enabled]);
+
+  const tags = useMemo(() => getBankTags(questions), [questions]);
+  const topics = useMemo(() => getBankTopics(questions), [questions]);
+
+  return { questions, tags, topics, loading };
+}
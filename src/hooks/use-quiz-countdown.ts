@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { getQuizDeadline } from '@/lib/quiz';
+import { serverNow } from '@/lib/serverTime';
+import { Quiz } from '@/types';
+
+// Remaining time of a timed quiz, measured against the server clock
+export function useQuizCountdown(quiz: Quiz | null) {
+  const deadline = quiz ? getQuizDeadline(quiz) : null;
+  const [remainingMs, setRemainingMs] = useState<number | null>(
+    deadline !== null ? Math.max(0, deadline - serverNow()) : null
+  );
+
+  useEffect(() => {
+    if (deadline === null) {
+      setRemainingMs(null);
+      return;
+    }
+
+    const tick = () => setRemainingMs(Math.max(0, deadline - serverNow()));
+    tick();
+    const interval = setInterval(tick, 250);
+
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  return {
+    hasTimeLimit: deadline !== null,
+    remainingMs,
+    isExpired: remainingMs !== null && remainingMs <= 0,
+    totalMs: quiz?.timeLimitSeconds ? quiz.timeLimitSeconds * 1000 : null
+  };
+}
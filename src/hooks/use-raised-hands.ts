@@ -0,0 +1,157 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  collection,
+  query,
+  where,
+  onSnapshot,
+  orderBy,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  doc,
+  writeBatch,
+  serverTimestamp
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Class, RaisedHand, User } from '@/types';
+import { toast } from 'sonner';
+
+function raisedHandId(classId: string, userId: string): string {
+  return `${classId}_${userId}`;
+}
+
+// The raise-hand queue of a class, oldest first. Hands live in Firestore rather than on the connections, so a
+// student who drops and rejoins keeps their hand up and their place in line.
+export function useRaisedHands(classData: Class | null, currentUser: User | null) {
+  const [queue, setQueue] = useState<RaisedHand[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const classId = classData?.id;
+  const userId = currentUser?.uid;
+  const isTeacher = !!classData && classData.teacherId === userId;
+
+  useEffect(() => {
+    if (!classId) return;
+
+    setLoaded(false);
+    const handsQuery = query(
+      collection(db, 'raisedHands'),
+      where('classId', '==', classId),
+      orderBy('raisedAt', 'asc')
+    );
+
+    let hasSnapshot = false;
+    const unsubscribeHands = onSnapshot(handsQuery, (snapshot) => {
+      // Announce hands raised while the teacher is in the room, not the ones already up on arrival
+      if (isTeacher && hasSnapshot) {
+        snapshot.docChanges()
+          .filter(change => change.type === 'added')
+          .forEach(change => toast.info(`${change.doc.data().userName} raised their hand`));
+      }
+      hasSnapshot = true;
+
+      setQueue(snapshot.docs.map(hand => {
+        const data = hand.data({ serverTimestamps: 'estimate' });
+        return {
+          id: hand.id,
+          ...data,
+          raisedAt: data.raisedAt?.toDate() || new Date(),
+          calledOnAt: data.calledOnAt?.toDate()
+        } as RaisedHand;
+      }));
+      setLoaded(true);
+    }, (error) => {
+      console.error('Error listening to raised hands:', error);
+    });
+
+    return () => unsubscribeHands();
+  }, [classId, isTeacher]);
+
+  const myIndex = queue.findIndex(hand => hand.userId === userId);
+  const myHand = myIndex >= 0 ? queue[myIndex] : null;
+
+  // Let the student know when the teacher calls on them. The first snapshot only sets the baseline, so a
+  // call made before a reload or a late join is not announced again.
+  const calledOnAt = myHand?.calledOnAt?.getTime();
+  const previousCalledOnAt = useRef<number | undefined>(undefined);
+  const hasBaseline = useRef(false);
+  useEffect(() => {
+    if (!loaded) {
+      hasBaseline.current = false;
+      return;
+    }
+    if (hasBaseline.current && calledOnAt && calledOnAt !== previousCalledOnAt.current && !isTeacher) {
+      toast.success('The teacher called on you', { description: 'Unmute to speak' });
+    }
+    hasBaseline.current = true;
+    previousCalledOnAt.current = calledOnAt;
+  }, [calledOnAt, isTeacher, loaded]);
+
+  const toggleHand = useCallback(async () => {
+    if (!classId || !currentUser || isTeacher) return;
+
+    const handRef = doc(db, 'raisedHands', raisedHandId(classId, currentUser.uid));
+    try {
+      if (myHand) {
+        await deleteDoc(handRef);
+      } else {
+        await setDoc(handRef, {
+          classId,
+          userId: currentUser.uid,
+          userName: currentUser.displayName || currentUser.email || 'Student',
+          raisedAt: serverTimestamp()
+        });
+      }
+    } catch (error) {
+      console.error('Error updating raised hand:', error);
+      toast.error(myHand ? 'Failed to lower hand' : 'Failed to raise hand');
+    }
+  }, [classId, currentUser, isTeacher, myHand]);
+
+  const callOn = useCallback(async (hand: RaisedHand) => {
+    if (!isTeacher) return;
+
+    try {
+      await updateDoc(doc(db, 'raisedHands', hand.id), { calledOnAt: serverTimestamp() });
+    } catch (error) {
+      console.error('Error calling on student:', error);
+      toast.error('Failed to call on student');
+    }
+  }, [isTeacher]);
+
+  const lowerHand = useCallback(async (targetUserId: string) => {
+    if (!classId || !isTeacher) return;
+
+    try {
+      await deleteDoc(doc(db, 'raisedHands', raisedHandId(classId, targetUserId)));
+    } catch (error) {
+      console.error('Error lowering hand:', error);
+      toast.error('Failed to lower hand');
+    }
+  }, [classId, isTeacher]);
+
+  const lowerAll = useCallback(async () => {
+    if (!isTeacher || queue.length === 0) return;
+
+    const batch = writeBatch(db);
+    queue.forEach(hand => batch.delete(doc(db, 'raisedHands', hand.id)));
+    try {
+      await batch.commit();
+      toast.success('All hands lowered');
+    } catch (error) {
+      console.error('Error lowering all hands:', error);
+      toast.error('Failed to lower hands');
+    }
+  }, [isTeacher, queue]);
+
+  return {
+    queue,
+    myHand,
+    // 1-based place in the queue, or 0 with no hand up
+    myPosition: myIndex + 1,
+    toggleHand,
+    callOn,
+    lowerHand,
+    lowerAll
+  };
+}
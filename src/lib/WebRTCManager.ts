@@ -1,91 +1,358 @@
-export class WebRTCManager {
+import { TypedEventEmitter } from '@/lib/eventEmitter';
+import {
+  appendStatsHistory,
+  collectConnectionStats,
+  ConnectionStatsSample,
+  STATS_SAMPLE_INTERVAL_MS,
+  StatsTotals
+} from '@/lib/connectionStats';
+import { getIceConfiguration } from '@/lib/iceServers';
+import { getMediaConstraints } from '@/lib/mediaDevices';
+import { applyVideoQuality, createQualityState, nextVideoQuality, QualityState, VideoQuality } from '@/lib/videoQuality';
+
+export type MediaKind = 'audio' | 'video';
+
+// Per-peer state for the "perfect negotiation" pattern: either side may offer at any time, and when
+// both offer at once the polite peer rolls back its own offer while the impolite peer ignores the other's.
+interface PeerState {
+  connection: RTCPeerConnection;
+  polite: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  // Camera/mic and screen share each keep one transceiver per kind, so turning media on and off
+  // swaps tracks and directions instead of piling up new m-lines
+  cameraTransceivers: Partial<Record<MediaKind, RTCRtpTransceiver>>;
+  screenTransceivers: Partial<Record<MediaKind, RTCRtpTransceiver>>;
+  // Outgoing camera quality for this connection; see videoQuality.ts
+  videoQuality: QualityState;
+  appliedVideoQuality: VideoQuality;
+  statsTotals: StatsTotals | null;
+}
+
+export interface LocalDescriptionDetail {
+  studentId: string;
+  description: RTCSessionDescriptionInit;
+  screenStreamId: string | null;
+}
+
+export type ReconnectState = 'connected' | 'reconnecting' | 'failed';
+
+export interface ReconnectStateDetail {
+  studentId: string;
+  state: ReconnectState;
+  attempt: number;
+}
+
+export interface WebRTCManagerEvents {
+  'local-description': LocalDescriptionDetail;
+  'ice-candidate': { studentId: string; candidate: RTCIceCandidateInit };
+  'remote-stream-added': { studentId: string; stream: MediaStream };
+  'remote-screen-added': { studentId: string; stream: MediaStream };
+  'remote-screen-removed': { studentId: string };
+  'peer-connected': { studentId: string };
+  // Reconnecting gave up; the connection is closed
+  'peer-disconnected': { studentId: string };
+  'peer-reconnect-state': ReconnectStateDetail;
+  // The polite side dropped its connection and needs the app to ask for a new one
+  'peer-reconnect': { studentId: string; attempt: number };
+  // A new mesh peer this side should ask for a connection to
+  'mesh-peer-added': { studentId: string };
+  // Local camera/mic and screen share changes, for media paths other than peer connections (the SFU)
+  'local-track-changed': { kind: MediaKind; track: MediaStreamTrack | null };
+  'local-screen-changed': { stream: MediaStream | null };
+  // The camera quality sent to this peer changed with its connection
+  'peer-video-quality': { studentId: string; quality: VideoQuality };
+  'peer-stats': { studentId: string; sample: ConnectionStatsSample };
+}
+
+interface ReconnectAttempt {
+  attempt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const MEDIA_KINDS: MediaKind[] = ['audio', 'video'];
+
+// A brief 'disconnected' often recovers by itself, so wait before restarting ICE
+const DISCONNECT_GRACE_MS = 3000;
+const RECONNECT_BASE_DELAY_MS = 2000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+export const MAX_RECONNECT_ATTEMPTS = 5;
+
+export class WebRTCManager extends TypedEventEmitter<WebRTCManagerEvents> {
   private localStream: MediaStream | null = null;
-  private peerConnections: Map<string, RTCPeerConnection> = new Map();
+  private peers: Map<string, PeerState> = new Map();
   private remoteStreams: Map<string, MediaStream> = new Map();
   private isInitialized = false;
   private connectionStates: Map<string, string> = new Map();
   private pendingCandidates: Map<string, RTCIceCandidateInit[]> = new Map();
-  
-  private configuration = {
-    iceServers: [
-      { urls: 'stun:stun.l.google.com:19302' },
-      { urls: 'stun:stun1.l.google.com:19302' },
-      { urls: 'stun:stun2.l.google.com:19302' }
-    ]
-  };
+  // Screen share sent alongside the camera as extra tracks on every connection
+  private screenStream: MediaStream | null = null;
+  private remoteScreenStreams: Map<string, MediaStream> = new Map();
+  // Stream id each peer announced for its screen share, so its tracks are not mistaken for the camera
+  private remoteScreenStreamIds: Map<string, string> = new Map();
+  // Outlives the peer connection itself, which full renegotiation replaces
+  private reconnects: Map<string, ReconnectAttempt> = new Map();
+  // Classmates connected directly in discussion mode, on top of the connection to the teacher
+  private meshPeers: Set<string> = new Set();
+  private statsTimer: ReturnType<typeof setInterval> | null = null;
+  // Kept across reconnects so an export shows what led up to a drop
+  private statsHistory: Map<string, ConnectionStatsSample[]> = new Map();
+
+  // Resolved per connection so time-limited TURN credentials are always fresh
+  private iceConfigurationProvider: () => Promise<RTCConfiguration> = () => getIceConfiguration('anonymous');
+
+  setIceConfigurationProvider(provider: () => Promise<RTCConfiguration>): void {
+    this.iceConfigurationProvider = provider;
+  }
+
+  // Devices picked in the lobby or mid-class; unset means the browser default
+  private preferredDevices: Partial<Record<MediaKind, string>> = {};
+
+  setPreferredDevice(kind: MediaKind, deviceId: string | undefined): void {
+    this.preferredDevices[kind] = deviceId;
+  }
+
+  private getMediaConstraints(kind: MediaKind): MediaTrackConstraints {
+    return getMediaConstraints(kind, this.preferredDevices[kind]);
+  }
 
   async initializeLocalStream(audio: boolean = true, video: boolean = true): Promise<MediaStream> {
     try {
       console.log('Initializing local stream with audio:', audio, 'video:', video);
-      
+
       if (!audio && !video) {
         throw new Error('At least one of audio or video must be requested');
       }
 
       const constraints: MediaStreamConstraints = {
-        video: video ? {
-          width: { ideal: 1280 },
-          height: { ideal: 720 },
-          frameRate: { ideal: 30 }
-        } : false,
-        audio: audio ? {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-          channelCount: 2
-        } : false
+        video: video ? this.getMediaConstraints('video') : false,
+        audio: audio ? this.getMediaConstraints('audio') : false
       };
 
-      this.localStream = await navigator.mediaDevices.getUserMedia(constraints);
-      console.log('Local stream obtained:', this.localStream.id);
-      this.isInitialized = true;
-      return this.localStream;
+      const stream = await navigator.mediaDevices.getUserMedia(constraints);
+      console.log('Local stream obtained:', stream.id);
+      return this.adoptLocalStream(stream);
     } catch (error) {
       console.error('Error accessing media devices:', error);
       throw error;
     }
   }
 
-  createPeerConnection(studentId: string): RTCPeerConnection {
-    console.log('Creating peer connection for:', studentId);
-    
+  // Takes over tracks captured elsewhere (the lobby preview), so joining does not reopen the devices
+  adoptLocalStream(stream: MediaStream): MediaStream {
+    stream.getTracks().forEach(track => this.setLocalTrack(track.kind as MediaKind, track));
+    this.isInitialized = true;
+    return this.getOrCreateLocalStream();
+  }
+
+  // Swaps the device behind a live track. The new track goes onto the same senders with replaceTrack, so
+  // open connections keep going without renegotiating.
+  async switchDevice(kind: MediaKind, deviceId: string | undefined): Promise<MediaStreamTrack | null> {
+    this.preferredDevices[kind] = deviceId;
+    // Also replaces a track that ended because its device was unplugged
+    const current = this.localStream?.getTracks().find(track => track.kind === kind);
+    // Nothing captured for this kind: the choice applies the next time it is turned on
+    if (!current) return null;
+
+    const stream = await navigator.mediaDevices.getUserMedia({ [kind]: this.getMediaConstraints(kind) });
+    const track = stream.getTracks()[0];
+    track.enabled = current.enabled;
+    this.setLocalTrack(kind, track);
+    console.log('Switched', kind, 'device to:', track.label);
+    return track;
+  }
+
+  getActiveDeviceId(kind: MediaKind): string | undefined {
+    const track = this.localStream?.getTracks().find(localTrack => localTrack.kind === kind && localTrack.readyState === 'live');
+    return track?.getSettings().deviceId;
+  }
+
+  // The outgoing stream keeps its identity for the whole class so remote peers see one stream
+  // whose tracks come and go, rather than a new stream every time a device is turned on
+  private getOrCreateLocalStream(): MediaStream {
+    if (!this.localStream) {
+      this.localStream = new MediaStream();
+    }
+    return this.localStream;
+  }
+
+  private setLocalTrack(kind: MediaKind, track: MediaStreamTrack | null): void {
+    const localStream = this.getOrCreateLocalStream();
+    localStream.getTracks()
+      .filter(existing => existing.kind === kind && existing !== track)
+      .forEach(existing => {
+        existing.stop();
+        localStream.removeTrack(existing);
+      });
+    if (track && !localStream.getTracks().includes(track)) {
+      localStream.addTrack(track);
+    }
+
+    this.peers.forEach(peer => {
+      this.syncCameraTrack(peer, kind).catch(error => console.error('Error updating local track:', error));
+    });
+    this.emit('local-track-changed', { kind, track });
+  }
+
+  // Turns on a device that was not captured yet (e.g. a student's camera) on every open connection
+  async ensureLocalTrack(kind: MediaKind): Promise<MediaStreamTrack> {
+    const existing = this.localStream?.getTracks().find(track => track.kind === kind && track.readyState === 'live');
+    if (existing) {
+      existing.enabled = true;
+      return existing;
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ [kind]: this.getMediaConstraints(kind) });
+    const track = stream.getTracks()[0];
+    this.setLocalTrack(kind, track);
+    this.isInitialized = true;
+    console.log('Local track added:', kind, track.id);
+    return track;
+  }
+
+  // Stops the device (so the camera light goes off) and stops sending on every connection
+  removeLocalTrack(kind: MediaKind): void {
+    console.log('Removing local track:', kind);
+    this.setLocalTrack(kind, null);
+  }
+
+  private findUnboundTransceiver(peer: PeerState, kind: MediaKind): RTCRtpTransceiver | undefined {
+    const bound = [
+      ...Object.values(peer.cameraTransceivers),
+      ...Object.values(peer.screenTransceivers)
+    ];
+    // Transceivers created by the remote offer are listed in m-line order, camera before screen
+    return peer.connection.getTransceivers().find(transceiver =>
+      transceiver.receiver.track.kind === kind &&
+      transceiver.currentDirection !== 'stopped' &&
+      !bound.includes(transceiver)
+    );
+  }
+
+  private async bindTrack(
+    peer: PeerState,
+    transceivers: Partial<Record<MediaKind, RTCRtpTransceiver>>,
+    kind: MediaKind,
+    track: MediaStreamTrack | null,
+    stream: MediaStream | null,
+    idleDirection: RTCRtpTransceiverDirection
+  ): Promise<void> {
+    if (peer.connection.signalingState === 'closed') return;
+
+    let transceiver = transceivers[kind] || this.findUnboundTransceiver(peer, kind);
+    if (!transceiver) {
+      // Nothing to send and nothing to receive on yet: let the remote offer create the m-line
+      if (!track && idleDirection === 'inactive') return;
+      transceiver = peer.connection.addTransceiver(kind, { direction: idleDirection });
+    }
+    transceivers[kind] = transceiver;
+
+    if (transceiver.sender.track !== track) {
+      await transceiver.sender.replaceTrack(track);
+    }
+    if (track && stream) {
+      transceiver.sender.setStreams(stream);
+    }
+
+    // A direction change is what triggers renegotiation
+    const direction = track ? 'sendrecv' : idleDirection;
+    if (transceiver.direction !== direction) {
+      transceiver.direction = direction;
+    }
+  }
+
+  private syncCameraTrack(peer: PeerState, kind: MediaKind): Promise<void> {
+    const track = this.localStream?.getTracks().find(localTrack => localTrack.kind === kind) || null;
+    return this.bindTrack(peer, peer.cameraTransceivers, kind, track, this.localStream, 'recvonly');
+  }
+
+  private syncScreenTrack(peer: PeerState, kind: MediaKind): Promise<void> {
+    const track = this.screenStream?.getTracks().find(screenTrack => screenTrack.kind === kind) || null;
+    // Skip the audio m-line entirely when the shared surface has no audio
+    if (!track && !peer.screenTransceivers[kind]) return Promise.resolve();
+    return this.bindTrack(peer, peer.screenTransceivers, kind, track, this.screenStream, 'inactive');
+  }
+
+  private async syncAllTracks(peer: PeerState): Promise<void> {
+    for (const kind of MEDIA_KINDS) {
+      await this.syncCameraTrack(peer, kind);
+    }
+    for (const kind of MEDIA_KINDS) {
+      await this.syncScreenTrack(peer, kind);
+    }
+  }
+
+  private emitLocalDescription(studentId: string, description: RTCSessionDescription | null): void {
+    if (!description) return;
+
+    const detail: LocalDescriptionDetail = {
+      studentId,
+      description: { type: description.type, sdp: description.sdp },
+      screenStreamId: this.getScreenStreamId()
+    };
+    this.emit('local-description', detail);
+  }
+
+  private createPeer(studentId: string, polite: boolean, configuration: RTCConfiguration): PeerState {
+    console.log('Creating peer connection for:', studentId, polite ? '(polite)' : '(impolite)');
+
     // Close existing connection if it exists
-    if (this.peerConnections.has(studentId)) {
+    if (this.peers.has(studentId)) {
       console.log('Closing existing connection for:', studentId);
-      this.closeConnection(studentId);
+      this.teardownPeer(studentId);
     }
 
-    const peerConnection = new RTCPeerConnection(this.configuration);
+    const peerConnection = new RTCPeerConnection(configuration);
+    const peer: PeerState = {
+      connection: peerConnection,
+      polite,
+      makingOffer: false,
+      ignoreOffer: false,
+      cameraTransceivers: {},
+      screenTransceivers: {},
+      videoQuality: createQualityState(),
+      appliedVideoQuality: 'high',
+      statsTotals: null
+    };
     this.connectionStates.set(studentId, 'new');
-    this.pendingCandidates.set(studentId, []);
+    this.pendingCandidates.set(studentId, this.pendingCandidates.get(studentId) || []);
 
-    // Add local tracks to connection
-    if (this.localStream) {
-      this.localStream.getTracks().forEach(track => {
-        if (peerConnection.signalingState !== 'closed') {
-          try {
-            peerConnection.addTrack(track, this.localStream!);
-            console.log('Added track to peer connection:', track.kind, track.id);
-          } catch (error) {
-            console.error('Error adding track:', error);
-          }
-        }
-      });
-    }
+    // Fires for the first offer and for every later track change, on either side
+    peerConnection.onnegotiationneeded = async () => {
+      try {
+        peer.makingOffer = true;
+        await peerConnection.setLocalDescription();
+        console.log('Offer created for:', studentId, 'signaling state:', peerConnection.signalingState);
+        this.emitLocalDescription(studentId, peerConnection.localDescription);
+      } catch (error) {
+        console.error('Error creating offer:', error);
+      } finally {
+        peer.makingOffer = false;
+      }
+    };
 
     // Handle incoming remote tracks
     peerConnection.ontrack = (event) => {
-      console.log('Received remote track from:', studentId, event.streams.length, 'streams');
-      if (event.streams && event.streams[0]) {
-        const remoteStream = event.streams[0];
-        this.remoteStreams.set(studentId, remoteStream);
-        
-        window.dispatchEvent(new CustomEvent('remote-stream-added', {
-          detail: { studentId, stream: remoteStream }
-        }));
-        
-        console.log('Remote stream added for:', studentId);
+      console.log('Received remote track from:', studentId, event.track.kind, event.streams.length, 'streams');
+      const stream = event.streams[0];
+
+      if (stream && stream.id === this.remoteScreenStreamIds.get(studentId)) {
+        this.remoteScreenStreams.set(studentId, stream);
+        this.emit('remote-screen-added', { studentId, stream });
+        console.log('Remote screen share added for:', studentId);
+        return;
+      }
+
+      // Browsers without setStreams send tracks with no stream; collect them into one per peer
+      const remoteStream = stream || this.remoteStreams.get(studentId) || new MediaStream();
+      if (!stream && !remoteStream.getTracks().includes(event.track)) {
+        remoteStream.addTrack(event.track);
       }
+      this.remoteStreams.set(studentId, remoteStream);
+
+      this.emit('remote-stream-added', { studentId, stream: remoteStream });
+
+      console.log('Remote stream added for:', studentId);
     };
 
     // Handle ICE candidates
@@ -93,147 +360,305 @@ export class WebRTCManager {
       if (event.candidate) {
         const candidateData: RTCIceCandidateInit = {
           candidate: event.candidate.candidate,
-          sdpMid: event.candidate.sdpMid || null,
-          sdpMLineIndex: event.candidate.sdpMLineIndex || null,
-          usernameFragment: event.candidate.usernameFragment || null
+          sdpMid: event.candidate.sdpMid ?? null,
+          sdpMLineIndex: event.candidate.sdpMLineIndex ?? null,
+          usernameFragment: event.candidate.usernameFragment ?? null
         };
-        
-        window.dispatchEvent(new CustomEvent('ice-candidate', {
-          detail: { studentId, candidate: candidateData }
-        }));
+
+        this.emit('ice-candidate', { studentId, candidate: candidateData });
       }
     };
 
-    // Handle connection state changes
+    // Drops start automatic recovery instead of tearing the connection down; see attemptReconnect
     peerConnection.onconnectionstatechange = () => {
       const state = peerConnection.connectionState;
       console.log(`Connection state for ${studentId}:`, state);
       this.connectionStates.set(studentId, state);
-      
+
       if (state === 'connected') {
-        window.dispatchEvent(new CustomEvent('peer-connected', {
-          detail: { studentId }
-        }));
-      } else if (state === 'disconnected' || state === 'failed' || state === 'closed') {
-        window.dispatchEvent(new CustomEvent('peer-disconnected', {
-          detail: { studentId }
-        }));
-        this.remoteStreams.delete(studentId);
+        this.finishReconnect(studentId);
+        this.startStatsSampling();
+        this.emit('peer-connected', { studentId });
+      } else if (state === 'disconnected' || state === 'failed') {
+        this.startReconnect(studentId, state);
       }
     };
 
-    // Handle ICE connection state
     peerConnection.oniceconnectionstatechange = () => {
-      const state = peerConnection.iceConnectionState;
-      console.log(`ICE connection state for ${studentId}:`, state);
-      
-      if (state === 'disconnected' || state === 'failed') {
-        window.dispatchEvent(new CustomEvent('peer-disconnected', {
-          detail: { studentId }
-        }));
-      }
+      console.log(`ICE connection state for ${studentId}:`, peerConnection.iceConnectionState);
     };
 
-    this.peerConnections.set(studentId, peerConnection);
-    return peerConnection;
+    this.peers.set(studentId, peer);
+    return peer;
+  }
+
+  private startStatsSampling(): void {
+    if (this.statsTimer) return;
+    this.statsTimer = setInterval(() => this.sampleStats(), STATS_SAMPLE_INTERVAL_MS);
+  }
+
+  private stopStatsSampling(): void {
+    if (this.statsTimer) clearInterval(this.statsTimer);
+    this.statsTimer = null;
+  }
+
+  private async sampleStats(): Promise<void> {
+    if (this.peers.size === 0) {
+      this.stopStatsSampling();
+      return;
+    }
+
+    await Promise.all(Array.from(this.peers.entries()).map(async ([studentId, peer]) => {
+      if (peer.connection.connectionState !== 'connected') return;
+
+      try {
+        const { sample, totals } = await collectConnectionStats(peer.connection, peer.statsTotals);
+        const isFirstSample = !peer.statsTotals;
+        peer.statsTotals = totals;
+        // Rates need two samples
+        if (isFirstSample) return;
+
+        const history = this.statsHistory.get(studentId) || [];
+        this.statsHistory.set(studentId, history);
+        appendStatsHistory(history, sample);
+        this.emit('peer-stats', { studentId, sample });
+
+        await this.adaptVideoQuality(studentId, peer, sample);
+      } catch (error) {
+        console.error('Error sampling connection stats:', error);
+      }
+    }));
+  }
+
+  // Moves the connection's camera sender up or down a quality layer based on its own bandwidth and loss
+  private async adaptVideoQuality(studentId: string, peer: PeerState, sample: ConnectionStatsSample): Promise<void> {
+    const sender = peer.cameraTransceivers.video?.sender;
+    if (!sender?.track) return;
+
+    const quality = nextVideoQuality(peer.videoQuality, sample);
+    if (quality === peer.appliedVideoQuality) return;
+
+    if (!(await applyVideoQuality(sender, quality))) return;
+    console.log(`Video quality for ${studentId}:`, peer.appliedVideoQuality, '->', quality);
+    peer.appliedVideoQuality = quality;
+    this.emit('peer-video-quality', { studentId, quality });
+  }
+
+  getLatestStats(studentId: string): ConnectionStatsSample | undefined {
+    return this.statsHistory.get(studentId)?.at(-1);
+  }
+
+  getStatsHistory(): Record<string, ConnectionStatsSample[]> {
+    return Object.fromEntries(Array.from(this.statsHistory, ([studentId, history]) => [studentId, [...history]]));
+  }
+
+  getVideoQuality(studentId: string): VideoQuality | undefined {
+    return this.peers.get(studentId)?.appliedVideoQuality;
   }
 
-  async createOffer(studentId: string): Promise<RTCSessionDescriptionInit> {
-    console.log('Creating offer for:', studentId);
-    
-    // Clean up any existing connection
-    if (this.peerConnections.has(studentId)) {
+  private emitReconnectState(studentId: string, state: ReconnectState, attempt: number): void {
+    const detail: ReconnectStateDetail = { studentId, state, attempt };
+    this.emit('peer-reconnect-state', detail);
+  }
+
+  private startReconnect(studentId: string, state: 'disconnected' | 'failed'): void {
+    const existing = this.reconnects.get(studentId);
+    if (existing) {
+      // A failure during the grace period should not wait it out
+      if (state === 'failed' && existing.attempt === 0 && existing.timer) {
+        clearTimeout(existing.timer);
+        this.attemptReconnect(studentId);
+      }
+      return;
+    }
+
+    const reconnect: ReconnectAttempt = { attempt: 0, timer: null };
+    this.reconnects.set(studentId, reconnect);
+    this.emitReconnectState(studentId, 'reconnecting', 0);
+
+    if (state === 'failed') {
+      this.attemptReconnect(studentId);
+    } else {
+      reconnect.timer = setTimeout(() => this.attemptReconnect(studentId), DISCONNECT_GRACE_MS);
+    }
+  }
+
+  // The first attempt restarts ICE on the existing connection, which keeps the media pipeline and only
+  // gathers new candidates. Later attempts renegotiate from scratch: the polite side (the student) drops its
+  // connection and emits 'peer-reconnect' so the app can ask for a new one, while the impolite side waits.
+  private attemptReconnect(studentId: string): void {
+    const reconnect = this.reconnects.get(studentId);
+    if (!reconnect) return;
+    reconnect.timer = null;
+
+    const peer = this.peers.get(studentId);
+    if (peer?.connection.connectionState === 'connected') {
+      this.finishReconnect(studentId);
+      return;
+    }
+
+    if (reconnect.attempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.warn('Giving up reconnecting to:', studentId);
       this.closeConnection(studentId);
-      await new Promise(resolve => setTimeout(resolve, 100));
+      this.emitReconnectState(studentId, 'failed', reconnect.attempt);
+      this.emit('peer-disconnected', { studentId });
+      return;
     }
-    
-    const peerConnection = this.createPeerConnection(studentId);
-    
+
+    reconnect.attempt += 1;
+    console.log(`Reconnect attempt ${reconnect.attempt} for:`, studentId);
+    this.emitReconnectState(studentId, 'reconnecting', reconnect.attempt);
+
+    const state = peer?.connection.connectionState;
+    const isNegotiating = state === 'new' || state === 'connecting';
+    if (peer && reconnect.attempt === 1) {
+      this.restartIce(studentId, peer);
+    } else if (!isNegotiating && (!peer || peer.polite)) {
+      this.teardownPeer(studentId);
+      this.emit('peer-reconnect', { studentId, attempt: reconnect.attempt });
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (reconnect.attempt - 1), RECONNECT_MAX_DELAY_MS);
+    reconnect.timer = setTimeout(() => this.attemptReconnect(studentId), delay);
+  }
+
+  // TURN credentials are time-limited, so the restart gathers candidates with a fresh configuration
+  private async restartIce(studentId: string, peer: PeerState): Promise<void> {
     try {
-      const offer = await peerConnection.createOffer({
-        offerToReceiveAudio: true,
-        offerToReceiveVideo: true
-      });
-      
-      await peerConnection.setLocalDescription(offer);
-      console.log('Offer created successfully, signaling state:', peerConnection.signalingState);
-      return offer;
+      const configuration = await this.iceConfigurationProvider();
+      if (this.peers.get(studentId) !== peer) return;
+      peer.connection.setConfiguration(configuration);
     } catch (error) {
-      console.error('Error creating offer:', error);
-      this.closeConnection(studentId);
-      throw error;
+      console.warn('Could not refresh ICE configuration for:', studentId, error);
+      if (this.peers.get(studentId) !== peer) return;
     }
+    peer.connection.restartIce();
+  }
+
+  private finishReconnect(studentId: string): void {
+    const reconnect = this.reconnects.get(studentId);
+    if (!reconnect) return;
+
+    if (reconnect.timer) clearTimeout(reconnect.timer);
+    this.reconnects.delete(studentId);
+    this.emitReconnectState(studentId, 'connected', reconnect.attempt);
+  }
+
+  private cancelReconnect(studentId: string): void {
+    const timer = this.reconnects.get(studentId)?.timer;
+    if (timer) clearTimeout(timer);
+    this.reconnects.delete(studentId);
+  }
+
+  isReconnecting(studentId: string): boolean {
+    return this.reconnects.has(studentId);
   }
 
-  async handleAnswer(studentId: string, answer: RTCSessionDescriptionInit): Promise<void> {
-    console.log('Handling answer from:', studentId);
-    const peerConnection = this.peerConnections.get(studentId);
-    
-    if (!peerConnection) {
-      console.error('No peer connection found for:', studentId);
-      throw new Error('No peer connection found');
+  // Brings the mesh in line with the classmates currently in the room (none outside discussion mode).
+  // Of each pair, the peer with the smaller id asks for the connection so it is only set up once;
+  // connections to classmates who left are closed.
+  setMeshPeers(localUserId: string, peerIds: string[]): void {
+    const next = new Set(peerIds.filter(peerId => peerId !== localUserId));
+
+    this.meshPeers.forEach(peerId => {
+      if (next.has(peerId)) return;
+      console.log('Leaving mesh connection with:', peerId);
+      this.closeConnection(peerId);
+      this.emit('peer-disconnected', { studentId: peerId });
+    });
+
+    const added = Array.from(next).filter(peerId => !this.meshPeers.has(peerId));
+    this.meshPeers = next;
+    added
+      .filter(peerId => localUserId < peerId)
+      .forEach(peerId => this.emit('mesh-peer-added', { studentId: peerId }));
+  }
+
+  isMeshPeer(peerId: string): boolean {
+    return this.meshPeers.has(peerId);
+  }
+
+  // Opens a fresh connection; the initial offer follows from onnegotiationneeded
+  async connect(studentId: string, polite: boolean): Promise<void> {
+    const configuration = await this.iceConfigurationProvider();
+    const peer = this.createPeer(studentId, polite, configuration);
+    await this.syncAllTracks(peer);
+  }
+
+  async handleDescription(
+    studentId: string,
+    description: RTCSessionDescriptionInit,
+    options: { polite: boolean; screenStreamId?: string | null }
+  ): Promise<void> {
+    let peer = this.peers.get(studentId);
+    if (!peer) {
+      if (description.type !== 'offer') {
+        console.warn('Ignoring', description.type, 'without a connection from:', studentId);
+        return;
+      }
+      const configuration = await this.iceConfigurationProvider();
+      // Another description may have created the connection while the configuration was loading
+      peer = this.peers.get(studentId) || this.createPeer(studentId, options.polite, configuration);
     }
 
-    // Check if we're in the right state to handle an answer
-    const signalingState = peerConnection.signalingState;
-    if (signalingState !== 'have-local-offer') {
-      console.warn(`Cannot handle answer in state: ${signalingState}, expected: have-local-offer`);
+    const peerConnection = peer.connection;
+    const offerCollision = description.type === 'offer' &&
+      (peer.makingOffer || peerConnection.signalingState !== 'stable');
+
+    peer.ignoreOffer = !peer.polite && offerCollision;
+    if (peer.ignoreOffer) {
+      console.log('Ignoring colliding offer from:', studentId);
       return;
     }
 
-    try {
-      await peerConnection.setRemoteDescription(answer);
-      console.log('Answer set as remote description successfully');
+    if (description.type === 'answer' && peerConnection.signalingState !== 'have-local-offer') {
+      console.warn(`Cannot handle answer in state: ${peerConnection.signalingState}, expected: have-local-offer`);
+      return;
+    }
 
-      // Process pending ICE candidates
-      const pending = this.pendingCandidates.get(studentId) || [];
-      for (const candidate of pending) {
-        try {
-          await peerConnection.addIceCandidate(new RTCIceCandidate(candidate));
-        } catch (error) {
-          console.error('Error adding pending ICE candidate:', error);
-        }
+    // Must be known before the remote description fires ontrack for the new tracks
+    this.setRemoteScreenStreamId(studentId, options.screenStreamId || null);
+
+    try {
+      if (offerCollision && peerConnection.signalingState === 'have-local-offer') {
+        console.log('Rolling back local offer after glare with:', studentId);
+        await peerConnection.setLocalDescription({ type: 'rollback' });
       }
-      this.pendingCandidates.set(studentId, []);
-    } catch (error) {
-      console.error('Error handling answer:', error);
-      if ((error as Error).name === 'InvalidStateError') {
-        console.warn('Duplicate answer received, ignoring...');
-        return;
+      await peerConnection.setRemoteDescription(description);
+      console.log(description.type, 'set as remote description for:', studentId);
+      await this.flushPendingCandidates(studentId);
+
+      if (description.type === 'offer') {
+        // Answer with whatever we are currently sending on the transceivers the offer created
+        await this.syncAllTracks(peer);
+        await peerConnection.setLocalDescription();
+        console.log('Answer created for:', studentId);
+        this.emitLocalDescription(studentId, peerConnection.localDescription);
       }
+    } catch (error) {
+      console.error('Error handling remote description:', error);
       throw error;
     }
   }
 
-  async handleOffer(studentId: string, offer: RTCSessionDescriptionInit): Promise<RTCSessionDescriptionInit> {
-    console.log('Handling offer from:', studentId);
-    
-    // Clean up any existing connection
-    if (this.peerConnections.has(studentId)) {
-      this.closeConnection(studentId);
-      await new Promise(resolve => setTimeout(resolve, 100));
-    }
-    
-    const peerConnection = this.createPeerConnection(studentId);
-    
-    try {
-      await peerConnection.setRemoteDescription(offer);
-      console.log('Offer set as remote description successfully');
+  private async flushPendingCandidates(studentId: string): Promise<void> {
+    const peerConnection = this.peers.get(studentId)?.connection;
+    const pending = this.pendingCandidates.get(studentId) || [];
+    if (!peerConnection || pending.length === 0) return;
 
-      const answer = await peerConnection.createAnswer();
-      await peerConnection.setLocalDescription(answer);
-      console.log('Answer created successfully');
-      return answer;
-    } catch (error) {
-      console.error('Error handling offer:', error);
-      this.closeConnection(studentId);
-      throw error;
+    this.pendingCandidates.set(studentId, []);
+    for (const candidate of pending) {
+      try {
+        await peerConnection.addIceCandidate(candidate);
+      } catch (error) {
+        console.error('Error adding pending ICE candidate:', error);
+      }
     }
   }
 
   async addIceCandidate(studentId: string, candidateData: RTCIceCandidateInit): Promise<void> {
-    const peerConnection = this.peerConnections.get(studentId);
-    if (!peerConnection) {
+    const peer = this.peers.get(studentId);
+    if (!peer || !peer.connection.remoteDescription) {
       console.log('Storing ICE candidate for later processing:', studentId);
       const pending = this.pendingCandidates.get(studentId) || [];
       pending.push(candidateData);
@@ -242,16 +667,59 @@ export class WebRTCManager {
     }
 
     try {
-      const iceCandidate = new RTCIceCandidate(candidateData);
-      await peerConnection.addIceCandidate(iceCandidate);
+      await peer.connection.addIceCandidate(candidateData);
       console.log('ICE candidate added for:', studentId);
     } catch (error) {
-      console.error('Error adding ICE candidate:', error);
-      // Store for potential later use
-      const pending = this.pendingCandidates.get(studentId) || [];
-      pending.push(candidateData);
-      this.pendingCandidates.set(studentId, pending);
+      // Candidates for an offer we ignored during glare are expected to fail
+      if (!peer.ignoreOffer) {
+        console.error('Error adding ICE candidate:', error);
+      }
+    }
+  }
+
+  // Adds the display tracks to every open connection; each connection renegotiates on its own
+  async startScreenShare(stream: MediaStream): Promise<void> {
+    this.screenStream = stream;
+    this.emit('local-screen-changed', { stream });
+    await Promise.all(Array.from(this.peers.values()).map(async (peer) => {
+      for (const kind of MEDIA_KINDS) {
+        await this.syncScreenTrack(peer, kind);
+      }
+    }));
+  }
+
+  async stopScreenShare(): Promise<void> {
+    this.screenStream = null;
+    this.emit('local-screen-changed', { stream: null });
+    await Promise.all(Array.from(this.peers.values()).map(async (peer) => {
+      for (const kind of MEDIA_KINDS) {
+        await this.syncScreenTrack(peer, kind);
+      }
+    }));
+  }
+
+  getScreenStream(): MediaStream | null {
+    return this.screenStream;
+  }
+
+  getScreenStreamId(): string | null {
+    return this.screenStream?.id || null;
+  }
+
+  private setRemoteScreenStreamId(studentId: string, streamId: string | null): void {
+    if (streamId) {
+      this.remoteScreenStreamIds.set(studentId, streamId);
+      return;
     }
+
+    this.remoteScreenStreamIds.delete(studentId);
+    if (this.remoteScreenStreams.delete(studentId)) {
+      this.emit('remote-screen-removed', { studentId });
+    }
+  }
+
+  getRemoteScreenStream(studentId: string): MediaStream | undefined {
+    return this.remoteScreenStreams.get(studentId);
   }
 
   getRemoteStream(studentId: string): MediaStream | undefined {
@@ -262,27 +730,40 @@ export class WebRTCManager {
     return new Map(this.remoteStreams);
   }
 
-  closeConnection(studentId: string): void {
-    console.log('Closing connection for:', studentId);
-    const peerConnection = this.peerConnections.get(studentId);
-    if (peerConnection) {
+  // Closes the connection but leaves any reconnect in progress running
+  private teardownPeer(studentId: string): void {
+    const peer = this.peers.get(studentId);
+    if (peer) {
       try {
-        peerConnection.close();
+        peer.connection.close();
       } catch (error) {
         console.error('Error closing connection:', error);
       }
-      this.peerConnections.delete(studentId);
+      this.peers.delete(studentId);
     }
     this.remoteStreams.delete(studentId);
     this.connectionStates.delete(studentId);
     this.pendingCandidates.delete(studentId);
+    this.setRemoteScreenStreamId(studentId, null);
+  }
+
+  closeConnection(studentId: string): void {
+    console.log('Closing connection for:', studentId);
+    this.cancelReconnect(studentId);
+    this.teardownPeer(studentId);
   }
 
   closeAllConnections(): void {
     console.log('Closing all peer connections');
-    this.peerConnections.forEach((_connection, studentId) => {
+    this.peers.forEach((_peer, studentId) => {
       this.closeConnection(studentId);
     });
+    // Peers torn down mid-reconnect are no longer in the map
+    this.reconnects.forEach((_reconnect, studentId) => {
+      this.cancelReconnect(studentId);
+    });
+    this.meshPeers.clear();
+    this.stopStatsSampling();
   }
 
   stopLocalStream(): void {
@@ -309,11 +790,11 @@ export class WebRTCManager {
   }
 
   getSignalingState(studentId: string): string | undefined {
-    return this.peerConnections.get(studentId)?.signalingState;
+    return this.peers.get(studentId)?.connection.signalingState;
   }
 
   getActiveConnections(): string[] {
-    return Array.from(this.peerConnections.keys());
+    return Array.from(this.peers.keys());
   }
 
   updateLocalStreamTracks(audioEnabled: boolean, videoEnabled: boolean): void {
@@ -328,16 +809,16 @@ export class WebRTCManager {
   }
 
   hasConnection(studentId: string): boolean {
-    const pc = this.peerConnections.get(studentId);
+    const pc = this.peers.get(studentId)?.connection;
     return pc != null && pc.connectionState !== 'closed' && pc.signalingState !== 'closed';
   }
 
   // New method to check if connection is healthy
   isConnectionHealthy(studentId: string): boolean {
-    const pc = this.peerConnections.get(studentId);
+    const pc = this.peers.get(studentId)?.connection;
     if (!pc) return false;
-    
-    return pc.connectionState === 'connected' && 
+
+    return pc.connectionState === 'connected' &&
            (pc.iceConnectionState === 'connected' || pc.iceConnectionState === 'completed');
   }
-}
\ No newline at end of file
+}
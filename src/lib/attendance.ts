@@ -0,0 +1,311 @@
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  limit,
+  onSnapshot,
+  runTransaction,
+  updateDoc,
+  arrayUnion,
+  arrayRemove,
+  increment,
+  deleteField,
+  serverTimestamp,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { serverNow } from '@/lib/serverTime';
+import { AttendanceReportRow, Class, StudentAttendance, User } from '@/types';
+
+export const LATE_GRACE_MINUTES = 5;
+export const ATTENDANCE_HEARTBEAT_MS = 30_000;
+// A few missed heartbeats means the tab was closed, crashed or lost its connection
+export const STALE_SESSION_MS = ATTENDANCE_HEARTBEAT_MS * 3;
+
+// All attendance reads and writes go through this module. Documents are keyed by class, student and
+// session, so a reload of the tab reopens the same row instead of adding one.
+
+export interface RosterStudent {
+  studentId: string;
+  studentName: string;
+  studentEmail: string;
+}
+
+export function attendanceFromDoc(id: string, data: DocumentData): StudentAttendance {
+  return {
+    id,
+    classId: data.classId,
+    studentId: data.studentId,
+    studentName: data.studentName || 'Unknown Student',
+    studentEmail: data.studentEmail,
+    sessionId: data.sessionId,
+    joinedAt: data.joinedAt?.toDate() || new Date(),
+    leftAt: data.leftAt?.toDate(),
+    lastSeenAt: data.lastSeenAt?.toDate(),
+    duration: data.duration || 0,
+    status: data.status || 'present'
+  };
+}
+
+export function getMinutesLate(classItem: Class, joinedAt: Date): number {
+  const grace = classItem.lateGraceMinutes ?? LATE_GRACE_MINUTES;
+  const minutesAfterStart = (joinedAt.getTime() - classItem.scheduledAt.getTime()) / 60000;
+  return minutesAfterStart > grace ? Math.round(minutesAfterStart) : 0;
+}
+
+export function getJoinStatus(classItem: Class, joinedAt: Date): StudentAttendance['status'] {
+  return getMinutesLate(classItem, joinedAt) > 0 ? 'late' : 'present';
+}
+
+export function isSessionOpen(record: StudentAttendance, now = Date.now()): boolean {
+  return !record.leftAt && !!record.lastSeenAt && now - record.lastSeenAt.getTime() <= STALE_SESSION_MS;
+}
+
+// When a session stopped counting: an explicit leave, else the last heartbeat once it has gone stale,
+// else now. Rows without a heartbeat predate session tracking and only count as a join.
+export function getSessionEnd(record: StudentAttendance, classItem: Class, now = Date.now()): Date {
+  let end: number;
+  if (record.leftAt) {
+    end = record.leftAt.getTime();
+  } else if (!record.lastSeenAt) {
+    end = record.joinedAt.getTime();
+  } else if (now - record.lastSeenAt.getTime() > STALE_SESSION_MS) {
+    end = record.lastSeenAt.getTime();
+  } else {
+    end = now;
+  }
+
+  if (classItem.endedAt) end = Math.min(end, classItem.endedAt.getTime());
+  return new Date(Math.max(end, record.joinedAt.getTime()));
+}
+
+// Overlapping sessions (two tabs, a reconnect racing the old tab's leave) are only counted once
+export function getPresentMinutes(intervals: { start: Date; end: Date }[]): number {
+  const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+  let totalMs = 0;
+  let currentStart = -1;
+  let currentEnd = -1;
+
+  sorted.forEach(({ start, end }) => {
+    if (start.getTime() > currentEnd) {
+      totalMs += currentEnd - currentStart;
+      currentStart = start.getTime();
+      currentEnd = end.getTime();
+    } else {
+      currentEnd = Math.max(currentEnd, end.getTime());
+    }
+  });
+  totalMs += currentEnd - currentStart;
+
+  return Math.round(totalMs / 60000);
+}
+
+// The most recent session of each student, newest first
+export function latestSessionPerStudent(records: StudentAttendance[]): StudentAttendance[] {
+  const latest = new Map<string, StudentAttendance>();
+  records.forEach(record => {
+    const existing = latest.get(record.studentId);
+    if (!existing || record.joinedAt > existing.joinedAt) {
+      latest.set(record.studentId, record);
+    }
+  });
+  return Array.from(latest.values()).sort((a, b) => b.joinedAt.getTime() - a.joinedAt.getTime());
+}
+
+export function buildAttendanceReport(
+  classItem: Class,
+  records: StudentAttendance[],
+  roster: RosterStudent[],
+  now = Date.now()
+): AttendanceReportRow[] {
+  const sessionsByStudent = new Map<string, StudentAttendance[]>();
+  records.forEach(record => {
+    sessionsByStudent.set(record.studentId, [...(sessionsByStudent.get(record.studentId) || []), record]);
+  });
+
+  const rows: AttendanceReportRow[] = Array.from(sessionsByStudent.entries()).map(([studentId, sessions]) => {
+    const sorted = [...sessions].sort((a, b) => a.joinedAt.getTime() - b.joinedAt.getTime());
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+    const intervals = sorted.map(session => ({ start: session.joinedAt, end: getSessionEnd(session, classItem, now) }));
+    const isOnline = sorted.some(session => isSessionOpen(session, now));
+    const minutesLate = getMinutesLate(classItem, first.joinedAt);
+
+    return {
+      studentId,
+      studentName: last.studentName,
+      studentEmail: last.studentEmail || '',
+      status: minutesLate > 0 ? 'late' : 'present',
+      firstJoinedAt: first.joinedAt,
+      lastLeftAt: isOnline ? null : new Date(Math.max(...intervals.map(interval => interval.end.getTime()))),
+      totalMinutes: getPresentMinutes(intervals),
+      sessionCount: sorted.length,
+      minutesLate,
+      isOnline
+    };
+  });
+
+  roster
+    .filter(student => !sessionsByStudent.has(student.studentId))
+    .forEach(student => {
+      rows.push({
+        ...student,
+        status: 'absent',
+        firstJoinedAt: null,
+        lastLeftAt: null,
+        totalMinutes: 0,
+        sessionCount: 0,
+        minutesLate: 0,
+        isOnline: false
+      });
+    });
+
+  return rows.sort((a, b) => a.studentName.localeCompare(b.studentName));
+}
+
+export function getAttendanceDocId(classId: string, studentId: string, sessionId: string): string {
+  return `${classId}_${studentId}_${sessionId}`;
+}
+
+function createSessionId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+function sessionStorageKey(classId: string): string {
+  return `attendanceSession:${classId}`;
+}
+
+// The tab's current session survives reloads because sessionStorage is scoped to the tab
+export function getTabSessionId(classId: string): string {
+  const key = sessionStorageKey(classId);
+  const existing = sessionStorage.getItem(key);
+  if (existing) return existing;
+
+  const sessionId = createSessionId();
+  sessionStorage.setItem(key, sessionId);
+  return sessionId;
+}
+
+// Coming back online or from the back/forward cache starts a new session, so the time away is not counted
+export function rotateTabSessionId(classId: string): string {
+  const sessionId = createSessionId();
+  sessionStorage.setItem(sessionStorageKey(classId), sessionId);
+  return sessionId;
+}
+
+// Leaving the room ends the tab's session, so rejoining from the same tab starts a new row and the time
+// away is not counted. Reloads never get here and keep the session.
+export function clearTabSessionId(classId: string): void {
+  sessionStorage.removeItem(sessionStorageKey(classId));
+}
+
+// Opens the session or, when the row already exists, reopens it keeping the original join time.
+// Returns the attendance document id used for heartbeats and the final leave.
+export async function startAttendanceSession(classItem: Class, student: User, sessionId: string): Promise<string> {
+  const attendanceId = getAttendanceDocId(classItem.id, student.uid, sessionId);
+  const attendanceRef = doc(db, 'attendance', attendanceId);
+
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(attendanceRef);
+    if (existing.exists()) {
+      transaction.update(attendanceRef, { lastSeenAt: serverTimestamp(), leftAt: deleteField() });
+      return;
+    }
+
+    transaction.set(attendanceRef, {
+      classId: classItem.id,
+      studentId: student.uid,
+      sessionId,
+      studentName: student.displayName || student.email || 'Student',
+      studentEmail: student.email,
+      joinedAt: serverTimestamp(),
+      lastSeenAt: serverTimestamp(),
+      status: getJoinStatus(classItem, new Date(serverNow()))
+    });
+  });
+
+  return attendanceId;
+}
+
+// Also clears a leave that raced a reopen of the same row, e.g. from a quick reload
+export function touchAttendanceSession(attendanceId: string): Promise<void> {
+  return updateDoc(doc(db, 'attendance', attendanceId), { lastSeenAt: serverTimestamp(), leftAt: deleteField() });
+}
+
+// A client timestamp, because a leave written while offline is only committed after reconnecting
+export function endAttendanceSession(attendanceId: string): Promise<void> {
+  const leftAt = Timestamp.fromMillis(serverNow());
+  return updateDoc(doc(db, 'attendance', attendanceId), { leftAt, lastSeenAt: leftAt });
+}
+
+function classAttendanceQuery(classId: string) {
+  return query(collection(db, 'attendance'), where('classId', '==', classId));
+}
+
+export async function fetchClassAttendance(classId: string): Promise<StudentAttendance[]> {
+  const snapshot = await getDocs(classAttendanceQuery(classId));
+  return snapshot.docs.map(attendanceDoc => attendanceFromDoc(attendanceDoc.id, attendanceDoc.data()));
+}
+
+export function subscribeToClassAttendance(
+  classId: string,
+  onChange: (records: StudentAttendance[]) => void,
+  onError: (error: Error) => void
+): () => void {
+  return onSnapshot(classAttendanceQuery(classId), (snapshot) => {
+    onChange(snapshot.docs.map(attendanceDoc =>
+      attendanceFromDoc(attendanceDoc.id, attendanceDoc.data({ serverTimestamps: 'estimate' }))
+    ));
+  }, onError);
+}
+
+export async function fetchRoster(studentIds: string[]): Promise<RosterStudent[]> {
+  const users = await Promise.all(studentIds.map(studentId => getDoc(doc(db, 'users', studentId))));
+  return users.map((userDoc, index) => {
+    const data = userDoc.data();
+    return {
+      studentId: studentIds[index],
+      studentName: data?.displayName || data?.email || 'Unknown Student',
+      studentEmail: data?.email || ''
+    };
+  });
+}
+
+export async function addStudentToRoster(classItem: Class, email: string): Promise<RosterStudent> {
+  const usersQuery = query(
+    collection(db, 'users'),
+    where('email', '==', email.trim().toLowerCase()),
+    limit(1)
+  );
+  const snapshot = await getDocs(usersQuery);
+  const userDoc = snapshot.docs[0];
+
+  if (!userDoc || userDoc.data().role !== 'student') {
+    throw new Error('No student account uses that email');
+  }
+  if (classItem.students?.includes(userDoc.id)) {
+    throw new Error('That student is already on the roster');
+  }
+
+  await updateDoc(doc(db, 'classes', classItem.id), {
+    students: arrayUnion(userDoc.id),
+    studentCount: increment(1)
+  });
+
+  return {
+    studentId: userDoc.id,
+    studentName: userDoc.data().displayName || userDoc.data().email,
+    studentEmail: userDoc.data().email
+  };
+}
+
+export function removeStudentFromRoster(classId: string, studentId: string): Promise<void> {
+  return updateDoc(doc(db, 'classes', classId), {
+    students: arrayRemove(studentId),
+    studentCount: increment(-1)
+  });
+}
@@ -0,0 +1,32 @@
+// RMS input level of an audio track from a Web Audio analyser. Speech sits well below full scale, so the
+// raw RMS is stretched to make a meter and a speaking threshold usable.
+const LEVEL_GAIN = 4;
+
+export interface AudioLevelMeter {
+  // 0-1
+  read(): number;
+  close(): void;
+}
+
+export function createAudioLevelMeter(context: AudioContext, track: MediaStreamTrack): AudioLevelMeter {
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  const source = context.createMediaStreamSource(new MediaStream([track]));
+  source.connect(analyser);
+  const samples = new Uint8Array(analyser.fftSize);
+
+  return {
+    read() {
+      analyser.getByteTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) {
+        const value = (sample - 128) / 128;
+        sum += value * value;
+      }
+      return Math.min(Math.sqrt(sum / samples.length) * LEVEL_GAIN, 1);
+    },
+    close() {
+      source.disconnect();
+    }
+  };
+}
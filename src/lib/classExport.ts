@@ -0,0 +1,140 @@
+import { collection, query, where, getDocs } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { downloadBlob, toCsv } from '@/lib/csv';
+import { getSessionEnd } from '@/lib/attendance';
+import { getScorePercentage, isLateResponse, quizFromDoc, quizResponseFromDoc } from '@/lib/quiz';
+import type { Schema } from 'write-excel-file';
+import { AttendanceExportRow, Class, QuizResponse, QuizResultExportRow, StudentAttendance } from '@/types';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+// Column order of the export files; see the schema notes on the row types
+export const QUIZ_RESULT_COLUMNS: (keyof QuizResultExportRow)[] = [
+  'classId',
+  'classTitle',
+  'quizId',
+  'quizTitle',
+  'studentId',
+  'studentName',
+  'submittedAt',
+  'score',
+  'maxScore',
+  'percentage',
+  'correctCount',
+  'totalQuestions'
+];
+
+export const ATTENDANCE_COLUMNS: (keyof AttendanceExportRow)[] = [
+  'classId',
+  'classTitle',
+  'studentId',
+  'studentName',
+  'studentEmail',
+  'status',
+  'joinedAt',
+  'leftAt',
+  'durationMinutes'
+];
+
+// Submissions that arrived after a quiz's deadline are rejected, so they are left out as in the results dialog
+export async function fetchClassQuizResponses(classId: string): Promise<QuizResponse[]> {
+  const [quizSnapshot, responseSnapshot] = await Promise.all([
+    getDocs(query(collection(db, 'quizzes'), where('classId', '==', classId))),
+    getDocs(query(collection(db, 'quizResponses'), where('classId', '==', classId)))
+  ]);
+  const quizzes = new Map(quizSnapshot.docs.map(quizDoc => [quizDoc.id, quizFromDoc(quizDoc.id, quizDoc.data())]));
+
+  return responseSnapshot.docs
+    .map(responseDoc => quizResponseFromDoc(responseDoc.id, responseDoc.data()))
+    .filter(response => {
+      const quiz = quizzes.get(response.quizId);
+      return !quiz || !isLateResponse(quiz, response);
+    })
+    .sort((a, b) => a.submittedAt.getTime() - b.submittedAt.getTime());
+}
+
+export function toQuizResultRows(classItem: Class, responses: QuizResponse[]): QuizResultExportRow[] {
+  return responses.map(response => ({
+    classId: classItem.id,
+    classTitle: classItem.title,
+    quizId: response.quizId,
+    quizTitle: response.quizTitle,
+    studentId: response.studentId,
+    studentName: response.studentName,
+    submittedAt: response.submittedAt,
+    score: response.score,
+    maxScore: response.maxScore,
+    percentage: getScorePercentage(response),
+    correctCount: response.correctCount,
+    totalQuestions: response.totalQuestions
+  }));
+}
+
+// One row per session; sessions that were never closed end at their last heartbeat
+export function toAttendanceRows(classItem: Class, attendance: StudentAttendance[]): AttendanceExportRow[] {
+  return attendance.map(record => {
+    const tracked = !!(record.leftAt || record.lastSeenAt);
+    const end = tracked ? getSessionEnd(record, classItem) : null;
+
+    return {
+      classId: classItem.id,
+      classTitle: classItem.title,
+      studentId: record.studentId,
+      studentName: record.studentName,
+      studentEmail: record.studentEmail || '',
+      status: record.status,
+      joinedAt: record.joinedAt,
+      leftAt: end,
+      durationMinutes: end
+        ? Math.round((end.getTime() - record.joinedAt.getTime()) / 60000)
+        : record.duration || null
+    };
+  });
+}
+
+type ExportValue = string | number | Date | null;
+
+function toCsvCell(value: ExportValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+// "Intro to Physics" -> "intro-to-physics"
+function toFileSlug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'class';
+}
+
+export async function exportRows<Row extends { [K in keyof Row]: ExportValue }>(
+  rows: Row[],
+  columns: (keyof Row & string)[],
+  format: ExportFormat,
+  fileBaseName: string
+): Promise<void> {
+  const fileName = `${toFileSlug(fileBaseName)}.${format}`;
+
+  if (format === 'csv') {
+    const csv = toCsv([columns, ...rows.map(row => columns.map(column => toCsvCell(row[column])))]);
+    // The byte order mark makes Excel read the file as UTF-8
+    downloadBlob(new Blob(['\uFEFF' + csv], { type: 'text/csv;charset=utf-8' }), fileName);
+    return;
+  }
+
+  // Loaded on demand so the spreadsheet writer stays out of the main bundle
+  const { default: writeXlsxFile } = await import('write-excel-file');
+  const schema: Schema<Row> = columns.map(column => {
+    const sample = rows.map(row => row[column]).find(value => value !== null);
+    const type = sample instanceof Date ? Date : typeof sample === 'number' ? Number : String;
+
+    return {
+      column,
+      type,
+      format: type === Date ? 'yyyy-mm-dd hh:mm' : undefined,
+      width: type === Date ? 18 : Math.max(column.length + 2, 12),
+      value: (row: Row) => row[column] ?? undefined
+    };
+  });
+
+  const blob = await writeXlsxFile(rows, { schema, sheet: 'Export' });
+  downloadBlob(blob, fileName);
+}
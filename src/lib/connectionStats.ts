@@ -0,0 +1,185 @@
+import { downloadBlob } from '@/lib/csv';
+
+// Periodic getStats() samples per peer connection, turned into a 0-100 quality score for the tiles and the
+// teacher's network health panel. Rates and losses are deltas since the previous sample, so a past burst
+// does not drag the score down forever.
+
+export const STATS_SAMPLE_INTERVAL_MS = 3000;
+// Five minutes of history per peer at the sampling interval
+const STATS_HISTORY_LENGTH = 100;
+
+export type QualityLevel = 'excellent' | 'good' | 'fair' | 'poor';
+
+export interface ConnectionStatsSample {
+  timestamp: number;
+  // Seconds, from the selected candidate pair
+  roundTripTime?: number;
+  // Seconds, worst of the incoming streams
+  jitter?: number;
+  // Fractions 0-1: what this side lost receiving, and what the peer reports losing from us
+  inboundPacketLoss: number;
+  outboundPacketLoss: number;
+  // Bits per second
+  inboundBitrate: number;
+  outboundBitrate: number;
+  availableOutgoingBitrate?: number;
+  framesDropped: number;
+  // 'relay' means the connection goes through TURN
+  localCandidateType?: RTCIceCandidateType;
+  remoteCandidateType?: RTCIceCandidateType;
+  score: number;
+  level: QualityLevel;
+}
+
+// Running counters from the previous sample
+export interface StatsTotals {
+  timestamp: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+  remotePacketsSent: number;
+  remotePacketsLost: number;
+  framesDropped: number;
+}
+
+// Inbound stats count lost and received packets separately, so the expected total is their sum
+function inboundLossFraction(lost: number, received: number): number {
+  const total = lost + received;
+  return total > 0 ? Math.max(lost, 0) / total : 0;
+}
+
+// The peer's lost count is a share of what we sent, not an addition to it
+function outboundLossFraction(lost: number, sent: number): number {
+  return sent > 0 ? Math.min(Math.max(lost / sent, 0), 1) : 0;
+}
+
+// Starts from 100 and takes off points for latency, loss and jitter, roughly in line with how each one is
+// felt in a call: loss hurts most, then a round trip past a few hundred milliseconds
+export function scoreConnection(
+  sample: Pick<ConnectionStatsSample, 'roundTripTime' | 'jitter' | 'inboundPacketLoss' | 'outboundPacketLoss'>
+): { score: number; level: QualityLevel } {
+  let score = 100;
+  const rtt = sample.roundTripTime || 0;
+  if (rtt > 0.15) score -= Math.min((rtt - 0.15) * 100, 40);
+  score -= Math.min(Math.max(sample.inboundPacketLoss, sample.outboundPacketLoss) * 400, 50);
+  const jitter = sample.jitter || 0;
+  if (jitter > 0.03) score -= Math.min((jitter - 0.03) * 500, 20);
+
+  score = Math.max(Math.round(score), 0);
+  const level: QualityLevel = score >= 80 ? 'excellent' : score >= 60 ? 'good' : score >= 40 ? 'fair' : 'poor';
+  return { score, level };
+}
+
+export function isStruggling(sample: ConnectionStatsSample): boolean {
+  return sample.level === 'fair' || sample.level === 'poor';
+}
+
+export async function collectConnectionStats(
+  connection: RTCPeerConnection,
+  previous: StatsTotals | null
+): Promise<{ sample: ConnectionStatsSample; totals: StatsTotals }> {
+  const report = await connection.getStats();
+  const totals: StatsTotals = {
+    timestamp: Date.now(),
+    bytesSent: 0,
+    bytesReceived: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+    remotePacketsSent: 0,
+    remotePacketsLost: 0,
+    framesDropped: 0
+  };
+  let jitter: number | undefined;
+  let selectedPairId: string | undefined;
+  let nominatedPair: RTCIceCandidatePairStats | undefined;
+
+  report.forEach(stats => {
+    switch (stats.type) {
+      case 'transport':
+        selectedPairId = stats.selectedCandidatePairId;
+        break;
+      case 'candidate-pair':
+        if (stats.nominated && stats.state === 'succeeded') nominatedPair = stats;
+        break;
+      case 'inbound-rtp':
+        totals.bytesReceived += stats.bytesReceived || 0;
+        totals.packetsReceived += stats.packetsReceived || 0;
+        totals.packetsLost += stats.packetsLost || 0;
+        totals.framesDropped += stats.framesDropped || 0;
+        if (stats.jitter !== undefined) jitter = Math.max(jitter || 0, stats.jitter);
+        break;
+      case 'outbound-rtp':
+        totals.bytesSent += stats.bytesSent || 0;
+        totals.remotePacketsSent += stats.packetsSent || 0;
+        break;
+      case 'remote-inbound-rtp':
+        totals.remotePacketsLost += stats.packetsLost || 0;
+        break;
+    }
+  });
+
+  // Firefox has no transport report and only marks the nominated pair
+  const pair: RTCIceCandidatePairStats | undefined = (selectedPairId && report.get(selectedPairId)) || nominatedPair;
+  const localCandidate = pair && report.get(pair.localCandidateId);
+  const remoteCandidate = pair && report.get(pair.remoteCandidateId);
+
+  const seconds = previous ? (totals.timestamp - previous.timestamp) / 1000 : 0;
+  const rate = (current: number, before: number) => (seconds > 0 ? ((current - before) * 8) / seconds : 0);
+
+  const partial = {
+    timestamp: totals.timestamp,
+    roundTripTime: pair?.currentRoundTripTime,
+    jitter,
+    inboundPacketLoss: inboundLossFraction(
+      totals.packetsLost - (previous?.packetsLost || 0),
+      totals.packetsReceived - (previous?.packetsReceived || 0)
+    ),
+    outboundPacketLoss: outboundLossFraction(
+      totals.remotePacketsLost - (previous?.remotePacketsLost || 0),
+      totals.remotePacketsSent - (previous?.remotePacketsSent || 0)
+    ),
+    inboundBitrate: rate(totals.bytesReceived, previous?.bytesReceived || 0),
+    outboundBitrate: rate(totals.bytesSent, previous?.bytesSent || 0),
+    availableOutgoingBitrate: pair?.availableOutgoingBitrate,
+    framesDropped: Math.max(totals.framesDropped - (previous?.framesDropped || 0), 0),
+    localCandidateType: localCandidate?.candidateType,
+    remoteCandidateType: remoteCandidate?.candidateType
+  };
+
+  return { sample: { ...partial, ...scoreConnection(partial) }, totals };
+}
+
+// One line for tooltips and the health panel
+export function formatStatsSummary(sample: ConnectionStatsSample): string {
+  const parts = [`Score ${sample.score}`];
+  if (sample.roundTripTime !== undefined) parts.push(`${Math.round(sample.roundTripTime * 1000)} ms`);
+  const loss = Math.max(sample.inboundPacketLoss, sample.outboundPacketLoss);
+  parts.push(`${(loss * 100).toFixed(1)}% loss`);
+  if (sample.localCandidateType === 'relay' || sample.remoteCandidateType === 'relay') parts.push('via TURN');
+  return parts.join(' · ');
+}
+
+export function appendStatsHistory(history: ConnectionStatsSample[], sample: ConnectionStatsSample): void {
+  history.push(sample);
+  if (history.length > STATS_HISTORY_LENGTH) history.splice(0, history.length - STATS_HISTORY_LENGTH);
+}
+
+export function exportConnectionStats(
+  history: Record<string, ConnectionStatsSample[]>,
+  metadata: { classId: string; userId: string; names: Record<string, string> }
+): void {
+  const data = {
+    exportedAt: new Date().toISOString(),
+    classId: metadata.classId,
+    userId: metadata.userId,
+    userAgent: navigator.userAgent,
+    peers: Object.entries(history).map(([peerId, samples]) => ({
+      peerId,
+      name: metadata.names[peerId] || null,
+      samples: samples.map(sample => ({ ...sample, timestamp: new Date(sample.timestamp).toISOString() }))
+    }))
+  };
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `connection-stats-${metadata.classId}-${Date.now()}.json`);
+}
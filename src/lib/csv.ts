@@ -0,0 +1,96 @@
+export interface CsvRecord<T> {
+  // 1-based line in the file where the record starts, so messages can point at it
+  line: number;
+  fields: T;
+}
+
+// Minimal RFC 4180 CSV support: quoted fields, escaped quotes ("") and newlines inside quotes
+function parseCsvRecords(text: string): CsvRecord<string[]>[] {
+  const rows: CsvRecord<string[]>[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  // Spreadsheet apps often prepend a byte order mark
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  return rows.filter(record => record.fields.some(cell => cell.trim()));
+}
+
+export function parseCsv(text: string): string[][] {
+  return parseCsvRecords(text).map(record => record.fields);
+}
+
+// Header row becomes the keys, lowercased and trimmed
+export function parseCsvObjects(text: string): CsvRecord<Record<string, string>>[] {
+  const [header, ...rows] = parseCsvRecords(text);
+  if (!header) return [];
+
+  const keys = header.fields.map(key => key.trim().toLowerCase());
+  return rows.map(({ line, fields }) => ({
+    line,
+    fields: Object.fromEntries(keys.map((key, index) => [key, (fields[index] || '').trim()]))
+  }));
+}
+
+// Spreadsheet apps run cells starting with these as formulas; plain numbers like "-5" are left alone
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) && !/^[-+]?\d+(\.\d+)?$/.test(value) ? `'${value}` : value;
+}
+
+function escapeCsvField(value: string): string {
+  const safe = neutralizeFormula(value);
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,33 @@
+type Listener<T> = (detail: T) => void;
+
+// Small typed event emitter. Listeners belong to one instance, unlike window events, and a throwing
+// listener cannot stop the others from running.
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns the unsubscribe, to be called from an effect cleanup
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const listeners = this.listeners[event] || new Set<Listener<Events[K]>>();
+    this.listeners[event] = listeners;
+    listeners.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(event: K, detail: Events[K]): void {
+    this.listeners[event]?.forEach(listener => {
+      try {
+        listener(detail);
+      } catch (error) {
+        console.error(`Error in ${String(event)} listener:`, error);
+      }
+    });
+  }
+}
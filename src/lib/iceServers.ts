@@ -0,0 +1,163 @@
+// ICE server configuration for WebRTCManager, driven by environment variables (see .env.example):
+//   VITE_ICE_STUN_URLS             comma-separated STUN urls (default: Google's public STUN servers)
+//   VITE_ICE_TURN_URLS             comma-separated turn:/turns: urls
+//   VITE_ICE_TURN_USERNAME         static long-term TURN credentials, used as-is
+//   VITE_ICE_TURN_CREDENTIAL
+//   VITE_ICE_TURN_CREDENTIALS_URL  endpoint returning time-limited TURN credentials (preferred in production)
+//   VITE_ICE_TURN_SHARED_SECRET    coturn static-auth-secret; signs credentials in the browser, local testing only
+//   VITE_ICE_TRANSPORT_POLICY      "all" (default) or "relay" to force every connection through TURN
+
+const DEFAULT_STUN_URLS = [
+  'stun:stun.l.google.com:19302',
+  'stun:stun1.l.google.com:19302',
+  'stun:stun2.l.google.com:19302'
+];
+
+// Default lifetime requested for time-limited credentials, long enough to cover a class
+const DEFAULT_CREDENTIAL_TTL_SECONDS = 24 * 60 * 60;
+// Fetch fresh credentials a little before the old ones expire
+const CREDENTIAL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface TurnCredentials {
+  iceServers: RTCIceServer[];
+  expiresAt: number;
+}
+
+// Pluggable source of TURN servers and credentials for the signed-in user
+export interface TurnCredentialProvider {
+  getCredentials(userId: string): Promise<TurnCredentials>;
+}
+
+function parseUrlList(value: string | undefined): string[] {
+  return (value || '').split(',').map(url => url.trim()).filter(Boolean);
+}
+
+export function getIceTransportPolicy(): RTCIceTransportPolicy {
+  return import.meta.env.VITE_ICE_TRANSPORT_POLICY === 'relay' ? 'relay' : 'all';
+}
+
+function getStunServers(): RTCIceServer[] {
+  const urls = parseUrlList(import.meta.env.VITE_ICE_STUN_URLS);
+  return [{ urls: urls.length > 0 ? urls : DEFAULT_STUN_URLS }];
+}
+
+// Long-term credentials that never expire, e.g. a managed TURN service's static user
+export function createStaticCredentialProvider(urls: string[], username: string, credential: string): TurnCredentialProvider {
+  return {
+    getCredentials: async () => ({
+      iceServers: [{ urls, username, credential }],
+      expiresAt: Infinity
+    })
+  };
+}
+
+// Accepts the TURN REST API response ({ username, password, ttl, uris }) as served by coturn-style
+// credential services, or a ready-made { iceServers } list as returned by most hosted TURN providers
+export function createRestCredentialProvider(endpoint: string): TurnCredentialProvider {
+  return {
+    getCredentials: async (userId) => {
+      const url = new URL(endpoint, window.location.origin);
+      url.searchParams.set('userId', userId);
+
+      const response = await fetch(url.toString(), { credentials: 'include' });
+      if (!response.ok) {
+        throw new Error(`TURN credentials request failed with status ${response.status}`);
+      }
+
+      const data = await response.json();
+      const ttlMs = (Number(data.ttl) || DEFAULT_CREDENTIAL_TTL_SECONDS) * 1000;
+
+      if (Array.isArray(data.iceServers)) {
+        return { iceServers: data.iceServers, expiresAt: Date.now() + ttlMs };
+      }
+      return {
+        iceServers: [{ urls: data.uris, username: data.username, credential: data.password }],
+        expiresAt: Date.now() + ttlMs
+      };
+    }
+  };
+}
+
+// coturn's use-auth-secret scheme: username "<expiry>:<userId>", password base64(HMAC-SHA1(secret, username)).
+// The secret must never ship in a production build; this exists to test against a local coturn.
+export function createSharedSecretCredentialProvider(
+  urls: string[],
+  secret: string,
+  ttlSeconds = DEFAULT_CREDENTIAL_TTL_SECONDS
+): TurnCredentialProvider {
+  return {
+    getCredentials: async (userId) => {
+      const expiresAtSeconds = Math.floor(Date.now() / 1000) + ttlSeconds;
+      const username = `${expiresAtSeconds}:${userId}`;
+      const encoder = new TextEncoder();
+      const key = await crypto.subtle.importKey(
+        'raw',
+        encoder.encode(secret),
+        { name: 'HMAC', hash: 'SHA-1' },
+        false,
+        ['sign']
+      );
+      const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(username));
+      const credential = btoa(String.fromCharCode(...new Uint8Array(signature)));
+
+      return { iceServers: [{ urls, username, credential }], expiresAt: expiresAtSeconds * 1000 };
+    }
+  };
+}
+
+function createProviderFromEnv(): TurnCredentialProvider | null {
+  const env = import.meta.env;
+  const turnUrls = parseUrlList(env.VITE_ICE_TURN_URLS);
+
+  if (env.VITE_ICE_TURN_CREDENTIALS_URL) {
+    return createRestCredentialProvider(env.VITE_ICE_TURN_CREDENTIALS_URL);
+  }
+  if (turnUrls.length === 0) return null;
+  if (env.VITE_ICE_TURN_SHARED_SECRET) {
+    return createSharedSecretCredentialProvider(turnUrls, env.VITE_ICE_TURN_SHARED_SECRET);
+  }
+  return createStaticCredentialProvider(turnUrls, env.VITE_ICE_TURN_USERNAME || '', env.VITE_ICE_TURN_CREDENTIAL || '');
+}
+
+let turnProvider: TurnCredentialProvider | null = createProviderFromEnv();
+let cachedCredentials: { userId: string; credentials: TurnCredentials } | null = null;
+
+// Swap the credential source at runtime, e.g. for a deployment with its own auth
+export function setTurnCredentialProvider(provider: TurnCredentialProvider | null) {
+  turnProvider = provider;
+  cachedCredentials = null;
+}
+
+async function getTurnServers(userId: string): Promise<RTCIceServer[]> {
+  if (!turnProvider) return [];
+
+  const cached = cachedCredentials;
+  if (cached && cached.userId === userId && cached.credentials.expiresAt - CREDENTIAL_REFRESH_MARGIN_MS > Date.now()) {
+    return cached.credentials.iceServers;
+  }
+
+  try {
+    const credentials = await turnProvider.getCredentials(userId);
+    cachedCredentials = { userId, credentials };
+    return credentials.iceServers;
+  } catch (error) {
+    // Without TURN most connections still work over STUN, so carry on rather than fail the class
+    console.error('Error fetching TURN credentials:', error);
+    return [];
+  }
+}
+
+// Resolved before every new peer connection so long classes never connect with expired credentials
+export async function getIceConfiguration(userId: string): Promise<RTCConfiguration> {
+  const turnServers = await getTurnServers(userId);
+  const iceTransportPolicy = getIceTransportPolicy();
+
+  if (iceTransportPolicy === 'relay' && turnServers.length === 0) {
+    console.warn('ICE transport policy is "relay" but no TURN server is configured; connections will fail');
+  }
+
+  return {
+    iceServers: [...getStunServers(), ...turnServers],
+    iceTransportPolicy
+  };
+}
@@ -0,0 +1,115 @@
+import type { MediaKind } from '@/lib/WebRTCManager';
+
+// Camera, microphone and speaker selection. Choices are remembered in localStorage, so each browser keeps
+// its own (device ids are only meaningful on the machine that reported them).
+
+const PREFERENCES_KEY = 'classroom.devicePreferences';
+
+export interface DevicePreferences {
+  audioInputId?: string;
+  videoInputId?: string;
+  audioOutputId?: string;
+  joinMuted: boolean;
+  joinWithCamera: boolean;
+}
+
+export interface MediaDeviceLists {
+  audioInputs: MediaDeviceInfo[];
+  videoInputs: MediaDeviceInfo[];
+  audioOutputs: MediaDeviceInfo[];
+}
+
+export function loadDevicePreferences(defaults: Pick<DevicePreferences, 'joinMuted' | 'joinWithCamera'>): DevicePreferences {
+  try {
+    const saved = localStorage.getItem(PREFERENCES_KEY);
+    return saved ? { ...defaults, ...JSON.parse(saved) } : defaults;
+  } catch (error) {
+    console.error('Error reading device preferences:', error);
+    return defaults;
+  }
+}
+
+export function saveDevicePreferences(preferences: DevicePreferences): void {
+  try {
+    localStorage.setItem(PREFERENCES_KEY, JSON.stringify(preferences));
+  } catch (error) {
+    console.error('Error saving device preferences:', error);
+  }
+}
+
+// Labels are empty until the user has granted access to at least one device
+export async function listMediaDevices(): Promise<MediaDeviceLists> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  const withId = devices.filter(device => device.deviceId);
+  return {
+    audioInputs: withId.filter(device => device.kind === 'audioinput'),
+    videoInputs: withId.filter(device => device.kind === 'videoinput'),
+    audioOutputs: withId.filter(device => device.kind === 'audiooutput')
+  };
+}
+
+export function deviceLabel(device: MediaDeviceInfo, index: number): string {
+  if (device.label) return device.label;
+  const kind = device.kind === 'videoinput' ? 'Camera' : device.kind === 'audioinput' ? 'Microphone' : 'Speaker';
+  return `${kind} ${index + 1}`;
+}
+
+// A saved device that has since been unplugged falls back to the browser default
+export function availableDeviceId(deviceId: string | undefined, devices: MediaDeviceInfo[]): string | undefined {
+  return deviceId && devices.some(device => device.deviceId === deviceId) ? deviceId : undefined;
+}
+
+export function getMediaConstraints(kind: MediaKind, deviceId?: string): MediaTrackConstraints {
+  const constraints: MediaTrackConstraints = kind === 'video'
+    ? {
+        width: { ideal: 1280 },
+        height: { ideal: 720 },
+        frameRate: { ideal: 30 }
+      }
+    : {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        channelCount: 2
+      };
+  return deviceId ? { ...constraints, deviceId: { exact: deviceId } } : constraints;
+}
+
+// Speaker selection needs setSinkId, which Firefox only has behind a flag and Safari lacks
+export function supportsAudioOutputSelection(): boolean {
+  return typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+}
+
+export async function applyAudioOutput(element: HTMLMediaElement, deviceId: string | undefined): Promise<void> {
+  if (!supportsAudioOutputSelection()) return;
+  const sinkId = deviceId || '';
+  const media = element as HTMLMediaElement & { sinkId: string; setSinkId: (id: string) => Promise<void> };
+  if (media.sinkId === sinkId) return;
+  try {
+    await media.setSinkId(sinkId);
+  } catch (error) {
+    console.error('Error setting audio output:', error);
+  }
+}
+
+// A short beep on the chosen speaker, routed through an audio element since that is what setSinkId applies to
+export async function playTestSound(deviceId: string | undefined): Promise<void> {
+  const context = new AudioContext();
+  const oscillator = context.createOscillator();
+  const gain = context.createGain();
+  const destination = context.createMediaStreamDestination();
+  oscillator.frequency.value = 660;
+  gain.gain.value = 0.2;
+  oscillator.connect(gain).connect(destination);
+
+  const audio = new Audio();
+  audio.srcObject = destination.stream;
+  await applyAudioOutput(audio, deviceId);
+  oscillator.start();
+  await audio.play();
+  setTimeout(() => {
+    oscillator.stop();
+    audio.pause();
+    context.close();
+  }, 600);
+}
@@ -0,0 +1,34 @@
+import { doc, updateDoc } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { Class, MediaMode, MediaServer } from '@/types';
+
+// Each student in a mesh uploads one stream per classmate, so discussion mode only suits small groups.
+// Above this many students in the room it falls back to lecture connections until enough leave.
+export const MESH_PARTICIPANT_LIMIT = 8;
+
+export function getMediaMode(classItem: Class | null): MediaMode {
+  return classItem?.mediaMode || 'lecture';
+}
+
+// In SFU mode the media server does the fan-out, so discussion mode has no mesh size limit
+export function isMeshActive(classItem: Class | null, studentCount: number): boolean {
+  return getMediaMode(classItem) === 'discussion' && getMediaServer(classItem) === 'p2p' &&
+    studentCount <= MESH_PARTICIPANT_LIMIT;
+}
+
+// SFU mode needs VITE_SFU_URL; without it classes set to 'sfu' fall back to peer connections
+export function isSfuAvailable(): boolean {
+  return !!import.meta.env.VITE_SFU_URL;
+}
+
+export function getMediaServer(classItem: Class | null): MediaServer {
+  return classItem?.mediaServer === 'sfu' && isSfuAvailable() ? 'sfu' : 'p2p';
+}
+
+export function setMediaMode(classId: string, mediaMode: MediaMode): Promise<void> {
+  return updateDoc(doc(db, 'classes', classId), { mediaMode });
+}
+
+export function setMediaServer(classId: string, mediaServer: MediaServer): Promise<void> {
+  return updateDoc(doc(db, 'classes', classId), { mediaServer });
+}
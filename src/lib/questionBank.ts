@@ -0,0 +1,139 @@
+import {
+  collection,
+  addDoc,
+  doc,
+  updateDoc,
+  deleteDoc,
+  writeBatch,
+  increment,
+  arrayUnion,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { cleanQuestion } from '@/lib/quiz';
+import { BankQuestion, QuestionBankUsage, QuizQuestion } from '@/types';
+
+export interface BankQuestionDraft {
+  question: QuizQuestion;
+  tags: string[];
+  topic: string;
+}
+
+export function bankQuestionFromDoc(id: string, data: DocumentData): BankQuestion {
+  return {
+    id,
+    teacherId: data.teacherId,
+    // The document id doubles as the question id when the question is used in a quiz
+    question: { ...data.question, id, type: data.question?.type || 'single' },
+    tags: data.tags || [],
+    topic: data.topic || '',
+    createdAt: data.createdAt?.toDate() || new Date(),
+    updatedAt: data.updatedAt?.toDate() || data.createdAt?.toDate() || new Date(),
+    usageCount: data.usageCount || 0,
+    lastUsedAt: data.lastUsedAt?.toDate(),
+    usageHistory: (data.usageHistory || []).map((usage: DocumentData) => ({
+      classId: usage.classId,
+      classTitle: usage.classTitle || 'Class',
+      quizId: usage.quizId,
+      usedAt: usage.usedAt?.toDate() || new Date()
+    }))
+  };
+}
+
+// "Algebra, equations ,algebra" -> ['algebra', 'equations']
+export function parseTags(input: string): string[] {
+  const tags = input.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function getBankTags(questions: BankQuestion[]): string[] {
+  return Array.from(new Set(questions.flatMap(question => question.tags))).sort();
+}
+
+export function getBankTopics(questions: BankQuestion[]): string[] {
+  return Array.from(new Set(questions.map(question => question.topic).filter(Boolean))).sort();
+}
+
+export function filterBankQuestions(
+  questions: BankQuestion[],
+  search: string,
+  tag: string | null,
+  topic: string | null
+): BankQuestion[] {
+  const term = search.trim().toLowerCase();
+
+  return questions.filter(bankQuestion => {
+    if (tag && !bankQuestion.tags.includes(tag)) return false;
+    if (topic && bankQuestion.topic !== topic) return false;
+    if (!term) return true;
+
+    return bankQuestion.question.prompt.toLowerCase().includes(term) ||
+      bankQuestion.topic.toLowerCase().includes(term) ||
+      bankQuestion.tags.some(questionTag => questionTag.includes(term));
+  });
+}
+
+export async function saveBankQuestion(teacherId: string, draft: BankQuestionDraft, existingId?: string): Promise<void> {
+  const data = {
+    question: cleanQuestion(draft.question),
+    tags: draft.tags,
+    topic: draft.topic.trim(),
+    updatedAt: Timestamp.fromDate(new Date())
+  };
+
+  if (existingId) {
+    await updateDoc(doc(db, 'questionBank', existingId), data);
+  } else {
+    await addDoc(collection(db, 'questionBank'), {
+      ...data,
+      teacherId,
+      createdAt: Timestamp.fromDate(new Date()),
+      usageCount: 0,
+      usageHistory: []
+    });
+  }
+}
+
+// Firestore batches are limited to 500 writes
+const BATCH_LIMIT = 500;
+
+export async function importBankQuestions(teacherId: string, questions: QuizQuestion[], topic: string): Promise<void> {
+  const now = Timestamp.fromDate(new Date());
+
+  for (let start = 0; start < questions.length; start += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    questions.slice(start, start + BATCH_LIMIT).forEach(question => {
+      batch.set(doc(collection(db, 'questionBank')), {
+        question: cleanQuestion(question),
+        tags: [],
+        topic: topic.trim(),
+        teacherId,
+        createdAt: now,
+        updatedAt: now,
+        usageCount: 0,
+        usageHistory: []
+      });
+    });
+    await batch.commit();
+  }
+}
+
+export async function deleteBankQuestion(questionId: string): Promise<void> {
+  await deleteDoc(doc(db, 'questionBank', questionId));
+}
+
+export async function recordBankUsage(questionIds: string[], usage: Omit<QuestionBankUsage, 'usedAt'>): Promise<void> {
+  if (questionIds.length === 0) return;
+
+  const usedAt = Timestamp.fromDate(new Date());
+  const batch = writeBatch(db);
+  questionIds.forEach(questionId => {
+    batch.update(doc(db, 'questionBank', questionId), {
+      usageCount: increment(1),
+      lastUsedAt: usedAt,
+      usageHistory: arrayUnion({ ...usage, usedAt })
+    });
+  });
+  await batch.commit();
+}
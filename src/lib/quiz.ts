@@ -0,0 +1,375 @@
+import { DocumentData } from 'firebase/firestore';
+import { Quiz, QuizAnswer, QuizQuestion, QuizQuestionType, QuizResponse } from '@/types';
+
+// Network latency allowance before a submission counts as late
+export const LATE_SUBMISSION_GRACE_MS = 2000;
+
+// Option index (single choice, true/false), option indices (multi-select) or typed text (short answer, numeric)
+export type QuizSelection = number | number[] | string | null;
+
+// Selection per question id; null means the question was skipped
+export type QuizSelections = Record<string, QuizSelection>;
+
+export const MIN_OPTIONS = 2;
+export const MAX_OPTIONS = 6;
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+  'single': 'Single choice',
+  'multiple': 'Multi-select',
+  'true-false': 'True / False',
+  'short-answer': 'Short answer',
+  'numeric': 'Numeric'
+};
+
+export function createQuestionId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+export function createEmptyQuestion(type: QuizQuestionType = 'single'): QuizQuestion {
+  const base = { id: createQuestionId(), type, prompt: '', points: 1, correctAnswer: 0 };
+
+  switch (type) {
+    case 'multiple':
+      return { ...base, options: ['', '', '', ''], correctAnswers: [0] };
+    case 'true-false':
+      return { ...base, options: ['True', 'False'] };
+    case 'short-answer':
+      return { ...base, options: [], acceptedAnswers: [''] };
+    case 'numeric':
+      return { ...base, options: [], numericAnswer: 0, tolerance: 0 };
+    default:
+      return { ...base, options: ['', '', '', ''] };
+  }
+}
+
+// Switching type keeps the prompt and points, and the options when moving between choice types
+export function changeQuestionType(question: QuizQuestion, type: QuizQuestionType): QuizQuestion {
+  const next = { ...createEmptyQuestion(type), id: question.id, prompt: question.prompt, points: question.points };
+  const keepOptions = (type === 'single' || type === 'multiple') &&
+    (question.type === 'single' || question.type === 'multiple');
+
+  if (keepOptions) {
+    next.options = question.options;
+    if (type === 'multiple') next.correctAnswers = [question.correctAnswer];
+    else next.correctAnswer = question.correctAnswers?.[0] ?? 0;
+  }
+  return next;
+}
+
+function isOptionIndex(question: QuizQuestion, index: number): boolean {
+  return Number.isInteger(index) && index >= 0 && index < question.options.length;
+}
+
+// A choice question can only be graded when every correct answer points at one of its options
+export function hasValidCorrectAnswers(question: QuizQuestion): boolean {
+  switch (question.type) {
+    case 'multiple': {
+      const correctAnswers = question.correctAnswers || [];
+      return correctAnswers.length > 0 && correctAnswers.every(index => isOptionIndex(question, index));
+    }
+    case 'single':
+    case 'true-false':
+      return isOptionIndex(question, question.correctAnswer);
+    default:
+      return true;
+  }
+}
+
+export function isQuestionComplete(question: QuizQuestion): boolean {
+  if (!question.prompt.trim() || question.points <= 0) return false;
+
+  switch (question.type) {
+    case 'short-answer':
+      return (question.acceptedAnswers || []).some(answer => answer.trim());
+    case 'numeric':
+      return Number.isFinite(question.numericAnswer) && (question.tolerance || 0) >= 0;
+    default:
+      return question.options.length >= MIN_OPTIONS &&
+        question.options.every(option => option.trim()) &&
+        hasValidCorrectAnswers(question);
+  }
+}
+
+// Trims authored text before the question is saved
+export function cleanQuestion(question: QuizQuestion): QuizQuestion {
+  return {
+    ...question,
+    prompt: question.prompt.trim(),
+    options: question.options.map(option => option.trim()),
+    ...(question.acceptedAnswers && {
+      acceptedAnswers: question.acceptedAnswers.map(answer => answer.trim()).filter(Boolean)
+    })
+  };
+}
+
+export function isChoiceQuestion(question: Pick<QuizQuestion, 'type'>): boolean {
+  return question.type === 'single' || question.type === 'multiple' || question.type === 'true-false';
+}
+
+export function hasAnswer(selection: QuizSelection | undefined): boolean {
+  if (selection === null || selection === undefined) return false;
+  if (Array.isArray(selection)) return selection.length > 0;
+  if (typeof selection === 'string') return selection.trim().length > 0;
+  return true;
+}
+
+// Short answers match case-insensitively and ignore extra whitespace
+export function normalizeTextAnswer(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Accepts a decimal comma so "3,5" and "3.5" grade the same
+export function parseNumericAnswer(text: string): number | null {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) return null;
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function getCorrectText(question: QuizQuestion): string {
+  switch (question.type) {
+    case 'multiple':
+      return (question.correctAnswers || []).map(index => question.options[index]).filter(Boolean).join(', ');
+    case 'short-answer':
+      return (question.acceptedAnswers || []).join(' / ');
+    case 'numeric':
+      return question.tolerance
+        ? `${question.numericAnswer} ± ${question.tolerance}`
+        : `${question.numericAnswer ?? ''}`;
+    default:
+      return question.options[question.correctAnswer] || '';
+  }
+}
+
+export function isNumericAnswerCorrect(question: QuizQuestion, value: number): boolean {
+  if (question.numericAnswer === undefined) return false;
+  return Math.abs(value - question.numericAnswer) <= (question.tolerance || 0);
+}
+
+export function isTextAnswerAccepted(question: QuizQuestion, text: string): boolean {
+  const normalized = normalizeTextAnswer(text);
+  return !!normalized && (question.acceptedAnswers || []).some(accepted => normalizeTextAnswer(accepted) === normalized);
+}
+
+export function getTotalPoints(questions: QuizQuestion[]): number {
+  return questions.reduce((total, question) => total + question.points, 0);
+}
+
+// Quizzes created before multi-question support stored a single question on the document itself
+export function quizFromDoc(id: string, data: DocumentData): Quiz {
+  const questions: QuizQuestion[] = Array.isArray(data.questions) && data.questions.length > 0
+    ? data.questions.map((question: QuizQuestion) => ({ ...question, type: question.type || 'single' }))
+    : [{
+        id: 'q1',
+        type: 'single',
+        prompt: data.question || '',
+        options: data.options || [],
+        correctAnswer: data.correctAnswer || 0,
+        points: 1
+      }];
+
+  return {
+    id,
+    classId: data.classId,
+    teacherId: data.teacherId,
+    teacherName: data.teacherName || '',
+    title: data.title || data.question || 'Quiz',
+    questions,
+    totalPoints: data.totalPoints || getTotalPoints(questions),
+    createdAt: data.createdAt?.toDate() || new Date(),
+    isActive: !!data.isActive,
+    timeLimitSeconds: data.timeLimitSeconds || undefined,
+    startedAt: data.startedAt?.toDate(),
+    closedAt: data.closedAt?.toDate()
+  };
+}
+
+export function quizResponseFromDoc(id: string, data: DocumentData): QuizResponse {
+  const answers: QuizAnswer[] = Array.isArray(data.answers)
+    ? data.answers.map((answer: QuizAnswer) => ({ ...answer, questionType: answer.questionType || 'single' }))
+    : [{
+        questionId: 'q1',
+        questionType: 'single',
+        prompt: data.question || '',
+        selectedOption: typeof data.selectedOption === 'number' ? data.selectedOption : null,
+        selectedText: data.studentAnswer || '',
+        correctText: data.correctOption || '',
+        isCorrect: !!data.isCorrect,
+        points: 1,
+        pointsAwarded: data.isCorrect ? 1 : 0
+      }];
+
+  const score = typeof data.score === 'number' && Array.isArray(data.answers)
+    ? data.score
+    : answers.reduce((total, answer) => total + answer.pointsAwarded, 0);
+
+  return {
+    id,
+    studentId: data.studentId,
+    studentName: data.studentName || 'Student',
+    quizId: data.quizId,
+    quizTitle: data.quizTitle || data.question || 'Quiz',
+    answers,
+    isCorrect: !!data.isCorrect,
+    submittedAt: data.submittedAt?.toDate() || new Date(),
+    classId: data.classId,
+    score,
+    maxScore: data.maxScore || answers.reduce((total, answer) => total + answer.points, 0),
+    correctCount: data.correctCount ?? answers.filter(answer => answer.isCorrect).length,
+    totalQuestions: data.totalQuestions || answers.length
+  };
+}
+
+// Optional fields are only set when present because Firestore rejects undefined values
+export function gradeQuestion(question: QuizQuestion, selection: QuizSelection | undefined): QuizAnswer {
+  const base = {
+    questionId: question.id,
+    questionType: question.type,
+    prompt: question.prompt,
+    correctText: getCorrectText(question),
+    points: question.points
+  };
+  let answer: Omit<QuizAnswer, keyof typeof base | 'pointsAwarded'>;
+
+  switch (question.type) {
+    case 'multiple': {
+      // All-or-nothing: every correct option and no incorrect one
+      const selectedOptions = Array.isArray(selection) ? [...selection].sort((a, b) => a - b) : [];
+      const correctAnswers = [...(question.correctAnswers || [])].sort((a, b) => a - b);
+      answer = {
+        selectedOption: null,
+        selectedOptions,
+        selectedText: selectedOptions.map(index => question.options[index]).filter(Boolean).join(', '),
+        isCorrect: selectedOptions.length === correctAnswers.length &&
+          selectedOptions.every((index, position) => index === correctAnswers[position])
+      };
+      break;
+    }
+    case 'short-answer': {
+      const textAnswer = typeof selection === 'string' ? selection.trim() : '';
+      answer = {
+        selectedOption: null,
+        textAnswer,
+        selectedText: textAnswer,
+        isCorrect: isTextAnswerAccepted(question, textAnswer)
+      };
+      break;
+    }
+    case 'numeric': {
+      const textAnswer = typeof selection === 'string' ? selection.trim() : '';
+      const value = parseNumericAnswer(textAnswer);
+      answer = {
+        selectedOption: null,
+        textAnswer,
+        selectedText: textAnswer,
+        isCorrect: value !== null && isNumericAnswerCorrect(question, value)
+      };
+      break;
+    }
+    default: {
+      const selectedOption = typeof selection === 'number' ? selection : null;
+      answer = {
+        selectedOption,
+        selectedText: selectedOption !== null ? question.options[selectedOption] || '' : '',
+        isCorrect: selectedOption === question.correctAnswer
+      };
+    }
+  }
+
+  return { ...base, ...answer, pointsAwarded: answer.isCorrect ? question.points : 0 };
+}
+
+// Restores what the student picked from a submitted answer
+export function selectionFromAnswer(answer: QuizAnswer): QuizSelection {
+  switch (answer.questionType) {
+    case 'multiple':
+      return answer.selectedOptions || [];
+    case 'short-answer':
+    case 'numeric':
+      return answer.textAnswer ?? answer.selectedText;
+    default:
+      return answer.selectedOption;
+  }
+}
+
+export function gradeQuiz(quiz: Quiz, selections: QuizSelections) {
+  const answers: QuizAnswer[] = quiz.questions.map(question => gradeQuestion(question, selections[question.id]));
+
+  const score = answers.reduce((total, answer) => total + answer.pointsAwarded, 0);
+  const correctCount = answers.filter(answer => answer.isCorrect).length;
+
+  return {
+    answers,
+    score,
+    maxScore: quiz.totalPoints,
+    correctCount,
+    totalQuestions: quiz.questions.length,
+    isCorrect: correctCount === quiz.questions.length
+  };
+}
+
+export function getScorePercentage(response: Pick<QuizResponse, 'score' | 'maxScore'>): number {
+  return response.maxScore > 0 ? Math.round((response.score / response.maxScore) * 100) : 0;
+}
+
+// Deadline in server time (ms), or null for quizzes without a time limit
+export function getQuizDeadline(quiz: Pick<Quiz, 'timeLimitSeconds' | 'startedAt' | 'createdAt'>): number | null {
+  if (!quiz.timeLimitSeconds) return null;
+  const startedAt = quiz.startedAt || quiz.createdAt;
+  return startedAt.getTime() + quiz.timeLimitSeconds * 1000;
+}
+
+export function isLateResponse(quiz: Quiz, response: Pick<QuizResponse, 'submittedAt'>): boolean {
+  const deadline = getQuizDeadline(quiz);
+  return deadline !== null && response.submittedAt.getTime() > deadline + LATE_SUBMISSION_GRACE_MS;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+}
+
+export interface QuizResultBucket {
+  label: string;
+  count: number;
+  isCorrect: boolean;
+}
+
+// Groups the answers to one question into chart rows: one per option for choice questions,
+// one per distinct submitted answer for short-answer and numeric questions
+export function aggregateAnswers(question: QuizQuestion, answers: QuizAnswer[]): QuizResultBucket[] {
+  switch (question.type) {
+    case 'multiple':
+      return question.options.map((option, index) => ({
+        label: option,
+        count: answers.filter(answer => answer.selectedOptions?.includes(index)).length,
+        isCorrect: !!question.correctAnswers?.includes(index)
+      }));
+    case 'short-answer':
+    case 'numeric': {
+      const buckets = new Map<string, QuizResultBucket>();
+      answers.forEach(answer => {
+        const text = (answer.textAnswer ?? answer.selectedText).trim();
+        if (!text) return;
+
+        const numericValue = question.type === 'numeric' ? parseNumericAnswer(text) : null;
+        const key = numericValue !== null ? String(numericValue) : normalizeTextAnswer(text);
+        const bucket = buckets.get(key);
+        if (bucket) {
+          bucket.count++;
+        } else {
+          buckets.set(key, { label: text, count: 1, isCorrect: answer.isCorrect });
+        }
+      });
+      return Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+    }
+    default:
+      return question.options.map((option, index) => ({
+        label: option,
+        count: answers.filter(answer => answer.selectedOption === index).length,
+        isCorrect: index === question.correctAnswer
+      }));
+  }
+}
@@ -0,0 +1,361 @@
+import { z } from 'zod';
+import { parseCsvObjects } from '@/lib/csv';
+import {
+  createEmptyQuestion,
+  createQuestionId,
+  hasValidCorrectAnswers,
+  isChoiceQuestion,
+  isQuestionComplete,
+  MAX_OPTIONS,
+  parseNumericAnswer
+} from '@/lib/quiz';
+import { QuizImportCsvRow, QuizQuestion, QuizQuestionType } from '@/types';
+
+export interface ImportedQuiz {
+  title: string;
+  questions: QuizQuestion[];
+  // One message per question that was skipped
+  warnings: string[];
+}
+
+export const QUIZ_IMPORT_ACCEPT = '.csv,.json,.gift,.txt';
+
+const QUESTION_TYPES: QuizQuestionType[] = ['single', 'multiple', 'true-false', 'short-answer', 'numeric'];
+
+export async function parseQuizFile(file: File): Promise<ImportedQuiz> {
+  const text = await file.text();
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  switch (extension) {
+    case 'csv':
+      return parseQuizCsv(text, baseName);
+    case 'json':
+      return parseQuizJson(text, baseName);
+    case 'gift':
+    case 'txt':
+      return parseGift(text, baseName);
+    default:
+      throw new Error('Unsupported file type. Use CSV, JSON or GIFT.');
+  }
+}
+
+function splitList(value: string | undefined): string[] {
+  return (value || '').split(';').map(item => item.trim()).filter(Boolean);
+}
+
+function parsePoints(value: string | undefined): number {
+  const points = Number(value);
+  return Number.isFinite(points) && points > 0 ? points : 1;
+}
+
+// A 1-based option number or the option's text; -1 when it names none of the options
+function resolveOptionIndex(value: string, options: string[]): number {
+  const optionNumber = Number(value);
+  if (value && Number.isInteger(optionNumber) && optionNumber >= 1 && optionNumber <= options.length) {
+    return optionNumber - 1;
+  }
+  return options.findIndex(option => option.toLowerCase() === value.toLowerCase());
+}
+
+function badAnswerWarning(rowNumber: number, value: string): string {
+  return value
+    ? `Row ${rowNumber}: correct answer "${value}" does not match any option, question skipped`
+    : `Row ${rowNumber}: no correct answer given, question skipped`;
+}
+
+// CSV columns are documented on QuizImportCsvRow
+export function parseQuizCsv(text: string, title: string): ImportedQuiz {
+  const questions: QuizQuestion[] = [];
+  const warnings: string[] = [];
+
+  parseCsvObjects(text).forEach(({ line: rowNumber, fields: row }) => {
+    const csvRow = row as unknown as QuizImportCsvRow;
+    const type = (csvRow.type || 'single').toLowerCase() as QuizQuestionType;
+
+    if (!QUESTION_TYPES.includes(type)) {
+      warnings.push(`Row ${rowNumber}: unknown question type "${csvRow.type}"`);
+      return;
+    }
+
+    const question: QuizQuestion = {
+      ...createEmptyQuestion(type),
+      prompt: csvRow.prompt || '',
+      points: parsePoints(csvRow.points)
+    };
+    // Options keep their column numbers so "correct" option numbers line up with the file
+    const columns = Array.from({ length: MAX_OPTIONS }, (_, i) => row[`option${i + 1}`] || '');
+    const options = columns.slice(0, columns.map(Boolean).lastIndexOf(true) + 1);
+    const blankOption = options.indexOf('');
+    const correct = (csvRow.correct || '').trim();
+
+    if ((type === 'single' || type === 'multiple') && blankOption !== -1) {
+      warnings.push(`Row ${rowNumber}: option${blankOption + 1} is blank, question skipped`);
+      return;
+    }
+
+    switch (type) {
+      case 'single': {
+        const correctAnswer = resolveOptionIndex(correct, options);
+        if (correctAnswer === -1) {
+          warnings.push(badAnswerWarning(rowNumber, correct));
+          return;
+        }
+        question.options = options;
+        question.correctAnswer = correctAnswer;
+        break;
+      }
+      case 'multiple': {
+        const values = splitList(correct);
+        const unmatched = values.find(value => resolveOptionIndex(value, options) === -1);
+        if (values.length === 0 || unmatched !== undefined) {
+          warnings.push(badAnswerWarning(rowNumber, unmatched || ''));
+          return;
+        }
+        question.options = options;
+        question.correctAnswers = values.map(value => resolveOptionIndex(value, options));
+        break;
+      }
+      case 'true-false':
+        if (/^(t|true|1|yes)$/i.test(correct)) {
+          question.correctAnswer = 0;
+        } else if (/^(f|false|0|no)$/i.test(correct)) {
+          question.correctAnswer = 1;
+        } else {
+          warnings.push(badAnswerWarning(rowNumber, correct));
+          return;
+        }
+        break;
+      case 'short-answer':
+        question.acceptedAnswers = splitList(correct);
+        break;
+      case 'numeric':
+        question.numericAnswer = parseNumericAnswer(correct) ?? undefined;
+        question.tolerance = Math.abs(parseNumericAnswer(csvRow.tolerance || '') ?? 0);
+        break;
+    }
+
+    if (isQuestionComplete(question)) {
+      questions.push(question);
+    } else {
+      warnings.push(`Row ${rowNumber}: incomplete question skipped`);
+    }
+  });
+
+  return { title, questions, warnings };
+}
+
+const jsonQuestionSchema = z.object({
+  type: z.enum(['single', 'multiple', 'true-false', 'short-answer', 'numeric']).default('single'),
+  prompt: z.string(),
+  options: z.array(z.string()).optional(),
+  correctAnswer: z.number().int().nonnegative().optional(),
+  correctAnswers: z.array(z.number().int().nonnegative()).optional(),
+  acceptedAnswers: z.array(z.string()).optional(),
+  numericAnswer: z.number().optional(),
+  tolerance: z.number().nonnegative().optional(),
+  points: z.number().positive().default(1)
+});
+
+// Same shape as an exported Quiz document: { title, questions } or just the questions array
+const jsonQuizSchema = z.union([
+  z.object({ title: z.string().optional(), questions: z.array(z.unknown()) }),
+  z.array(z.unknown())
+]);
+
+export function parseQuizJson(text: string, fallbackTitle: string): ImportedQuiz {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const quiz = jsonQuizSchema.safeParse(data);
+  if (!quiz.success) {
+    throw new Error('Expected a quiz object with a "questions" array');
+  }
+
+  const rawQuestions = Array.isArray(quiz.data) ? quiz.data : quiz.data.questions;
+  const title = (!Array.isArray(quiz.data) && quiz.data.title) || fallbackTitle;
+  const questions: QuizQuestion[] = [];
+  const warnings: string[] = [];
+
+  rawQuestions.forEach((raw, index) => {
+    const parsed = jsonQuestionSchema.safeParse(raw);
+    if (!parsed.success) {
+      warnings.push(`Question ${index + 1}: ${parsed.error.issues[0]?.message || 'invalid question'}`);
+      return;
+    }
+
+    const { type, ...fields } = parsed.data;
+    const question: QuizQuestion = {
+      ...createEmptyQuestion(type),
+      ...Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
+    };
+
+    // The empty question's default answers must not stand in for missing ones
+    const givenAnswer = type === 'multiple' ? fields.correctAnswers : fields.correctAnswer;
+    if (isChoiceQuestion(question) && (givenAnswer === undefined || !hasValidCorrectAnswers(question))) {
+      warnings.push(`Question ${index + 1}: correct answer is missing or not one of the options, question skipped`);
+      return;
+    }
+
+    if (isQuestionComplete(question)) {
+      questions.push(question);
+    } else {
+      warnings.push(`Question ${index + 1}: incomplete question skipped`);
+    }
+  });
+
+  return { title, questions, warnings };
+}
+
+// GIFT escapes its control characters with a backslash
+function unescapeGift(text: string): string {
+  return text.replace(/\\([~=#{}:])/g, '$1').replace(/\\n/g, '\n').trim();
+}
+
+// Splits on a control character unless it is escaped
+function splitUnescaped(text: string, pattern: RegExp): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current += text[i] + text[i + 1];
+      i++;
+    } else if (pattern.test(text[i])) {
+      parts.push(current);
+      current = text[i];
+    } else {
+      current += text[i];
+    }
+  }
+  parts.push(current);
+  return parts.filter(part => part.trim());
+}
+
+function stripFeedback(answer: string): string {
+  return splitUnescaped(answer, /#/)[0] || '';
+}
+
+// Returns why the question was skipped when it cannot be imported
+function parseGiftAnswers(question: QuizQuestion, answerBlock: string): QuizQuestion | string {
+  const block = answerBlock.trim();
+
+  if (/^(T|TRUE|F|FALSE)(\s*#.*)?$/i.test(block)) {
+    return {
+      ...createEmptyQuestion('true-false'),
+      id: question.id,
+      prompt: question.prompt,
+      correctAnswer: /^T/i.test(block) ? 0 : 1
+    };
+  }
+
+  if (block.startsWith('#')) {
+    const value = stripFeedback(block.slice(1)).replace(/^=/, '').trim();
+    const range = value.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+    const withTolerance = value.match(/^(-?[\d.]+)(?::([\d.]+))?$/);
+    let numericAnswer: number;
+    let tolerance = 0;
+
+    if (range) {
+      const min = Number(range[1]);
+      const max = Number(range[2]);
+      numericAnswer = (min + max) / 2;
+      tolerance = (max - min) / 2;
+    } else if (withTolerance) {
+      numericAnswer = Number(withTolerance[1]);
+      tolerance = Number(withTolerance[2] || 0);
+    } else {
+      return `numeric answer "${value}" not recognised`;
+    }
+
+    return { ...createEmptyQuestion('numeric'), id: question.id, prompt: question.prompt, numericAnswer, tolerance };
+  }
+
+  const answers = splitUnescaped(block, /[=~]/).map(part => {
+    const marker = part[0];
+    let text = stripFeedback(part.slice(1));
+    let weight = marker === '=' ? 100 : 0;
+
+    const weighted = text.match(/^%(-?[\d.]+)%/);
+    if (weighted) {
+      weight = Number(weighted[1]);
+      text = text.slice(weighted[0].length);
+    }
+
+    return { marker, text: unescapeGift(text), weight };
+  }).filter(answer => answer.text);
+
+  if (answers.length === 0) return 'no answers found';
+
+  // Only "=" answers and no distractors means a short-answer question
+  if (answers.every(answer => answer.marker === '=')) {
+    return {
+      ...createEmptyQuestion('short-answer'),
+      id: question.id,
+      prompt: question.prompt,
+      acceptedAnswers: answers.map(answer => answer.text)
+    };
+  }
+
+  const options = answers.map(answer => answer.text);
+  const correctIndices = answers
+    .map((answer, index) => (answer.weight > 0 ? index : -1))
+    .filter(index => index >= 0);
+
+  // Partial-credit weights on "~" answers are how GIFT marks multi-select questions
+  if (correctIndices.length > 1 || answers.some(answer => answer.marker === '~' && answer.weight > 0)) {
+    return { ...createEmptyQuestion('multiple'), id: question.id, prompt: question.prompt, options, correctAnswers: correctIndices };
+  }
+
+  if (correctIndices.length === 0) return 'no correct answer marked with "="';
+
+  return {
+    ...createEmptyQuestion('single'),
+    id: question.id,
+    prompt: question.prompt,
+    options,
+    correctAnswer: correctIndices[0]
+  };
+}
+
+// Moodle GIFT format: https://docs.moodle.org/en/GIFT_format
+export function parseGift(text: string, title: string): ImportedQuiz {
+  const questions: QuizQuestion[] = [];
+  const warnings: string[] = [];
+
+  const cleaned = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => !line.trim().startsWith('//') && !line.trim().startsWith('$CATEGORY'))
+    .join('\n');
+
+  cleaned.split(/\n\s*\n/).map(chunk => chunk.trim()).filter(Boolean).forEach((chunk, index) => {
+    const open = chunk.search(/(?<!\\)\{/);
+    const close = chunk.search(/(?<!\\)\}(?![\s\S]*(?<!\\)\})/);
+    if (open === -1 || close < open) {
+      warnings.push(`Question ${index + 1}: no answer block found`);
+      return;
+    }
+
+    let stem = (chunk.slice(0, open) + ' ' + chunk.slice(close + 1)).trim();
+    const named = stem.match(/^::(.*?)::/);
+    if (named) stem = stem.slice(named[0].length);
+    stem = stem.replace(/^\[(html|moodle|plain|markdown)\]/i, '');
+
+    const prompt = unescapeGift(stem.replace(/<[^>]+>/g, '').replace(/\s+/g, ' '));
+    const question = parseGiftAnswers({ ...createEmptyQuestion(), id: createQuestionId(), prompt }, chunk.slice(open + 1, close));
+
+    if (typeof question === 'string') {
+      warnings.push(`Question ${index + 1}: ${question}, question skipped`);
+    } else if (isQuestionComplete(question)) {
+      questions.push(question);
+    } else {
+      warnings.push(`Question ${index + 1}: unsupported or incomplete question skipped`);
+    }
+  });
+
+  return { title, questions, warnings };
+}
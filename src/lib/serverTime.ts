@@ -0,0 +1,36 @@
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+
+let serverTimeOffset = 0;
+let syncPromise: Promise<number> | null = null;
+
+// Estimate how far the local clock is from Firestore's clock by writing a server timestamp and reading it back
+export function syncServerTime(userId: string): Promise<number> {
+  if (syncPromise) return syncPromise;
+
+  syncPromise = (async () => {
+    try {
+      const probeRef = doc(db, 'serverTimeProbes', userId);
+      const requestedAt = Date.now();
+      await setDoc(probeRef, { at: serverTimestamp() });
+      const snapshot = await getDoc(probeRef);
+      const respondedAt = Date.now();
+
+      const serverMs = snapshot.data()?.at?.toMillis();
+      if (typeof serverMs === 'number') {
+        serverTimeOffset = serverMs - (requestedAt + respondedAt) / 2;
+        console.log('Server time offset (ms):', Math.round(serverTimeOffset));
+      }
+    } catch (error) {
+      console.error('Error syncing server time:', error);
+      syncPromise = null;
+    }
+    return serverTimeOffset;
+  })();
+
+  return syncPromise;
+}
+
+export function serverNow(): number {
+  return Date.now() + serverTimeOffset;
+}
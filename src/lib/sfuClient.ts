@@ -0,0 +1,236 @@
+import {
+  ConnectionState,
+  LocalTrackPublication,
+  RemoteParticipant,
+  RemoteTrack,
+  RemoteTrackPublication,
+  Room,
+  RoomEvent,
+  Track,
+  TrackPublishOptions,
+  VideoPresets
+} from 'livekit-client';
+import { auth } from '@/lib/firebase';
+import { TypedEventEmitter } from '@/lib/eventEmitter';
+import { MediaKind, WebRTCManagerEvents } from '@/lib/WebRTCManager';
+
+// Media through a LiveKit-compatible selective forwarding unit, for classes too large for peer connections:
+// everyone publishes once to the server, which forwards to each subscriber. It emits the same events as
+// WebRTCManager (keyed by user id), so ClassRoom renders both paths the same way.
+//
+// Configured with VITE_SFU_URL (the media server) and VITE_SFU_TOKEN_URL (the endpoint issuing access tokens,
+// served by server/signaling-server.ts). See sfu/docker-compose.yml to run a server locally.
+
+const CAMERA_SOURCES: Record<MediaKind, Track.Source> = {
+  audio: Track.Source.Microphone,
+  video: Track.Source.Camera
+};
+const SCREEN_SOURCES: Record<MediaKind, Track.Source> = {
+  audio: Track.Source.ScreenShareAudio,
+  video: Track.Source.ScreenShare
+};
+
+// The camera goes up in three simulcast layers and the server forwards each subscriber the best one its
+// connection can take, pausing video (audio only) when even the lowest does not fit
+const CAMERA_PUBLISH_OPTIONS: TrackPublishOptions = {
+  simulcast: true,
+  videoEncoding: VideoPresets.h720.encoding,
+  videoSimulcastLayers: [VideoPresets.h180, VideoPresets.h360]
+};
+
+interface SfuClientOptions {
+  classId: string;
+  userId: string;
+  displayName: string;
+  teacherId: string;
+}
+
+// The token server uses the verified ID token for the identity when it can, and `identity` otherwise
+async function fetchAccessToken({ classId, userId, displayName }: SfuClientOptions): Promise<string> {
+  const endpoint = import.meta.env.VITE_SFU_TOKEN_URL || '/sfu-token';
+  const url = new URL(endpoint, window.location.origin);
+  url.searchParams.set('room', classId);
+  url.searchParams.set('identity', userId);
+  url.searchParams.set('name', displayName);
+
+  const idToken = await auth.currentUser?.getIdToken();
+  const response = await fetch(url.toString(), {
+    headers: idToken ? { Authorization: `Bearer ${idToken}` } : {}
+  });
+  if (!response.ok) {
+    throw new Error(`SFU token request failed with status ${response.status}`);
+  }
+  const data = await response.json();
+  return data.token;
+}
+
+export class SfuClient extends TypedEventEmitter<WebRTCManagerEvents> {
+  private room = new Room({ adaptiveStream: true, dynacast: true });
+  private remoteStreams: Map<string, MediaStream> = new Map();
+  private remoteScreenStreams: Map<string, MediaStream> = new Map();
+  private publishedTracks: Map<Track.Source, MediaStreamTrack> = new Map();
+  // Students subscribe to classmates only in discussion mode; the teacher always subscribes to everyone
+  private subscribeToClassmates = false;
+  private leaving = false;
+
+  constructor(private options: SfuClientOptions) {
+    super();
+    this.registerRoomEvents();
+  }
+
+  // The same ICE servers as peer connections, so TURN and relay-only policies also apply to the SFU
+  async connect(rtcConfig?: RTCConfiguration): Promise<void> {
+    const token = await fetchAccessToken(this.options);
+    await this.room.connect(import.meta.env.VITE_SFU_URL, token, {
+      autoSubscribe: false,
+      rtcConfig
+    });
+    console.log('Connected to SFU room:', this.options.classId);
+
+    this.room.remoteParticipants.forEach(participant => {
+      this.emit('peer-connected', { studentId: participant.identity });
+      participant.trackPublications.forEach(publication => this.updateSubscription(participant, publication));
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.leaving = true;
+    this.publishedTracks.clear();
+    await this.room.disconnect();
+    this.remoteStreams.clear();
+    this.remoteScreenStreams.clear();
+  }
+
+  setSubscribeToClassmates(enabled: boolean): void {
+    if (this.subscribeToClassmates === enabled) return;
+    this.subscribeToClassmates = enabled;
+    this.room.remoteParticipants.forEach(participant => {
+      participant.trackPublications.forEach(publication => this.updateSubscription(participant, publication));
+    });
+  }
+
+  // Mirrors WebRTCManager's local camera/mic; muting stays on the track itself via `enabled`
+  async setLocalTrack(kind: MediaKind, track: MediaStreamTrack | null): Promise<void> {
+    await this.publish(CAMERA_SOURCES[kind], track);
+  }
+
+  async setScreenStream(stream: MediaStream | null): Promise<void> {
+    for (const kind of ['audio', 'video'] as MediaKind[]) {
+      const track = kind === 'audio' ? stream?.getAudioTracks()[0] : stream?.getVideoTracks()[0];
+      await this.publish(SCREEN_SOURCES[kind], track || null);
+    }
+  }
+
+  private async publish(source: Track.Source, track: MediaStreamTrack | null): Promise<void> {
+    const current = this.publishedTracks.get(source);
+    if (current === track || this.room.state !== ConnectionState.Connected) return;
+
+    if (current) {
+      this.publishedTracks.delete(source);
+      await this.room.localParticipant.unpublishTrack(current, false);
+    }
+    if (track && track.readyState === 'live') {
+      this.publishedTracks.set(source, track);
+      const options = source === Track.Source.Camera ? CAMERA_PUBLISH_OPTIONS : {};
+      const publication: LocalTrackPublication = await this.room.localParticipant.publishTrack(track, {
+        ...options,
+        source
+      });
+      console.log('Published to SFU:', source, publication.trackSid);
+    }
+  }
+
+  private shouldSubscribe(participant: RemoteParticipant): boolean {
+    const { userId, teacherId } = this.options;
+    return userId === teacherId || participant.identity === teacherId || this.subscribeToClassmates;
+  }
+
+  private updateSubscription(participant: RemoteParticipant, publication: RemoteTrackPublication): void {
+    const subscribe = this.shouldSubscribe(participant);
+    if (publication.isSubscribed !== subscribe) publication.setSubscribed(subscribe);
+  }
+
+  private isScreenSource(source: Track.Source): boolean {
+    return source === Track.Source.ScreenShare || source === Track.Source.ScreenShareAudio;
+  }
+
+  private handleTrackSubscribed(track: RemoteTrack, participant: RemoteParticipant): void {
+    const studentId = participant.identity;
+
+    if (this.isScreenSource(track.source)) {
+      const stream = this.remoteScreenStreams.get(studentId) || new MediaStream();
+      stream.addTrack(track.mediaStreamTrack);
+      this.remoteScreenStreams.set(studentId, stream);
+      this.emit('remote-screen-added', { studentId, stream });
+      return;
+    }
+
+    const stream = this.remoteStreams.get(studentId) || new MediaStream();
+    stream.addTrack(track.mediaStreamTrack);
+    this.remoteStreams.set(studentId, stream);
+    this.emit('remote-stream-added', { studentId, stream });
+  }
+
+  private handleTrackUnsubscribed(track: RemoteTrack, participant: RemoteParticipant): void {
+    const studentId = participant.identity;
+
+    if (this.isScreenSource(track.source)) {
+      const stream = this.remoteScreenStreams.get(studentId);
+      stream?.removeTrack(track.mediaStreamTrack);
+      if (stream && stream.getTracks().length === 0) {
+        this.remoteScreenStreams.delete(studentId);
+        this.emit('remote-screen-removed', { studentId });
+      }
+      return;
+    }
+
+    this.remoteStreams.get(studentId)?.removeTrack(track.mediaStreamTrack);
+  }
+
+  private registerRoomEvents(): void {
+    this.room
+      .on(RoomEvent.TrackPublished, (publication, participant) => {
+        this.updateSubscription(participant, publication);
+      })
+      .on(RoomEvent.TrackSubscribed, (track, _publication, participant) => {
+        this.handleTrackSubscribed(track, participant);
+      })
+      .on(RoomEvent.TrackUnsubscribed, (track, _publication, participant) => {
+        this.handleTrackUnsubscribed(track, participant);
+      })
+      .on(RoomEvent.ParticipantConnected, (participant) => {
+        this.emit('peer-connected', { studentId: participant.identity });
+      })
+      .on(RoomEvent.ParticipantDisconnected, (participant) => {
+        const studentId = participant.identity;
+        this.remoteStreams.delete(studentId);
+        if (this.remoteScreenStreams.delete(studentId)) this.emit('remote-screen-removed', { studentId });
+        this.emit('peer-disconnected', { studentId });
+      })
+      // The SDK resumes or rejoins by itself; surface it on every tile like a peer reconnect
+      .on(RoomEvent.Reconnecting, () => {
+        this.room.remoteParticipants.forEach(participant => {
+          this.emit('peer-reconnect-state', { studentId: participant.identity, state: 'reconnecting', attempt: 0 });
+        });
+      })
+      // Like a recovered peer connection, announce the participant as connected again
+      .on(RoomEvent.Reconnected, () => {
+        this.room.remoteParticipants.forEach(participant => {
+          this.emit('peer-reconnect-state', { studentId: participant.identity, state: 'connected', attempt: 0 });
+          this.emit('peer-connected', { studentId: participant.identity });
+        });
+      })
+      .on(RoomEvent.Disconnected, (reason) => {
+        console.log('Disconnected from SFU:', reason);
+        if (this.leaving) return;
+        const studentIds = new Set([...this.remoteStreams.keys(), this.options.teacherId]);
+        studentIds.delete(this.options.userId);
+        this.publishedTracks.clear();
+        studentIds.forEach(studentId => {
+          this.emit('peer-reconnect-state', { studentId, state: 'failed', attempt: 0 });
+          this.emit('peer-disconnected', { studentId });
+        });
+        this.remoteStreams.clear();
+      });
+  }
+}
@@ -0,0 +1,70 @@
+import { z } from 'zod';
+import { WebRTCSignal } from '@/types';
+
+// Runtime check for signals arriving from a transport, so a malformed or foreign message is dropped
+// before it reaches RTCPeerConnection
+
+const sessionDescriptionSchema = z.object({
+  type: z.enum(['offer', 'answer', 'pranswer', 'rollback']),
+  sdp: z.string().optional()
+});
+
+const iceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().int().nonnegative().nullable().optional(),
+  usernameFragment: z.string().nullable().optional()
+});
+
+const envelopeSchema = z.object({
+  id: z.string().optional(),
+  classId: z.string(),
+  fromUserId: z.string().min(1),
+  targetUserId: z.string().min(1),
+  sessionId: z.string().min(1),
+  seq: z.number().int().nonnegative(),
+  createdAt: z.date()
+});
+
+const signalSchema = z.discriminatedUnion('type', [
+  envelopeSchema.extend({
+    type: z.literal('join-request'),
+    sessionStartedAt: z.number()
+  }),
+  envelopeSchema.extend({
+    type: z.literal('offer'),
+    offer: sessionDescriptionSchema,
+    screenStreamId: z.string().nullable().optional()
+  }),
+  envelopeSchema.extend({
+    type: z.literal('answer'),
+    answer: sessionDescriptionSchema,
+    screenStreamId: z.string().nullable().optional()
+  }),
+  envelopeSchema.extend({
+    type: z.literal('ice-candidates'),
+    candidates: z.array(iceCandidateSchema)
+  }),
+  envelopeSchema.extend({
+    type: z.literal('ack'),
+    ack: z.number().int().nonnegative()
+  }),
+  envelopeSchema.extend({
+    type: z.literal('moderation'),
+    action: z.enum(['mute', 'request-unmute', 'disable-camera', 'remove', 'ban'])
+  }),
+  envelopeSchema.extend({
+    type: z.literal('media-state'),
+    audioEnabled: z.boolean(),
+    videoEnabled: z.boolean()
+  })
+]);
+
+export function parseSignal(data: unknown): WebRTCSignal | null {
+  const result = signalSchema.safeParse(data);
+  if (!result.success) {
+    console.warn('Ignoring invalid signaling message:', result.error.issues);
+    return null;
+  }
+  return result.data;
+}
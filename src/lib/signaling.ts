@@ -0,0 +1,282 @@
+import { createSignalingTransport, SignalingTransport } from '@/lib/signalingTransport';
+import { serverNow } from '@/lib/serverTime';
+import { WebRTCSignal, WebRTCSignalMessage } from '@/types';
+
+// Reliable, ordered WebRTC signaling on top of a SignalingTransport (Firestore or WebSocket).
+//
+// Every connection attempt between two users is a session: the side asking for a connection starts one with
+// a join-request, and everything either side sends for that connection carries the session id and a
+// per-sender sequence number. The receiver hands messages to WebRTCManager strictly in sequence order,
+// drops duplicates and anything from an older session, and acknowledges what it received. The sender keeps
+// unacknowledged messages, retransmits them, and discards its copies once they are acknowledged.
+
+// What callers send; acks are generated by the channel itself
+export type SignalPayload = Exclude<WebRTCSignalMessage, { type: 'ack' }>;
+
+// Candidates gathered within this window go out as one message
+const CANDIDATE_BATCH_MS = 100;
+const ACK_DELAY_MS = 100;
+const RETRANSMIT_INTERVAL_MS = 1000;
+const RETRANSMIT_AFTER_MS = 3000;
+const MAX_RETRANSMITS = 5;
+// Older join-requests are left over from students who are no longer waiting
+const JOIN_REQUEST_MAX_AGE_MS = 5 * 60 * 1000;
+
+interface OutgoingMessage {
+  payload: SignalPayload;
+  signalIds: string[];
+  sentAt: number;
+  retransmits: number;
+}
+
+interface PeerSession {
+  sessionId: string;
+  startedAt: number;
+  nextIncomingSeq: number;
+  // Messages that arrived ahead of a gap, waiting for the missing ones
+  received: Map<number, WebRTCSignal>;
+  nextOutgoingSeq: number;
+  unacked: Map<number, OutgoingMessage>;
+  pendingCandidates: RTCIceCandidateInit[];
+  candidateTimer: ReturnType<typeof setTimeout> | null;
+  ackTimer: ReturnType<typeof setTimeout> | null;
+  // Handlers run one at a time so a candidate never overtakes the description it belongs to
+  handling: Promise<void>;
+}
+
+function createSessionId(): string {
+  return Math.random().toString(36).substring(2, 10);
+}
+
+export class SignalingChannel {
+  private sessions: Map<string, PeerSession> = new Map();
+  private unsubscribe: (() => void) | null = null;
+  private retransmitTimer: ReturnType<typeof setInterval> | null = null;
+  private transport: SignalingTransport;
+
+  constructor(
+    classId: string,
+    private userId: string,
+    private onSignal: (signal: WebRTCSignal) => Promise<void>,
+    transport?: SignalingTransport
+  ) {
+    this.transport = transport || createSignalingTransport(classId, userId);
+  }
+
+  start(): void {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = this.transport.subscribe(signal => this.receive(signal));
+    this.retransmitTimer = setInterval(() => this.retransmit(), RETRANSMIT_INTERVAL_MS);
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.retransmitTimer) clearInterval(this.retransmitTimer);
+    this.retransmitTimer = null;
+    this.sessions.forEach(session => this.clearTimers(session));
+    this.sessions.clear();
+  }
+
+  // Starts a new connection attempt with a peer; anything still in flight for the previous one is dropped
+  startSession(peerId: string): string {
+    const session = this.replaceSession(peerId, createSessionId(), serverNow());
+    this.send(peerId, { type: 'join-request', sessionStartedAt: session.startedAt });
+    return session.sessionId;
+  }
+
+  hasSession(peerId: string): boolean {
+    return this.sessions.has(peerId);
+  }
+
+  send(peerId: string, payload: SignalPayload): void {
+    const session = this.sessions.get(peerId);
+    if (!session) {
+      console.warn('No signaling session with:', peerId, 'dropping', payload.type);
+      return;
+    }
+
+    // Keep candidates ahead of any later description
+    if (payload.type !== 'ice-candidates') this.flushCandidates(peerId, session);
+
+    const seq = session.nextOutgoingSeq++;
+    const message: OutgoingMessage = { payload, signalIds: [], sentAt: Date.now(), retransmits: 0 };
+    session.unacked.set(seq, message);
+    this.write(peerId, session, seq, message);
+  }
+
+  sendCandidate(peerId: string, candidate: RTCIceCandidateInit): void {
+    const session = this.sessions.get(peerId);
+    if (!session) return;
+
+    session.pendingCandidates.push(candidate);
+    if (!session.candidateTimer) {
+      session.candidateTimer = setTimeout(() => this.flushCandidates(peerId, session), CANDIDATE_BATCH_MS);
+    }
+  }
+
+  private flushCandidates(peerId: string, session: PeerSession): void {
+    if (session.candidateTimer) clearTimeout(session.candidateTimer);
+    session.candidateTimer = null;
+    if (session.pendingCandidates.length === 0 || this.sessions.get(peerId) !== session) return;
+
+    const candidates = session.pendingCandidates;
+    session.pendingCandidates = [];
+    this.send(peerId, { type: 'ice-candidates', candidates });
+  }
+
+  private replaceSession(peerId: string, sessionId: string, startedAt: number): PeerSession {
+    const previous = this.sessions.get(peerId);
+    if (previous) {
+      this.clearTimers(previous);
+      previous.unacked.forEach(message => this.discard(message.signalIds));
+    }
+
+    const session: PeerSession = {
+      sessionId,
+      startedAt,
+      nextIncomingSeq: 1,
+      received: new Map(),
+      nextOutgoingSeq: 1,
+      unacked: new Map(),
+      pendingCandidates: [],
+      candidateTimer: null,
+      ackTimer: null,
+      handling: Promise.resolve()
+    };
+    this.sessions.set(peerId, session);
+    return session;
+  }
+
+  private clearTimers(session: PeerSession): void {
+    if (session.candidateTimer) clearTimeout(session.candidateTimer);
+    if (session.ackTimer) clearTimeout(session.ackTimer);
+    session.candidateTimer = null;
+    session.ackTimer = null;
+  }
+
+  private async write(peerId: string, session: PeerSession, seq: number, message: OutgoingMessage): Promise<void> {
+    try {
+      const signalId = await this.transport.send({
+        ...message.payload,
+        targetUserId: peerId,
+        sessionId: session.sessionId,
+        seq
+      });
+      // Acknowledged while the send was in flight
+      if (!session.unacked.has(seq)) {
+        this.transport.discard(signalId);
+      } else {
+        message.signalIds.push(signalId);
+      }
+      console.log('Sent WebRTC signal:', message.payload.type, seq);
+    } catch (error) {
+      console.error('Error sending signaling message:', error);
+    }
+  }
+
+  private discard(signalIds: string[]): void {
+    signalIds.forEach(signalId => this.transport.discard(signalId));
+  }
+
+  private receive(signal: WebRTCSignal): void {
+    if (signal.fromUserId === this.userId || !signal.id) return;
+    const peerId = signal.fromUserId;
+    let session = this.sessions.get(peerId);
+
+    if (signal.type === 'ack') {
+      if (session?.sessionId === signal.sessionId) this.acknowledge(session, signal.ack || 0);
+      this.discard([signal.id]);
+      return;
+    }
+
+    if (signal.type === 'join-request' && session?.sessionId !== signal.sessionId) {
+      const startedAt = signal.sessionStartedAt || 0;
+      const isNewer = !session || startedAt > session.startedAt;
+      if (isNewer && serverNow() - startedAt < JOIN_REQUEST_MAX_AGE_MS) {
+        session = this.replaceSession(peerId, signal.sessionId, startedAt);
+      }
+    }
+
+    if (!session || session.sessionId !== signal.sessionId) {
+      console.log('Dropping signal from an old session:', signal.type, 'from:', peerId);
+      this.discard([signal.id]);
+      return;
+    }
+
+    // Retransmitted copies still need an ack, in case the earlier one was lost
+    if (signal.seq >= session.nextIncomingSeq) {
+      session.received.set(signal.seq, signal);
+      this.deliver(peerId, session);
+    }
+    this.scheduleAck(peerId, session);
+  }
+
+  private deliver(peerId: string, session: PeerSession): void {
+    let next = session.received.get(session.nextIncomingSeq);
+    while (next) {
+      const signal = next;
+      session.received.delete(session.nextIncomingSeq);
+      session.nextIncomingSeq += 1;
+
+      session.handling = session.handling
+        .then(() => {
+          if (this.sessions.get(peerId) !== session) return;
+          console.log('Processing WebRTC signal:', signal.type, signal.seq, 'from:', peerId);
+          return this.onSignal(signal);
+        })
+        .catch(error => console.error('Error handling signaling message:', error));
+
+      next = session.received.get(session.nextIncomingSeq);
+    }
+  }
+
+  private scheduleAck(peerId: string, session: PeerSession): void {
+    if (session.ackTimer) return;
+
+    session.ackTimer = setTimeout(() => {
+      session.ackTimer = null;
+      if (this.sessions.get(peerId) !== session || session.nextIncomingSeq === 1) return;
+
+      this.transport.send({
+        type: 'ack',
+        targetUserId: peerId,
+        sessionId: session.sessionId,
+        seq: 0,
+        ack: session.nextIncomingSeq - 1
+      }).catch(error => console.error('Error sending signaling ack:', error));
+    }, ACK_DELAY_MS);
+  }
+
+  private acknowledge(session: PeerSession, ack: number): void {
+    session.unacked.forEach((message, seq) => {
+      if (seq <= ack) {
+        this.discard(message.signalIds);
+        session.unacked.delete(seq);
+      }
+    });
+  }
+
+  private retransmit(): void {
+    const now = Date.now();
+    this.sessions.forEach((session, peerId) => {
+      session.unacked.forEach((message, seq) => {
+        if (now - message.sentAt < RETRANSMIT_AFTER_MS) return;
+
+        // The peer is most likely gone; stop resending but leave the message for it to find on return
+        if (message.retransmits >= MAX_RETRANSMITS) {
+          if (message.retransmits === MAX_RETRANSMITS) {
+            console.warn('No ack from:', peerId, 'for signal', seq, message.payload.type);
+            message.retransmits += 1;
+          }
+          return;
+        }
+
+        message.retransmits += 1;
+        message.sentAt = now;
+        this.write(peerId, session, seq, message);
+      });
+    });
+  }
+}
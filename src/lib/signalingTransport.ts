@@ -0,0 +1,191 @@
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  where,
+  DocumentData
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { parseSignal } from '@/lib/signalSchema';
+import { WebRTCSignal, WebRTCSignalEnvelope, WebRTCSignalMessage } from '@/types';
+
+// Carries signals between the users of one class. SignalingChannel builds ordering, acks and retransmission
+// on top, so a transport only needs best-effort delivery of whole messages.
+//
+// Selected by VITE_SIGNALING_URL: when set, signals go through the self-hosted WebSocket server in
+// server/signaling-server.ts; otherwise through the Firestore webrtcSignals collection.
+
+// The transport fills in the class, sender and timestamp
+export type OutgoingSignal = Omit<WebRTCSignalEnvelope, 'id' | 'classId' | 'fromUserId' | 'createdAt'> & WebRTCSignalMessage;
+
+export interface SignalingTransport {
+  // Starts delivering signals addressed to this user, dropping any that fail validation; returns the unsubscribe
+  subscribe(onSignal: (signal: WebRTCSignal) => void): () => void;
+  // Resolves with the message id once the transport has accepted it
+  send(signal: OutgoingSignal): Promise<string>;
+  // Removes a message that is no longer needed, for transports that store them
+  discard(signalId: string): void;
+}
+
+function signalFromDoc(id: string, data: DocumentData): WebRTCSignal | null {
+  return parseSignal({
+    ...data,
+    id,
+    createdAt: data.createdAt?.toDate() || new Date()
+  });
+}
+
+export class FirestoreSignalingTransport implements SignalingTransport {
+  constructor(private classId: string, private userId: string) {}
+
+  subscribe(onSignal: (signal: WebRTCSignal) => void): () => void {
+    const signalingQuery = query(
+      collection(db, 'webrtcSignals'),
+      where('classId', '==', this.classId),
+      where('targetUserId', '==', this.userId)
+    );
+
+    return onSnapshot(signalingQuery, (snapshot) => {
+      snapshot.docChanges().forEach(change => {
+        if (change.type !== 'added') return;
+
+        const signal = signalFromDoc(change.doc.id, change.doc.data({ serverTimestamps: 'estimate' }));
+        if (signal) {
+          onSignal(signal);
+        } else {
+          this.discard(change.doc.id);
+        }
+      });
+    }, (error) => {
+      console.error('Error listening to WebRTC signals:', error);
+    });
+  }
+
+  async send(signal: OutgoingSignal): Promise<string> {
+    const signalRef = await addDoc(collection(db, 'webrtcSignals'), {
+      ...signal,
+      classId: this.classId,
+      fromUserId: this.userId,
+      createdAt: serverTimestamp()
+    });
+    return signalRef.id;
+  }
+
+  discard(signalId: string): void {
+    deleteDoc(doc(db, 'webrtcSignals', signalId)).catch(error => {
+      console.error('Error deleting signal:', error);
+    });
+  }
+}
+
+const SOCKET_RECONNECT_BASE_MS = 1000;
+const SOCKET_RECONNECT_MAX_MS = 15000;
+
+// Keeps one socket open for the class, reconnecting with backoff. Messages sent while the socket is down
+// are queued; anything lost in between is recovered by SignalingChannel's retransmission.
+export class WebSocketSignalingTransport implements SignalingTransport {
+  private socket: WebSocket | null = null;
+  private outbox: string[] = [];
+  private listeners: Set<(signal: WebRTCSignal) => void> = new Set();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempt = 0;
+  private messageCount = 0;
+
+  constructor(private url: string, private classId: string, private userId: string) {}
+
+  subscribe(onSignal: (signal: WebRTCSignal) => void): () => void {
+    this.listeners.add(onSignal);
+    this.open();
+
+    return () => {
+      this.listeners.delete(onSignal);
+      if (this.listeners.size === 0) this.close();
+    };
+  }
+
+  async send(signal: OutgoingSignal): Promise<string> {
+    const id = `${this.userId}-${Date.now().toString(36)}-${this.messageCount++}`;
+    const data = JSON.stringify({ ...signal, id });
+
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(data);
+    } else {
+      this.outbox.push(data);
+      this.open();
+    }
+    return id;
+  }
+
+  discard(): void {
+    // Nothing is stored once the server has delivered a message
+  }
+
+  private open(): void {
+    if (this.socket || this.reconnectTimer) return;
+
+    const url = new URL(this.url);
+    url.searchParams.set('classId', this.classId);
+    url.searchParams.set('userId', this.userId);
+
+    const socket = new WebSocket(url.toString());
+    this.socket = socket;
+
+    socket.onopen = () => {
+      console.log('Signaling socket connected');
+      this.reconnectAttempt = 0;
+      const queued = this.outbox;
+      this.outbox = [];
+      queued.forEach(data => socket.send(data));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const data = JSON.parse(event.data);
+        const signal = parseSignal({ ...data, createdAt: new Date(data.createdAt || Date.now()) });
+        if (signal) this.listeners.forEach(listener => listener(signal));
+      } catch (error) {
+        console.error('Error parsing signaling message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      if (this.listeners.size === 0) return;
+
+      const delay = Math.min(SOCKET_RECONNECT_BASE_MS * 2 ** this.reconnectAttempt, SOCKET_RECONNECT_MAX_MS);
+      this.reconnectAttempt += 1;
+      console.warn(`Signaling socket closed, reconnecting in ${delay}ms`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.open();
+      }, delay);
+    };
+
+    socket.onerror = (event) => {
+      console.error('Signaling socket error:', event);
+    };
+  }
+
+  private close(): void {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    const socket = this.socket;
+    this.socket = null;
+    socket?.close();
+    this.outbox = [];
+  }
+}
+
+export function createSignalingTransport(classId: string, userId: string): SignalingTransport {
+  const url = import.meta.env.VITE_SIGNALING_URL;
+  if (url) {
+    console.log('Using WebSocket signaling at', url);
+    return new WebSocketSignalingTransport(url, classId, userId);
+  }
+  return new FirestoreSignalingTransport(classId, userId);
+}
@@ -0,0 +1,127 @@
+import {
+  collection,
+  addDoc,
+  query,
+  where,
+  getDocs,
+  deleteDoc,
+  Timestamp,
+  DocumentData
+} from 'firebase/firestore';
+import { ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage';
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { db, storage } from '@/lib/firebase';
+import { Slide, SlideDeck } from '@/types';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export const MAX_SLIDE_FILE_SIZE = 25 * 1024 * 1024;
+
+export function isSupportedSlideFile(file: File): boolean {
+  return file.type === 'application/pdf' || file.type.startsWith('image/');
+}
+
+export function slideFromDoc(id: string, data: DocumentData): Slide {
+  return {
+    id,
+    ...data,
+    deckId: data.deckId || id,
+    deckName: data.deckName || data.fileName || 'Slides',
+    order: data.order || 0,
+    uploadedAt: data.uploadedAt?.toDate() || new Date()
+  } as Slide;
+}
+
+// Upload a deck: one PDF, or several images that become the pages of one deck
+export async function uploadSlideDeck(classId: string, teacherId: string, files: File[], deckName?: string): Promise<string> {
+  const pdfs = files.filter(file => file.type === 'application/pdf');
+  const images = files.filter(file => file.type.startsWith('image/'));
+
+  if (pdfs.length + images.length !== files.length) {
+    throw new Error('Only PDF and image files can be uploaded');
+  }
+  if (pdfs.length > 1 || (pdfs.length === 1 && images.length > 0)) {
+    throw new Error('Upload a single PDF or a set of images');
+  }
+  if (files.some(file => file.size > MAX_SLIDE_FILE_SIZE)) {
+    throw new Error('Each file must be smaller than 25 MB');
+  }
+
+  const deckId = `${Date.now().toString(36)}${Math.random().toString(36).substring(2, 8)}`;
+  const name = deckName?.trim() || files[0].name.replace(/\.[^.]+$/, '');
+  // Images are ordered by file name so "slide-01.png, slide-02.png" upload as expected
+  const orderedFiles = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  for (const [index, file] of orderedFiles.entries()) {
+    const storagePath = `slides/${classId}/${deckId}/${index}_${file.name}`;
+    const storageRef = ref(storage, storagePath);
+    await uploadBytes(storageRef, file, { contentType: file.type });
+    const fileUrl = await getDownloadURL(storageRef);
+
+    await addDoc(collection(db, 'slides'), {
+      classId,
+      teacherId,
+      deckId,
+      deckName: name,
+      order: index,
+      fileName: file.name,
+      fileUrl,
+      fileType: file.type,
+      storagePath,
+      uploadedAt: Timestamp.fromDate(new Date())
+    });
+  }
+
+  console.log('Slide deck uploaded:', deckId, 'files:', orderedFiles.length);
+  return deckId;
+}
+
+export async function deleteSlideDeck(classId: string, deckId: string): Promise<void> {
+  const slidesQuery = query(
+    collection(db, 'slides'),
+    where('classId', '==', classId),
+    where('deckId', '==', deckId)
+  );
+  const snapshot = await getDocs(slidesQuery);
+
+  await Promise.all(snapshot.docs.map(async (slideDoc) => {
+    const storagePath = slideDoc.data().storagePath;
+    if (storagePath) {
+      try {
+        await deleteObject(ref(storage, storagePath));
+      } catch (error) {
+        console.error('Error deleting slide file:', error);
+      }
+    }
+    await deleteDoc(slideDoc.ref);
+  }));
+}
+
+export function groupSlidesIntoDecks(slides: Slide[]): SlideDeck[] {
+  const decks = new Map<string, SlideDeck>();
+
+  slides.forEach(slide => {
+    const existing = decks.get(slide.deckId);
+    if (existing) {
+      existing.slides.push(slide);
+    } else {
+      decks.set(slide.deckId, {
+        deckId: slide.deckId,
+        deckName: slide.deckName,
+        classId: slide.classId,
+        kind: slide.fileType === 'application/pdf' ? 'pdf' : 'images',
+        slides: [slide],
+        uploadedAt: slide.uploadedAt
+      });
+    }
+  });
+
+  return Array.from(decks.values())
+    .map(deck => ({ ...deck, slides: deck.slides.sort((a, b) => a.order - b.order) }))
+    .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime());
+}
+
+export function loadPdfDocument(url: string) {
+  return pdfjsLib.getDocument(url).promise;
+}
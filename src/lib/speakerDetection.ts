@@ -0,0 +1,130 @@
+import { AudioLevelMeter, createAudioLevelMeter } from '@/lib/audioLevel';
+import { TypedEventEmitter } from '@/lib/eventEmitter';
+
+// Voice activity for every participant from their audio level, and the one "active speaker" to promote in
+// speaker view. Speaking starts above a level threshold and lasts a little past the last loud sample so
+// gaps between words do not flicker; the active speaker only changes after someone else has been the
+// loudest for a while, so a cough does not steal the stage.
+
+const SAMPLE_INTERVAL_MS = 100;
+const SPEAKING_LEVEL = 0.08;
+const SPEAKING_HANGOVER_MS = 600;
+const ACTIVE_SPEAKER_SWITCH_MS = 1500;
+
+export interface SpeakerDetectionEvents {
+  'speaking-changed': { speakingIds: Set<string> };
+  // Stays on the last speaker through silence; null only before anyone has spoken or after they leave
+  'active-speaker-changed': { speakerId: string | null };
+}
+
+interface TrackedParticipant {
+  track: MediaStreamTrack;
+  meter: AudioLevelMeter;
+  lastLoudAt: number;
+  level: number;
+}
+
+export class ActiveSpeakerDetector extends TypedEventEmitter<SpeakerDetectionEvents> {
+  private context: AudioContext | null = null;
+  private participants: Map<string, TrackedParticipant> = new Map();
+  private speakingIds: Set<string> = new Set();
+  private activeSpeakerId: string | null = null;
+  private candidate: { id: string; since: number } | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  // Brings the tracked participants in line with these streams, keyed by user id
+  setStreams(streams: Map<string, MediaStream>): void {
+    this.participants.forEach((participant, id) => {
+      const track = streams.get(id)?.getAudioTracks()[0];
+      if (track === participant.track) return;
+      participant.meter.close();
+      this.participants.delete(id);
+    });
+
+    streams.forEach((stream, id) => {
+      const track = stream.getAudioTracks()[0];
+      if (!track || this.participants.has(id)) return;
+      this.context = this.context || new AudioContext();
+      this.participants.set(id, {
+        track,
+        meter: createAudioLevelMeter(this.context, track),
+        lastLoudAt: 0,
+        level: 0
+      });
+    });
+
+    if (this.activeSpeakerId && !streams.has(this.activeSpeakerId)) {
+      this.activeSpeakerId = null;
+      this.emit('active-speaker-changed', { speakerId: null });
+    }
+
+    if (this.participants.size > 0 && !this.timer) {
+      this.timer = setInterval(() => this.sample(), SAMPLE_INTERVAL_MS);
+    } else if (this.participants.size === 0) {
+      this.stopSampling();
+    }
+  }
+
+  getActiveSpeakerId(): string | null {
+    return this.activeSpeakerId;
+  }
+
+  dispose(): void {
+    this.stopSampling();
+    this.participants.forEach(participant => participant.meter.close());
+    this.participants.clear();
+    this.context?.close();
+    this.context = null;
+    this.removeAllListeners();
+  }
+
+  private stopSampling(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private sample(): void {
+    // Autoplay policy can start the context suspended until the user interacts with the page
+    if (this.context?.state === 'suspended') this.context.resume().catch(() => undefined);
+
+    const now = Date.now();
+    const speaking = new Set<string>();
+    let loudest: string | null = null;
+
+    this.participants.forEach((participant, id) => {
+      // A muted track still delivers silence, but a disabled one may keep its last buffer
+      participant.level = participant.track.enabled && participant.track.readyState === 'live'
+        ? participant.meter.read()
+        : 0;
+      if (participant.level >= SPEAKING_LEVEL) participant.lastLoudAt = now;
+      if (now - participant.lastLoudAt > SPEAKING_HANGOVER_MS) return;
+
+      speaking.add(id);
+      if (!loudest || participant.level > this.participants.get(loudest)!.level) loudest = id;
+    });
+
+    if (speaking.size !== this.speakingIds.size || [...speaking].some(id => !this.speakingIds.has(id))) {
+      this.speakingIds = speaking;
+      this.emit('speaking-changed', { speakingIds: new Set(speaking) });
+    }
+
+    this.updateActiveSpeaker(loudest, now);
+  }
+
+  private updateActiveSpeaker(loudest: string | null, now: number): void {
+    if (!loudest || loudest === this.activeSpeakerId) {
+      this.candidate = null;
+      return;
+    }
+
+    if (this.candidate?.id !== loudest) {
+      this.candidate = { id: loudest, since: now };
+    }
+    // The first speaker takes the stage right away
+    if (this.activeSpeakerId && now - this.candidate.since < ACTIVE_SPEAKER_SWITCH_MS) return;
+
+    this.activeSpeakerId = loudest;
+    this.candidate = null;
+    this.emit('active-speaker-changed', { speakerId: loudest });
+  }
+}
@@ -0,0 +1,95 @@
+// Adaptive quality for outgoing camera video over peer connections. The camera is captured once at 720p and
+// each connection's sender is scaled with setParameters, so a student on mobile data gets a smaller stream
+// (or none, audio only) without lowering quality for everyone else. In SFU mode the same job is done by
+// simulcast layers that the media server picks per subscriber (see sfuClient.ts).
+
+import { ConnectionStatsSample } from '@/lib/connectionStats';
+
+export type VideoQuality = 'high' | 'medium' | 'low' | 'audio-only';
+
+// Best first
+export const VIDEO_QUALITIES: VideoQuality[] = ['high', 'medium', 'low', 'audio-only'];
+
+interface QualityLayer {
+  // Outgoing bandwidth estimate needed to step up to this layer
+  minBitrate: number;
+  encoding: Pick<RTCRtpEncodingParameters, 'maxBitrate' | 'scaleResolutionDownBy' | 'maxFramerate'>;
+}
+
+const QUALITY_LAYERS: Record<Exclude<VideoQuality, 'audio-only'>, QualityLayer> = {
+  high: { minBitrate: 1_200_000, encoding: { maxBitrate: 1_500_000, scaleResolutionDownBy: 1, maxFramerate: 30 } },
+  medium: { minBitrate: 450_000, encoding: { maxBitrate: 500_000, scaleResolutionDownBy: 2, maxFramerate: 30 } },
+  low: { minBitrate: 120_000, encoding: { maxBitrate: 150_000, scaleResolutionDownBy: 4, maxFramerate: 15 } }
+};
+
+// Downgrades apply on the first bad sample; upgrades wait for this many good ones in a row
+const UPGRADE_STABLE_SAMPLES = 3;
+// Without video there is little traffic to estimate bandwidth from, so audio-only retries low video on loss alone
+const AUDIO_ONLY_PROBE_SAMPLES = 5;
+const MAX_PACKET_LOSS = 0.1;
+const MAX_ROUND_TRIP_S = 1;
+
+// availableOutgoingBitrate is undefined in browsers that do not report it
+export type QualitySample = Pick<ConnectionStatsSample, 'availableOutgoingBitrate' | 'outboundPacketLoss' | 'roundTripTime'>;
+
+export interface QualityState {
+  quality: VideoQuality;
+  goodSamples: number;
+}
+
+export function createQualityState(): QualityState {
+  return { quality: 'high', goodSamples: 0 };
+}
+
+function bestQualityFor(bitrate: number | undefined): VideoQuality {
+  if (bitrate === undefined) return 'high';
+  return VIDEO_QUALITIES.find(quality => quality === 'audio-only' || bitrate >= QUALITY_LAYERS[quality].minBitrate)!;
+}
+
+function step(quality: VideoQuality, by: number): VideoQuality {
+  const index = Math.min(Math.max(VIDEO_QUALITIES.indexOf(quality) + by, 0), VIDEO_QUALITIES.length - 1);
+  return VIDEO_QUALITIES[index];
+}
+
+// Returns the quality to send at after this sample, updating the state in place
+export function nextVideoQuality(state: QualityState, sample: QualitySample): VideoQuality {
+  const congested = sample.outboundPacketLoss > MAX_PACKET_LOSS ||
+    (sample.roundTripTime !== undefined && sample.roundTripTime > MAX_ROUND_TRIP_S);
+  const current = VIDEO_QUALITIES.indexOf(state.quality);
+  let target = VIDEO_QUALITIES.indexOf(bestQualityFor(sample.availableOutgoingBitrate));
+  if (congested) target = Math.max(target, current + 1);
+
+  if (target > current) {
+    state.quality = VIDEO_QUALITIES[target];
+    state.goodSamples = 0;
+    return state.quality;
+  }
+
+  const probing = state.quality === 'audio-only';
+  if (congested || (!probing && target === current)) {
+    state.goodSamples = 0;
+    return state.quality;
+  }
+
+  state.goodSamples += 1;
+  if (state.goodSamples >= (probing ? AUDIO_ONLY_PROBE_SAMPLES : UPGRADE_STABLE_SAMPLES)) {
+    state.quality = step(state.quality, -1);
+    state.goodSamples = 0;
+  }
+  return state.quality;
+}
+
+// Returns false when the sender has not been negotiated yet, so the next sample tries again
+export async function applyVideoQuality(sender: RTCRtpSender, quality: VideoQuality): Promise<boolean> {
+  const parameters = sender.getParameters();
+  if (!parameters.encodings || parameters.encodings.length === 0) return false;
+
+  const [encoding] = parameters.encodings;
+  if (quality === 'audio-only') {
+    encoding.active = false;
+  } else {
+    Object.assign(encoding, QUALITY_LAYERS[quality].encoding, { active: true });
+  }
+  await sender.setParameters(parameters);
+  return true;
+}
@@ -1,13 +1,8 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
-import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -23,12 +18,49 @@ import {
   getDocs, 
   limit,
   orderBy,
-  deleteDoc,
   serverTimestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
-import { Class, Quiz, QuizResponse, StudentAttendance } from '@/types';
-import { WebRTCManager } from '@/lib/WebRTCManager';
+import { Class, ModerationAction, Quiz, QuizResponse, StudentAttendance, WebRTCSignal } from '@/types';
+import { LocalDescriptionDetail, MediaKind, ReconnectStateDetail, WebRTCManager, WebRTCManagerEvents } from '@/lib/WebRTCManager';
+import { getIceConfiguration } from '@/lib/iceServers';
+import { SignalingChannel } from '@/lib/signaling';
+import { getMediaMode, getMediaServer, isMeshActive } from '@/lib/mediaMode';
+import { SfuClient } from '@/lib/sfuClient';
+import { VideoQuality } from '@/lib/videoQuality';
+import { ConnectionStatsSample, exportConnectionStats } from '@/lib/connectionStats';
+import { applyAudioOutput, DevicePreferences, saveDevicePreferences } from '@/lib/mediaDevices';
+import { useClassChat } from '@/hooks/use-class-chat';
+import { ChatPanel } from '@/components/classroom/ChatPanel';
+import { useDirectMessages } from '@/hooks/use-direct-messages';
+import { DirectMessageDialog } from '@/components/classroom/DirectMessageDialog';
+import { usePresentation } from '@/hooks/use-presentation';
+import { PresentationStage } from '@/components/classroom/PresentationStage';
+import { ReconnectingOverlay } from '@/components/classroom/ReconnectingOverlay';
+import { VideoQualityBadge } from '@/components/classroom/VideoQualityBadge';
+import { ConnectionQualityIndicator } from '@/components/classroom/ConnectionQualityIndicator';
+import { NetworkHealthPanel } from '@/components/classroom/NetworkHealthPanel';
+import { PreJoinLobby } from '@/components/classroom/PreJoinLobby';
+import { DeviceSettingsDialog } from '@/components/classroom/DeviceSettingsDialog';
+import { ParticipantModerationMenu } from '@/components/classroom/ParticipantModerationMenu';
+import { ModerationLogPanel } from '@/components/classroom/ModerationLogPanel';
+import { useModeration } from '@/hooks/use-moderation';
+import { useRaisedHands } from '@/hooks/use-raised-hands';
+import { RaiseHandQueue } from '@/components/classroom/RaiseHandQueue';
+import { useMediaDevices } from '@/hooks/use-media-devices';
+import { useActiveSpeaker } from '@/hooks/use-active-speaker';
+import { VideoLayout, VideoLayoutToggle } from '@/components/classroom/VideoLayoutToggle';
+import { MediaModeToggle } from '@/components/classroom/MediaModeToggle';
+import { QuizBuilderDialog, QuizDraft } from '@/components/classroom/QuizBuilderDialog';
+import { QuizTakingDialog } from '@/components/classroom/QuizTakingDialog';
+import { QuizResultsDialog } from '@/components/classroom/QuizResultsDialog';
+import { QuestionBankPicker } from '@/components/classroom/QuestionBankPicker';
+import { recordBankUsage } from '@/lib/questionBank';
+import { useQuizCountdown } from '@/hooks/use-quiz-countdown';
+import { getQuizDeadline, getScorePercentage, getTotalPoints, gradeQuiz, hasAnswer, isLateResponse, LATE_SUBMISSION_GRACE_MS, quizFromDoc, quizResponseFromDoc, QuizSelections, selectionFromAnswer } from '@/lib/quiz';
+import { serverNow, syncServerTime } from '@/lib/serverTime';
+import { isSessionOpen, latestSessionPerStudent, subscribeToClassAttendance } from '@/lib/attendance';
+import { useAttendanceSession } from '@/hooks/use-attendance-session';
 import { 
   Video, 
   VideoOff, 
@@ -39,15 +71,19 @@ import {
   Users,
   MessageSquare,
   Award,
-  CheckCircle2,
-  XCircle,
   BarChart3,
   Copy,
   Monitor,
   Eye,
   User,
   Wifi,
-  WifiOff
+  Activity,
+  Settings,
+  Shield,
+  Hand,
+  Mail,
+  Presentation,
+  Library
 } from 'lucide-react';
 import { toast } from 'sonner';
 
@@ -56,7 +92,7 @@ class EnhancedScreenShare {
   private localStream: MediaStream | null = null;
   private isSharing = false;
 
-  async startScreenShare(): Promise<MediaStream> {
+  async startScreenShare(onEnded?: () => void): Promise<MediaStream> {
     try {
       console.log('Starting screen share...');
       
@@ -79,8 +115,11 @@ class EnhancedScreenShare {
       // Handle when user stops screen share via browser UI
       this.localStream.getTracks().forEach(track => {
         track.addEventListener('ended', () => {
+          // Each track of the share ends, but the share only stops once
+          if (!this.isSharing) return;
           console.log('Screen share track ended');
           this.stopScreenShare();
+          onEnded?.();
         });
       });
 
@@ -123,20 +162,37 @@ export function ClassRoom() {
   const [activeTab, setActiveTab] = useState('main');
   const [mediaError, setMediaError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  // Set once the user leaves the pre-join lobby; nothing is sent or joined before that
+  const [hasJoined, setHasJoined] = useState(false);
+  const [devicePreferences, setDevicePreferences] = useState<DevicePreferences | null>(null);
+  const [showDeviceSettings, setShowDeviceSettings] = useState(false);
+  const { devices } = useMediaDevices();
   
   // WebRTC States
   const webRTCManager = useRef(new WebRTCManager());
+  const signalingChannel = useRef<SignalingChannel | null>(null);
   const [remoteStreams, setRemoteStreams] = useState<Map<string, MediaStream>>(new Map());
   const [activeConnections, setActiveConnections] = useState<Set<string>>(new Set());
   const [isWebRTCInitialized, setIsWebRTCInitialized] = useState(false);
+  const [remoteScreenStream, setRemoteScreenStream] = useState<MediaStream | null>(null);
+  // Peers whose connection dropped and is being recovered, keyed by user id
+  const [reconnectingPeers, setReconnectingPeers] = useState<Map<string, number>>(new Map());
+  // Reduced camera quality the teacher sends to each student over a weak connection
+  const [videoQualities, setVideoQualities] = useState<Map<string, VideoQuality>>(new Map());
+  // Latest getStats() sample per peer connection
+  const [peerStats, setPeerStats] = useState<Map<string, ConnectionStatsSample>>(new Map());
 
   // Quiz states
   const [showQuizDialog, setShowQuizDialog] = useState(false);
+  const [showBankPicker, setShowBankPicker] = useState(false);
   const [showQuizResponseDialog, setShowQuizResponseDialog] = useState(false);
   const [showResultsDialog, setShowResultsDialog] = useState(false);
   const [activeQuiz, setActiveQuiz] = useState<Quiz | null>(null);
-  const [selectedOption, setSelectedOption] = useState<number | null>(null);
+  const [closedQuiz, setClosedQuiz] = useState<Quiz | null>(null);
+  const [quizSelections, setQuizSelections] = useState<QuizSelections>({});
   const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [submittedResponse, setSubmittedResponse] = useState<QuizResponse | null>(null);
+  const [submittingQuiz, setSubmittingQuiz] = useState(false);
   const [quizResponses, setQuizResponses] = useState<QuizResponse[]>([]);
   const [dismissedQuizzes, setDismissedQuizzes] = useState<Set<string>>(new Set());
   
@@ -144,25 +200,66 @@ export function ClassRoom() {
   const [students, setStudents] = useState<StudentAttendance[]>([]);
   const [isScreenShareActive, setIsScreenShareActive] = useState(false);
 
+  // Private message states
+  const [dmCounterpartId, setDmCounterpartId] = useState<string | null>(null);
+  const previousDmUnread = useRef(0);
+
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const screenShareRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
-  const [_localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
   const screenShareInstance = useRef(new EnhancedScreenShare());
 
-  const [newQuiz, setNewQuiz] = useState({
-    question: '',
-    option1: '',
-    option2: '',
-    option3: '',
-    option4: '',
-    correctAnswer: 0
-  });
+  // Voice activity across everyone this side hears, plus the local microphone
+  const [videoLayout, setVideoLayout] = useState<VideoLayout>('grid');
+  const localAudioTrack = localStream?.getAudioTracks()[0];
+  const speakerStreams = useMemo(() => {
+    const streams = new Map(remoteStreams);
+    if (currentUser && localStream && localAudioTrack) streams.set(currentUser.uid, localStream);
+    return streams;
+  }, [remoteStreams, localStream, localAudioTrack, currentUser]);
+  const { speakingIds, stageSpeakerId } = useActiveSpeaker(speakerStreams, currentUser?.uid);
 
   // Check if user is teacher based on class ownership
   const isTeacher = classData?.teacherId === currentUser?.uid;
 
+  // Moderation commands ride the signaling channel, over the session the student opened when joining (in SFU
+  // mode, the one opened to report their media state). A student without one has not received the command.
+  const sendModerationCommand = useCallback((userId: string, action: ModerationAction): boolean => {
+    const channel = signalingChannel.current;
+    if (!channel || !activeConnections.has(userId) || !channel.hasSession(userId)) return false;
+    channel.send(userId, { type: 'moderation', action });
+    return true;
+  }, [activeConnections]);
+  // Students' microphone and camera as they report them, for the teacher's participant list
+  const [participantMedia, setParticipantMedia] = useState<Map<string, { audioEnabled: boolean; videoEnabled: boolean }>>(new Map());
+
+  const chat = useClassChat(classData, currentUser, activeTab === 'chat');
+  const moderation = useModeration(classData, currentUser, sendModerationCommand);
+  const bannedUserIdsRef = useRef(moderation.bannedUserIds);
+  bannedUserIdsRef.current = moderation.bannedUserIds;
+  const raisedHands = useRaisedHands(classData, currentUser);
+  const directMessages = useDirectMessages(classData, currentUser, dmCounterpartId);
+  const presentation = usePresentation(classData?.id, currentUser, isTeacher);
+  useAttendanceSession(classData, currentUser, !!classData && !isTeacher && classData.status === 'live');
+
+  // Let the user know a private message arrived while the thread is closed
+  useEffect(() => {
+    if (directMessages.totalUnread > previousDmUnread.current) {
+      toast.info('New private message', {
+        description: isTeacher ? 'A student sent you a private message' : 'The teacher sent you a private message'
+      });
+    }
+    previousDmUnread.current = directMessages.totalUnread;
+  }, [directMessages.totalUnread, isTeacher]);
+
+  // TURN credentials are issued per user
+  useEffect(() => {
+    if (!currentUser) return;
+    webRTCManager.current.setIceConfigurationProvider(() => getIceConfiguration(currentUser.uid));
+  }, [currentUser]);
+
   // Find class by roomId
   useEffect(() => {
     if (!classId) {
@@ -207,29 +304,6 @@ export function ClassRoom() {
             });
           }
 
-          // Record student attendance
-          if (classDataObj.teacherId !== currentUser?.uid) {
-            console.log('Recording student attendance for student:', currentUser?.uid);
-            const attendanceQuery = query(
-              collection(db, 'attendance'),
-              where('classId', '==', classDoc.id),
-              where('studentId', '==', currentUser?.uid)
-            );
-            
-            const attendanceSnapshot = await getDocs(attendanceQuery);
-            
-            if (attendanceSnapshot.empty) {
-              await addDoc(collection(db, 'attendance'), {
-                classId: classDoc.id,
-                studentId: currentUser?.uid,
-                studentName: currentUser?.displayName || currentUser?.email || 'Student',
-                studentEmail: currentUser?.email,
-                joinedAt: Timestamp.fromDate(new Date()),
-                status: 'present'
-              });
-              console.log('Attendance recorded for student');
-            }
-          }
         } else {
           console.error('No class found with roomId:', classId);
           toast.error('Class not found. Please check the class link.');
@@ -247,42 +321,42 @@ export function ClassRoom() {
     findClassByRoomId();
   }, [classId, currentUser, navigate, isTeacher]);
 
+  // Keep class settings (e.g. chat mutes) in sync while in the room
+  useEffect(() => {
+    if (!classData?.id) return;
+
+    const unsubscribeClass = onSnapshot(doc(db, 'classes', classData.id), (snapshot) => {
+      if (!snapshot.exists()) return;
+      const data = snapshot.data();
+      setClassData(prev => prev ? {
+        ...prev,
+        ...data,
+        id: snapshot.id,
+        scheduledAt: data.scheduledAt?.toDate(),
+        createdAt: data.createdAt?.toDate(),
+        startedAt: data.startedAt?.toDate(),
+        endedAt: data.endedAt?.toDate()
+      } as Class : prev);
+    }, (error) => {
+      console.error('Error listening to class updates:', error);
+    });
+
+    return () => unsubscribeClass();
+  }, [classData?.id]);
+
 // In ClassRoom.tsx - Replace the students useEffect
 useEffect(() => {
   if (!classData?.id) return;
 
   console.log('Fetching students for class:', classData.id);
 
-  const attendanceQuery = query(
-    collection(db, 'attendance'),
-    where('classId', '==', classData.id),
-    orderBy('joinedAt', 'desc')
-  );
-
-  const unsubscribeAttendance = onSnapshot(attendanceQuery, (snapshot) => {
-    const studentsData: StudentAttendance[] = [];
-    const uniqueStudentIds = new Set(); // Track unique student IDs
-    
-    snapshot.forEach((doc) => {
-      const data = doc.data();
-      const studentId = data.studentId;
-      
-      // Only add if we haven't seen this student ID before
-      if (!uniqueStudentIds.has(studentId)) {
-        uniqueStudentIds.add(studentId);
-        studentsData.push({
-          id: doc.id,
-          ...data,
-          joinedAt: data.joinedAt?.toDate(),
-          leftAt: data.leftAt?.toDate()
-        } as StudentAttendance);
-      } else {
-        console.log('Skipping duplicate student:', studentId);
-      }
-    });
-    
-    console.log('Unique students loaded:', studentsData.length);
+  const unsubscribeAttendance = subscribeToClassAttendance(classData.id, (sessions) => {
+    // Students can have several sessions; only those still in the room are listed
+    const studentsData = latestSessionPerStudent(sessions).filter(session => isSessionOpen(session));
+    console.log('Students in class:', studentsData.length);
     setStudents(studentsData);
+  }, (error) => {
+    console.error('Error listening to attendance:', error);
   });
 
   return () => unsubscribeAttendance();
@@ -291,6 +365,11 @@ useEffect(() => {
 useEffect(() => {
   if (!activeQuiz?.id || !currentUser || isTeacher) return;
 
+  // A new quiz starts with a clean slate
+  setQuizSelections({});
+  setHasSubmitted(false);
+  setSubmittedResponse(null);
+
   // Check if student has already submitted this quiz
   const checkExistingResponse = async () => {
     try {
@@ -304,8 +383,12 @@ useEffect(() => {
       const responseSnapshot = await getDocs(responseQuery);
       
       if (!responseSnapshot.empty) {
-        const existingResponse = responseSnapshot.docs[0].data();
-        setSelectedOption(existingResponse.selectedOption);
+        const responseDoc = responseSnapshot.docs[0];
+        const existingResponse = quizResponseFromDoc(responseDoc.id, responseDoc.data());
+        setQuizSelections(Object.fromEntries(
+          existingResponse.answers.map(answer => [answer.questionId, selectionFromAnswer(answer)])
+        ));
+        setSubmittedResponse(existingResponse);
         setHasSubmitted(true);
         console.log('Student has already submitted this quiz');
       }
@@ -334,16 +417,11 @@ useEffect(() => {
     const unsubscribeQuizzes = onSnapshot(quizzesQuery, (snapshot) => {
       if (!snapshot.empty) {
         const quizDoc = snapshot.docs[0];
-        const quizData = quizDoc.data();
-        
-        const activeQuizData: Quiz = {
-          id: quizDoc.id,
-          ...quizData,
-          createdAt: quizData.createdAt?.toDate(),
-        } as Quiz;
+        // The creator sees a pending startedAt until the server assigns it
+        const activeQuizData = quizFromDoc(quizDoc.id, quizDoc.data({ serverTimestamps: 'estimate' }));
         
         setActiveQuiz(activeQuizData);
-        console.log('Active quiz received:', activeQuizData.question);
+        console.log('Active quiz received:', activeQuizData.title);
 
         // Show quiz dialog to students automatically
         if (!isTeacher && !dismissedQuizzes.has(quizDoc.id)) {
@@ -372,12 +450,7 @@ useEffect(() => {
     const unsubscribeResponses = onSnapshot(responsesQuery, (snapshot) => {
       const responses: QuizResponse[] = [];
       snapshot.forEach((doc) => {
-        const data = doc.data();
-        responses.push({
-          id: doc.id,
-          ...data,
-          submittedAt: data.submittedAt?.toDate()
-        } as QuizResponse);
+        responses.push(quizResponseFromDoc(doc.id, doc.data()));
       });
       setQuizResponses(responses);
     });
@@ -391,128 +464,75 @@ useEffect(() => {
 
     console.log('Setting up WebRTC signaling listener for class:', classData.id);
 
-    const processedSignalIds = new Set<string>();
-    const recentSignalKeys = new Map();
-
-    const signalingQuery = query(
-      collection(db, 'webrtcSignals'),
-      where('classId', '==', classData.id),
-      where('targetUserId', '==', currentUser.uid),
-      orderBy('createdAt', 'desc'),
-      limit(50)
-    );
-
-    const unsubscribeSignaling = onSnapshot(signalingQuery, 
-      async (snapshot) => {
-        const now = Date.now();
-        
-        for (const docChange of snapshot.docChanges()) {
-          if (docChange.type === 'added') {
-            const signal = docChange.doc.data();
-            const signalId = docChange.doc.id;
-            
-            // Skip if already processed
-            if (processedSignalIds.has(signalId)) continue;
-            processedSignalIds.add(signalId);
-            
-            // Create unique key and check for duplicates within 3 seconds
-            const signalKey = `${signal.type}-${signal.fromUserId}`;
-            const lastSignalTime = recentSignalKeys.get(signalKey) || 0;
-            
-            if (now - lastSignalTime < 3000) {
-              console.log('Skipping duplicate signal:', signalKey);
-              continue;
-            }
-            recentSignalKeys.set(signalKey, now);
-            
-            console.log('Processing WebRTC signal:', signal.type, 'from:', signal.fromUserId);
-            await handleSignalingMessage(signal);
-            
-            // Clean up signal after processing
-            try {
-              await deleteDoc(doc(db, 'webrtcSignals', signalId));
-            } catch (error) {
-              console.error('Error deleting signal:', error);
-            }
-          }
-        }
-      },
-      (error) => {
-        console.error('Error listening to WebRTC signals:', error);
-      }
-    );
+    const channel = new SignalingChannel(classData.id, currentUser.uid, (signal) => handleSignalingMessage(signal));
+    signalingChannel.current = channel;
+    channel.start();
 
     return () => {
-      unsubscribeSignaling();
+      channel.stop();
+      signalingChannel.current = null;
       webRTCManager.current.closeAllConnections();
       webRTCManager.current.stopLocalStream();
     };
   }, [classData?.id, currentUser, isTeacher]);
 
-  // Handle WebRTC signaling messages
-  const handleSignalingMessage = async (signal: any) => {
+  // Handle WebRTC signaling messages; the channel delivers them in order and only for the current session
+  const handleSignalingMessage = async (signal: WebRTCSignal) => {
     try {
-      // Skip if this is our own signal
-      if (signal.fromUserId === currentUser?.uid) return;
-
-      console.log('Processing WebRTC signal:', signal.type, 'from:', signal.fromUserId);
-
       switch (signal.type) {
+        // Either side may offer (e.g. a student turning their camera on); the manager resolves glare,
+        // with the side that asked for the connection as the polite peer
         case 'offer':
-          if (!isTeacher) {
-            console.log('Handling offer from teacher:', signal.fromUserId);
-            
-            try {
-              const answer = await webRTCManager.current.handleOffer(signal.fromUserId, {
-                type: signal.offer.type,
-                sdp: signal.offer.sdp
-              });
-              
-              await sendSignalingMessage({
-                type: 'answer',
-                fromUserId: currentUser?.uid,
-                targetUserId: signal.fromUserId,
-                answer: answer
-              });
-              
-              console.log('Answer sent to teacher successfully');
-            } catch (error) {
-              console.error('Error handling teacher offer:', error);
-            }
+        case 'answer': {
+          const description = signal.type === 'offer' ? signal.offer : signal.answer;
+          try {
+            await webRTCManager.current.handleDescription(signal.fromUserId, {
+              type: description.type,
+              sdp: description.sdp
+            }, {
+              polite: isPolitePeer(signal.fromUserId),
+              screenStreamId: signal.screenStreamId || null
+            });
+          } catch (error) {
+            console.error(`Error handling ${signal.type}:`, error);
           }
           break;
+        }
 
-        case 'answer':
-          if (isTeacher) {
-            console.log('Handling answer from student:', signal.fromUserId);
-            
-            try {
-              await webRTCManager.current.handleAnswer(signal.fromUserId, {
-                type: signal.answer.type,
-                sdp: signal.answer.sdp
-              });
-            } catch (error) {
-              console.error('Error handling student answer:', error);
-            }
+        case 'ice-candidates':
+          console.log('Handling', signal.candidates.length, 'ICE candidates from:', signal.fromUserId);
+          for (const candidate of signal.candidates) {
+            await webRTCManager.current.addIceCandidate(signal.fromUserId, candidate);
           }
           break;
 
-        case 'ice-candidate':
-          console.log('Handling ICE candidate from:', signal.fromUserId);
-          await webRTCManager.current.addIceCandidate(signal.fromUserId, signal.candidate);
+        // Each join-request starts a new session, so always answer it with a fresh connection. Students
+        // only take requests from classmates in discussion mode.
+        case 'join-request':
+          // Connections are always requested by students, never by the teacher
+          if (sfuModeRef.current || signal.fromUserId === classData?.teacherId) break;
+          if (isTeacher && bannedUserIdsRef.current.includes(signal.fromUserId)) {
+            console.log('Ignoring join request from banned user:', signal.fromUserId);
+            break;
+          }
+          if (isTeacher || meshActiveRef.current) {
+            console.log('Handling join request from:', signal.fromUserId);
+            await webRTCManager.current.connect(signal.fromUserId, false);
+          }
           break;
 
-        case 'join-request':
+        case 'moderation':
+          if (!isTeacher && signal.fromUserId === classData?.teacherId) {
+            moderationHandlerRef.current(signal.action);
+          }
+          break;
+
+        case 'media-state':
           if (isTeacher) {
-            console.log('Handling join request from student:', signal.fromUserId);
-            
-            // Check if we already have a healthy connection
-            if (webRTCManager.current.isConnectionHealthy(signal.fromUserId)) {
-              console.log('Already connected to student:', signal.fromUserId);
-              return;
-            }
-            
-            await initiateConnectionWithStudent(signal.fromUserId);
+            setParticipantMedia(prev => new Map(prev).set(signal.fromUserId, {
+              audioEnabled: signal.audioEnabled,
+              videoEnabled: signal.videoEnabled
+            }));
           }
           break;
       }
@@ -521,59 +541,163 @@ useEffect(() => {
     }
   };
 
-  // Send signaling message
-  const sendSignalingMessage = async (message: any) => {
-    if (!classData || !currentUser) return;
-
-    try {
-      await addDoc(collection(db, 'webrtcSignals'), {
-        ...message,
-        classId: classData.id,
-        createdAt: serverTimestamp()
-      });
-      console.log('Sent WebRTC signal:', message.type);
-    } catch (error) {
-      console.error('Error sending signaling message:', error);
-    }
+  // The side that asks for a connection is the polite peer: students towards the teacher, and the
+  // classmate with the smaller id within a mesh pair
+  const isPolitePeer = (peerId: string) => {
+    if (isTeacher || !currentUser) return false;
+    return peerId === classData?.teacherId || currentUser.uid < peerId;
   };
 
-  const initiateConnectionWithStudent = async (studentId: string) => {
-    if (!isTeacher || !currentUser) return;
+  // Asks a peer for a fresh connection; the peer answers with an offer
+  const requestConnection = useCallback((peerId: string) => {
+    if (isTeacher || !signalingChannel.current) return;
 
-    try {
-      console.log('Initiating connection with student:', studentId);
-      const offer = await webRTCManager.current.createOffer(studentId);
-      
-      await sendSignalingMessage({
-        type: 'offer',
-        fromUserId: currentUser.uid,
-        targetUserId: studentId,
-        offer: offer
-      });
-      
-      console.log('Offer sent successfully to student:', studentId);
-    } catch (error) {
-      console.error('Error initiating connection:', error);
-      toast.error('Failed to connect with student');
-    }
-  };
+    console.log('Sending join request to:', peerId);
+    signalingChannel.current.startSession(peerId);
+  }, [isTeacher]);
 
   // Student join request
-  const sendJoinRequest = useCallback(async () => {
-    if (isTeacher || !classData || !currentUser) return;
-
-    console.log('Sending join request to teacher');
-    await sendSignalingMessage({
-      type: 'join-request',
-      fromUserId: currentUser.uid,
-      targetUserId: classData.teacherId
+  const teacherId = classData?.teacherId;
+  const sendJoinRequest = useCallback(() => {
+    if (isTeacher || !teacherId) return;
+
+    // Drop any stale connection (and reconnect in progress) before asking for a new one
+    webRTCManager.current.closeConnection(teacherId);
+    requestConnection(teacherId);
+  }, [isTeacher, teacherId, requestConnection]);
+
+  // SFU mode: media goes through the media server instead of peer connections; the client emits the same
+  // events as WebRTCManager so the rest of the room does not care which path is in use
+  const sfuMode = getMediaServer(classData) === 'sfu';
+  const sfuModeRef = useRef(sfuMode);
+  sfuModeRef.current = sfuMode;
+  const [sfuClient, setSfuClient] = useState<SfuClient | null>(null);
+  const [sfuAttempt, setSfuAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!sfuMode || !hasJoined || !classData?.id || !teacherId || !currentUser) return;
+
+    const manager = webRTCManager.current;
+    // Peer connections from before the switch would duplicate every stream
+    manager.closeAllConnections();
+
+    const client = new SfuClient({
+      classId: classData.id,
+      userId: currentUser.uid,
+      displayName: currentUser.displayName || currentUser.email || 'Participant',
+      teacherId
     });
-  }, [isTeacher, classData, currentUser]);
+    const unsubscribers = [
+      manager.on('local-track-changed', ({ kind, track }) => {
+        client.setLocalTrack(kind, track).catch(error => console.error('Error publishing track to SFU:', error));
+      }),
+      manager.on('local-screen-changed', ({ stream }) => {
+        client.setScreenStream(stream).catch(error => console.error('Error publishing screen to SFU:', error));
+      })
+    ];
+    setSfuClient(client);
+
+    const connectToSfu = async () => {
+      try {
+        await client.connect(await getIceConfiguration(currentUser.uid));
+        for (const track of manager.getLocalStream()?.getTracks() || []) {
+          await client.setLocalTrack(track.kind as MediaKind, track);
+        }
+        await client.setScreenStream(manager.getScreenStream());
+      } catch (error) {
+        console.error('Error connecting to SFU:', error);
+        toast.error('Could not connect to the media server');
+      }
+    };
+    connectToSfu();
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setSfuClient(null);
+      client.disconnect().catch(error => console.error('Error leaving SFU room:', error));
+    };
+  }, [sfuMode, hasJoined, sfuAttempt, classData?.id, teacherId, currentUser]);
+
+  // Discussion mode: students also connect directly to every classmate in the room
+  const meshActive = isMeshActive(classData, students.length);
+  const meshActiveRef = useRef(meshActive);
+  meshActiveRef.current = meshActive;
+  const classmateKey = meshActive && !isTeacher
+    ? students.map(student => student.studentId).filter(id => id !== classData?.teacherId).sort().join(',')
+    : '';
+
+  const classmateStreams = Array.from(remoteStreams.entries()).filter(([peerId]) => peerId !== classData?.teacherId);
+
+  useEffect(() => {
+    if (!currentUser || isTeacher) return;
+    webRTCManager.current.setMeshPeers(currentUser.uid, classmateKey ? classmateKey.split(',') : []);
+  }, [classmateKey, currentUser, isTeacher]);
+
+  // Through the SFU, discussion mode is only a matter of what each student subscribes to
+  const subscribeToClassmates = getMediaMode(classData) === 'discussion';
+  useEffect(() => {
+    sfuClient?.setSubscribeToClassmates(subscribeToClassmates);
+  }, [sfuClient, subscribeToClassmates]);
+
+  // Connection recovery: track which tiles are reconnecting, and let the student re-request the connection
+  // once an ICE restart alone did not bring it back
+  useEffect(() => {
+    const manager = webRTCManager.current;
+    const sources = sfuClient ? [manager, sfuClient] : [manager];
+
+    const handleReconnectState = ({ studentId, state, attempt }: ReconnectStateDetail) => {
+      setReconnectingPeers(prev => {
+        const next = new Map(prev);
+        if (state === 'reconnecting') {
+          next.set(studentId, attempt);
+        } else {
+          next.delete(studentId);
+        }
+        return next;
+      });
+
+      if (state === 'reconnecting') {
+        setActiveConnections(prev => {
+          const newSet = new Set(prev);
+          newSet.delete(studentId);
+          return newSet;
+        });
+      } else if (state === 'failed' && !isTeacher && studentId === classData?.teacherId) {
+        toast.error('Lost connection to the teacher', {
+          description: 'Automatic reconnection did not succeed',
+          duration: Infinity,
+          action: {
+            label: 'Reconnect',
+            onClick: () => (sfuMode ? setSfuAttempt(count => count + 1) : sendJoinRequest())
+          }
+        });
+      }
+    };
+
+    const handlePeerReconnect = ({ studentId }: { studentId: string }) => {
+      if (isTeacher || (studentId !== classData?.teacherId && !manager.isMeshPeer(studentId))) return;
+      requestConnection(studentId);
+    };
+
+    const handleMeshPeerAdded = ({ studentId }: { studentId: string }) => {
+      requestConnection(studentId);
+    };
+
+    const unsubscribers = [
+      ...sources.map(source => source.on('peer-reconnect-state', handleReconnectState)),
+      manager.on('peer-reconnect', handlePeerReconnect),
+      manager.on('mesh-peer-added', handleMeshPeerAdded)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [isTeacher, classData?.teacherId, requestConnection, sendJoinRequest, sfuClient, sfuMode]);
 
   // WebRTC Event Listeners
   useEffect(() => {
-    const handleRemoteStreamAdded = (event: CustomEvent) => {
-      const { studentId, stream } = event.detail;
+    const manager = webRTCManager.current;
+    const sources = sfuClient ? [manager, sfuClient] : [manager];
+
+    const handleRemoteStreamAdded = ({ studentId, stream }: WebRTCManagerEvents['remote-stream-added']) => {
       console.log('Remote stream added event:', studentId);
       setRemoteStreams(prev => new Map(prev).set(studentId, stream));
       
@@ -587,30 +711,36 @@ useEffect(() => {
       }, 100);
     };
 
-    const handleRemoteStreamRemoved = (event: CustomEvent) => {
-      const { studentId } = event.detail;
-      console.log('Remote stream removed event:', studentId);
-      setRemoteStreams(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(studentId);
-        return newMap;
-      });
+    const handleRemoteScreenAdded = ({ studentId, stream }: WebRTCManagerEvents['remote-screen-added']) => {
+      console.log('Remote screen share added event:', studentId);
+      setRemoteScreenStream(stream);
     };
 
-    const handlePeerConnected = (event: CustomEvent) => {
-      const { studentId } = event.detail;
+    const handleRemoteScreenRemoved = ({ studentId }: WebRTCManagerEvents['remote-screen-removed']) => {
+      console.log('Remote screen share removed event:', studentId);
+      setRemoteScreenStream(null);
+    };
+
+    const handlePeerConnected = ({ studentId }: WebRTCManagerEvents['peer-connected']) => {
       console.log('Peer connected event:', studentId);
       setActiveConnections(prev => new Set(prev).add(studentId));
       
       if (isTeacher) {
         toast.success(`Connected with student`);
-      } else {
+      } else if (studentId === classData?.teacherId) {
         toast.success('Connected with teacher');
       }
     };
 
-    const handlePeerDisconnected = (event: CustomEvent) => {
-      const { studentId } = event.detail;
+    const handleVideoQuality = ({ studentId, quality }: WebRTCManagerEvents['peer-video-quality']) => {
+      setVideoQualities(prev => new Map(prev).set(studentId, quality));
+    };
+
+    const handlePeerStats = ({ studentId, sample }: WebRTCManagerEvents['peer-stats']) => {
+      setPeerStats(prev => new Map(prev).set(studentId, sample));
+    };
+
+    const handlePeerDisconnected = ({ studentId }: WebRTCManagerEvents['peer-disconnected']) => {
       console.log('Peer disconnected event:', studentId);
       setActiveConnections(prev => {
         const newSet = new Set(prev);
@@ -622,78 +752,162 @@ useEffect(() => {
         newMap.delete(studentId);
         return newMap;
       });
+      setVideoQualities(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(studentId);
+        return newMap;
+      });
+      setPeerStats(prev => {
+        const newMap = new Map(prev);
+        newMap.delete(studentId);
+        return newMap;
+      });
       
       if (isTeacher) {
         toast.info(`Student disconnected`);
       }
     };
 
-    const handleIceCandidate = (event: CustomEvent) => {
-      const { studentId, candidate } = event.detail;
-      sendSignalingMessage({
-        type: 'ice-candidate',
-        fromUserId: currentUser?.uid,
-        targetUserId: studentId,
-        candidate: candidate
-      });
+    const handleLocalDescription = ({ studentId, description, screenStreamId }: LocalDescriptionDetail) => {
+      const sessionDescription = { type: description.type, sdp: description.sdp };
+      if (description.type === 'offer') {
+        signalingChannel.current?.send(studentId, { type: 'offer', offer: sessionDescription, screenStreamId });
+      } else if (description.type === 'answer') {
+        signalingChannel.current?.send(studentId, { type: 'answer', answer: sessionDescription, screenStreamId });
+      }
     };
 
-    window.addEventListener('remote-stream-added', handleRemoteStreamAdded as EventListener);
-    window.addEventListener('remote-stream-removed', handleRemoteStreamRemoved as EventListener);
-    window.addEventListener('peer-connected', handlePeerConnected as EventListener);
-    window.addEventListener('peer-disconnected', handlePeerDisconnected as EventListener);
-    window.addEventListener('ice-candidate', handleIceCandidate as EventListener);
-
-    return () => {
-      window.removeEventListener('remote-stream-added', handleRemoteStreamAdded as EventListener);
-      window.removeEventListener('remote-stream-removed', handleRemoteStreamRemoved as EventListener);
-      window.removeEventListener('peer-connected', handlePeerConnected as EventListener);
-      window.removeEventListener('peer-disconnected', handlePeerDisconnected as EventListener);
-      window.removeEventListener('ice-candidate', handleIceCandidate as EventListener);
+    const handleIceCandidate = ({ studentId, candidate }: WebRTCManagerEvents['ice-candidate']) => {
+      signalingChannel.current?.sendCandidate(studentId, candidate);
     };
-  }, [currentUser, isTeacher]);
 
-  // Initialize WebRTC for teacher
+    const unsubscribers = [
+      ...sources.flatMap(source => [
+        source.on('remote-stream-added', handleRemoteStreamAdded),
+        source.on('remote-screen-added', handleRemoteScreenAdded),
+        source.on('remote-screen-removed', handleRemoteScreenRemoved),
+        source.on('peer-connected', handlePeerConnected),
+        source.on('peer-disconnected', handlePeerDisconnected)
+      ]),
+      manager.on('ice-candidate', handleIceCandidate),
+      manager.on('local-description', handleLocalDescription),
+      manager.on('peer-video-quality', handleVideoQuality),
+      manager.on('peer-stats', handlePeerStats)
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [currentUser, isTeacher, classData?.teacherId, sfuClient]);
+
+  // Student auto-join over peer connections (in SFU mode the SFU effect joins instead). A student without
+  // devices still joins, to watch.
   useEffect(() => {
-    if (isTeacher) {
-      const initializeTeacherMedia = async () => {
-        try {
-          await initializeMedia(true, true);
-          console.log('Teacher media initialized successfully');
-        } catch (error) {
-          console.error('Failed to initialize teacher media:', error);
-        }
-      };
-      initializeTeacherMedia();
+    if (isTeacher || !hasJoined || sfuMode) return;
+
+    // Send join request after a delay
+    const timer = setTimeout(() => sendJoinRequest(), 2000);
+    return () => clearTimeout(timer);
+  }, [isTeacher, hasJoined, sfuMode, sendJoinRequest]);
+
+  // A banned student is sent back to the dashboard, now and on any later visit
+  useEffect(() => {
+    if (!moderation.isBanned) return;
+    toast.error('You have been removed from this class');
+    navigate('/student');
+  }, [moderation.isBanned, navigate]);
+
+  // Report microphone and camera to the teacher whenever they change or the connection is re-established
+  const connectedToTeacher = !!teacherId && activeConnections.has(teacherId);
+  useEffect(() => {
+    const channel = signalingChannel.current;
+    if (isTeacher || !hasJoined || !teacherId || !channel) return;
+    if (!channel.hasSession(teacherId)) {
+      // Peer connections start their own session with the join request; through the SFU there is none
+      if (!sfuMode) return;
+      channel.startSession(teacherId);
     }
-  }, [isTeacher]);
+    channel.send(teacherId, { type: 'media-state', audioEnabled, videoEnabled });
+  }, [isTeacher, hasJoined, teacherId, sfuMode, audioEnabled, videoEnabled, connectedToTeacher]);
+
+  // Leaving the lobby hands its preview tracks to the connections
+  const handleLobbyJoin = (stream: MediaStream | null, preferences: DevicePreferences, error: string | null) => {
+    const manager = webRTCManager.current;
+    manager.setPreferredDevice('audio', preferences.audioInputId);
+    manager.setPreferredDevice('video', preferences.videoInputId);
+    setDevicePreferences(preferences);
+
+    if (stream && stream.getTracks().length > 0) {
+      const local = manager.adoptLocalStream(stream);
+      const hasAudio = local.getAudioTracks().length > 0;
+      if (hasAudio && preferences.joinMuted) {
+        local.getAudioTracks().forEach(track => {
+          track.enabled = false;
+        });
+      }
+      setLocalStream(local);
+      setIsWebRTCInitialized(true);
+      setVideoEnabled(local.getVideoTracks().length > 0);
+      setAudioEnabled(hasAudio && !preferences.joinMuted);
+      setMediaError(null);
+    } else {
+      setMediaError(error);
+    }
+    setHasJoined(true);
+  };
 
-  // Student auto-join when class is loaded
+  const updateDevicePreference = (changes: Partial<DevicePreferences>) => {
+    setDevicePreferences(prev => {
+      const next = { ...(prev || { joinMuted: false, joinWithCamera: isTeacher }), ...changes };
+      saveDevicePreferences(next);
+      return next;
+    });
+  };
+
+  const handleSwitchDevice = async (kind: MediaKind, deviceId: string | undefined) => {
+    updateDevicePreference(kind === 'audio' ? { audioInputId: deviceId } : { videoInputId: deviceId });
+    try {
+      const track = await webRTCManager.current.switchDevice(kind, deviceId);
+      if (track) {
+        attachLocalStream();
+        toast.success(`Switched to ${track.label || (kind === 'audio' ? 'microphone' : 'camera')}`);
+      }
+    } catch (error) {
+      console.error('Error switching device:', error);
+      toast.error(kind === 'audio' ? 'Failed to switch microphone' : 'Failed to switch camera');
+    }
+  };
+
+  // Remote audio plays through the video elements, so the chosen speaker applies to each of them
+  const audioOutputId = devicePreferences?.audioOutputId;
   useEffect(() => {
-    if (!isTeacher && classData && currentUser) {
-      console.log('Student preparing to join class');
-      
-      const initializeStudentMedia = async () => {
-        try {
-          await initializeMedia(true, false);
-          console.log('Student media initialized');
-          
-          // Send join request after a delay
-          setTimeout(() => {
-            sendJoinRequest();
-          }, 2000);
-        } catch (error) {
-          console.error('Failed to initialize student media:', error);
-          // Still try to send join request
-          setTimeout(() => {
-            sendJoinRequest();
-          }, 2000);
-        }
-      };
+    remoteVideoRefs.current.forEach(element => applyAudioOutput(element, audioOutputId));
+  }, [audioOutputId, remoteStreams]);
 
-      initializeStudentMedia();
+  // An unplugged camera or microphone ends its track; fall back to the system default device
+  const handleSwitchDeviceRef = useRef(handleSwitchDevice);
+  handleSwitchDeviceRef.current = handleSwitchDevice;
+  useEffect(() => {
+    if (!hasJoined) return;
+
+    const localTracks = webRTCManager.current.getLocalStream()?.getTracks() || [];
+    localTracks.forEach(track => {
+      const available = track.kind === 'audio' ? devices.audioInputs : devices.videoInputs;
+      const deviceId = track.getSettings().deviceId;
+      const unplugged = track.readyState === 'ended' ||
+        (available.length > 0 && !!deviceId && !available.some(device => device.deviceId === deviceId));
+      if (!unplugged) return;
+
+      console.log('Local device disconnected:', track.kind, track.label);
+      toast.warning(`${track.kind === 'audio' ? 'Microphone' : 'Camera'} disconnected`);
+      handleSwitchDeviceRef.current(track.kind as MediaKind, undefined);
+    });
+  }, [devices, hasJoined]);
+
+  // The local preview mounts after media is ready, so attach the stream once both exist
+  useEffect(() => {
+    if (localVideoRef.current && localStream && localVideoRef.current.srcObject !== localStream) {
+      localVideoRef.current.srcObject = localStream;
     }
-  }, [isTeacher, classData, currentUser, sendJoinRequest]);
+  }, [localStream, isWebRTCInitialized, mediaError, videoEnabled]);
 
   // Initialize media streams
   const initializeMedia = async (audio: boolean = true, video: boolean = true): Promise<boolean> => {
@@ -710,10 +924,6 @@ useEffect(() => {
       setLocalStream(stream);
       setIsWebRTCInitialized(true);
       
-      if (localVideoRef.current) {
-        localVideoRef.current.srcObject = stream;
-      }
-      
       setVideoEnabled(video);
       setAudioEnabled(audio);
       
@@ -734,37 +944,112 @@ useEffect(() => {
     }
   };
 
+  const attachLocalStream = () => {
+    const stream = webRTCManager.current.getLocalStream();
+    setLocalStream(stream);
+    setIsWebRTCInitialized(!!stream);
+  };
+
+  // Turning a device on adds its track to the open connections, which renegotiate in place
   const toggleVideo = async () => {
     const newVideoState = !videoEnabled;
-    
-    if (!webRTCManager.current.isStreamInitialized()) {
-      await initializeMedia(audioEnabled, true);
-    } else {
-      webRTCManager.current.updateLocalStreamTracks(audioEnabled, newVideoState);
+
+    try {
+      if (newVideoState) {
+        await webRTCManager.current.ensureLocalTrack('video');
+      } else {
+        webRTCManager.current.removeLocalTrack('video');
+      }
+    } catch (error) {
+      console.error('Error toggling camera:', error);
+      toast.error('Failed to turn camera on');
+      return;
     }
-    
+
+    attachLocalStream();
     setVideoEnabled(newVideoState);
     toast.success(newVideoState ? 'Camera turned on' : 'Camera turned off');
   };
 
   const toggleAudio = async () => {
     const newAudioState = !audioEnabled;
-    
-    if (!webRTCManager.current.isStreamInitialized()) {
-      await initializeMedia(true, videoEnabled);
-    } else {
-      webRTCManager.current.updateLocalStreamTracks(newAudioState, videoEnabled);
+
+    try {
+      if (newAudioState) {
+        await webRTCManager.current.ensureLocalTrack('audio');
+      } else {
+        webRTCManager.current.updateLocalStreamTracks(false, videoEnabled);
+      }
+    } catch (error) {
+      console.error('Error toggling microphone:', error);
+      toast.error('Failed to turn microphone on');
+      return;
     }
-    
+
+    attachLocalStream();
     setAudioEnabled(newAudioState);
     toast.success(newAudioState ? 'Microphone turned on' : 'Microphone turned off');
   };
 
+  // Commands from the teacher. Unmuting is only ever requested: the student decides.
+  const handleModerationCommand = (action: ModerationAction) => {
+    console.log('Moderation command from teacher:', action);
+    const manager = webRTCManager.current;
+
+    switch (action) {
+      case 'mute':
+        if (!audioEnabled) return;
+        manager.updateLocalStreamTracks(false, videoEnabled);
+        setAudioEnabled(false);
+        toast.info('The teacher muted your microphone');
+        break;
+
+      case 'request-unmute':
+        toast('The teacher asked you to unmute', {
+          action: {
+            label: 'Unmute',
+            onClick: () => {
+              manager.ensureLocalTrack('audio')
+                .then(() => {
+                  attachLocalStream();
+                  setAudioEnabled(true);
+                })
+                .catch(error => {
+                  console.error('Error unmuting:', error);
+                  toast.error('Failed to turn microphone on');
+                });
+            }
+          }
+        });
+        break;
+
+      case 'disable-camera':
+        if (!videoEnabled) return;
+        manager.removeLocalTrack('video');
+        attachLocalStream();
+        setVideoEnabled(false);
+        toast.info('The teacher turned off your camera');
+        break;
+
+      case 'remove':
+        toast.error('The teacher removed you from the class');
+        navigate('/student');
+        break;
+
+      case 'ban':
+        // Carried out by the isBanned effect once the class document updates
+        break;
+    }
+  };
+  const moderationHandlerRef = useRef(handleModerationCommand);
+  moderationHandlerRef.current = handleModerationCommand;
+
   const handleStartScreenShare = async () => {
     try {
       console.log('Starting screen share...');
       
-      const stream = await screenShareInstance.current.startScreenShare();
+      // Stopping from the browser's own "Stop sharing" button goes through the same cleanup
+      const stream = await screenShareInstance.current.startScreenShare(() => handleStopScreenShare());
       setScreenStream(stream);
       setIsScreenSharing(true);
 
@@ -772,6 +1057,10 @@ useEffect(() => {
         screenShareRef.current.srcObject = stream;
       }
 
+      if (isTeacher) {
+        await webRTCManager.current.startScreenShare(stream);
+      }
+
       // Record screen share in database for students
       if (isTeacher && classData) {
         try {
@@ -779,6 +1068,7 @@ useEffect(() => {
             classId: classData.id,
             teacherId: currentUser?.uid,
             teacherName: currentUser?.displayName || currentUser?.email,
+            streamId: stream.id,
             isActive: true,
             startedAt: Timestamp.fromDate(new Date())
           });
@@ -801,6 +1091,10 @@ useEffect(() => {
     setScreenStream(null);
     setIsScreenSharing(false);
 
+    if (isTeacher) {
+      await webRTCManager.current.stopScreenShare();
+    }
+
     if (isTeacher && classData) {
       try {
         const activeSharesQuery = query(
@@ -827,56 +1121,79 @@ useEffect(() => {
     toast.info('Screen sharing stopped');
   };
 
-  const handleCreateQuiz = async (e: React.FormEvent) => {
-    e.preventDefault();
-
-    if (!classData) return;
+  const handleCreateQuiz = async (draft: QuizDraft, bankQuestionIds: string[] = []): Promise<boolean> => {
+    if (!classData) return false;
 
     try {
       const quizData = {
         classId: classData.id,
         teacherId: currentUser!.uid,
         teacherName: currentUser!.displayName || currentUser!.email,
-        question: newQuiz.question,
-        options: [newQuiz.option1, newQuiz.option2, newQuiz.option3, newQuiz.option4],
-        correctAnswer: newQuiz.correctAnswer,
+        title: draft.title,
+        questions: draft.questions,
+        totalPoints: getTotalPoints(draft.questions),
         createdAt: Timestamp.fromDate(new Date()),
+        startedAt: serverTimestamp(),
+        timeLimitSeconds: draft.timeLimitSeconds,
         isActive: true
       };
 
-      await addDoc(collection(db, 'quizzes'), quizData);
+      const quizRef = await addDoc(collection(db, 'quizzes'), quizData);
       toast.success('Quiz created successfully!');
       setShowQuizDialog(false);
-      setNewQuiz({ question: '', option1: '', option2: '', option3: '', option4: '', correctAnswer: 0 });
-    } catch (error: any) {
+      setShowBankPicker(false);
+
+      recordBankUsage(bankQuestionIds, {
+        classId: classData.id,
+        classTitle: classData.title,
+        quizId: quizRef.id
+      }).catch(error => console.error('Error recording question bank usage:', error));
+      setClosedQuiz(null);
+      return true;
+    } catch (error) {
+      console.error('Error creating quiz:', error);
       toast.error('Failed to create quiz');
+      return false;
     }
   };
 
 const handleSubmitQuizResponse = async () => {
-  if (selectedOption === null || !activeQuiz || !classData || hasSubmitted) return;
+  if (!activeQuiz || !classData || hasSubmitted || submittingQuiz) return;
+
+  const deadline = getQuizDeadline(activeQuiz);
+  if (deadline !== null && serverNow() > deadline + LATE_SUBMISSION_GRACE_MS) {
+    toast.error("Time is up. Your answers can't be submitted anymore.");
+    return;
+  }
 
+  setSubmittingQuiz(true);
   try {
+    const result = gradeQuiz(activeQuiz, quizSelections);
     const responseData = {
       quizId: activeQuiz.id,
       classId: classData.id,
       studentId: currentUser!.uid,
       studentName: currentUser!.displayName || currentUser!.email || 'Student',
-      selectedOption,
-      isCorrect: selectedOption === activeQuiz.correctAnswer,
-      submittedAt: Timestamp.fromDate(new Date()),
-      question: activeQuiz.question,
-      correctOption: activeQuiz.options[activeQuiz.correctAnswer],
-      studentAnswer: activeQuiz.options[selectedOption]
+      quizTitle: activeQuiz.title,
+      ...result,
+      submittedAt: serverTimestamp()
     };
 
-    await addDoc(collection(db, 'quizResponses'), responseData);
-    toast.success('Answer submitted!');
+    const responseRef = await addDoc(collection(db, 'quizResponses'), responseData);
+    toast.success(`Quiz submitted! You scored ${result.score}/${result.maxScore}`);
+    setSubmittedResponse({
+      id: responseRef.id,
+      ...responseData,
+      submittedAt: new Date()
+    });
     setHasSubmitted(true);
     
     // Don't automatically close the dialog - let student review
-  } catch (error: any) {
-    toast.error('Failed to submit answer');
+  } catch (error) {
+    console.error('Error submitting quiz response:', error);
+    toast.error('Failed to submit answers');
+  } finally {
+    setSubmittingQuiz(false);
   }
 };
 
@@ -885,10 +1202,6 @@ const handleQuizDialogClose = () => {
     setDismissedQuizzes(prev => new Set(prev).add(activeQuiz.id));
   }
   setShowQuizResponseDialog(false);
-  // Don't reset selected option if already submitted
-  if (!hasSubmitted) {
-    setSelectedOption(null);
-  }
 };
 
 const handleReopenQuiz = () => {
@@ -906,7 +1219,12 @@ const handleReopenQuiz = () => {
     if (!activeQuiz) return;
 
     try {
-      await updateDoc(doc(db, 'quizzes', activeQuiz.id), { isActive: false });
+      await updateDoc(doc(db, 'quizzes', activeQuiz.id), {
+        isActive: false,
+        closedAt: serverTimestamp()
+      });
+      // Keep the results on screen after the quiz listener drops the closed quiz
+      setClosedQuiz({ ...activeQuiz, isActive: false, closedAt: new Date(serverNow()) });
       toast.success('Quiz closed');
       setShowResultsDialog(true);
     } catch (error: any) {
@@ -914,6 +1232,34 @@ const handleReopenQuiz = () => {
     }
   };
 
+  // Timed quizzes: the teacher's client closes the quiz and students submit what they have before time runs out
+  const quizCountdown = useQuizCountdown(activeQuiz);
+  const autoHandledQuizId = useRef<string | null>(null);
+  // Always call the latest handlers without re-running the timer effect on every render
+  const quizTimeUpHandlers = useRef({ closeQuiz: handleCloseQuiz, submitQuiz: handleSubmitQuizResponse });
+  quizTimeUpHandlers.current = { closeQuiz: handleCloseQuiz, submitQuiz: handleSubmitQuizResponse };
+
+  useEffect(() => {
+    if (currentUser) syncServerTime(currentUser.uid);
+  }, [currentUser]);
+
+  useEffect(() => {
+    if (!activeQuiz || quizCountdown.remainingMs === null || autoHandledQuizId.current === activeQuiz.id) return;
+
+    if (isTeacher && quizCountdown.isExpired) {
+      autoHandledQuizId.current = activeQuiz.id;
+      toast.info("Time's up! Closing quiz");
+      quizTimeUpHandlers.current.closeQuiz();
+    } else if (!isTeacher && !hasSubmitted && quizCountdown.remainingMs <= 1000) {
+      autoHandledQuizId.current = activeQuiz.id;
+      const hasAnswers = Object.values(quizSelections).some(hasAnswer);
+      if (hasAnswers) {
+        toast.info("Time's up! Submitting your answers");
+        quizTimeUpHandlers.current.submitQuiz();
+      }
+    }
+  }, [activeQuiz, quizCountdown.remainingMs, quizCountdown.isExpired, isTeacher, hasSubmitted, quizSelections]);
+
   const handleEndClass = async () => {
     if (!classData) return;
 
@@ -944,6 +1290,17 @@ const handleReopenQuiz = () => {
     toast.success('Class link copied to clipboard');
   };
 
+  const studentNames = Object.fromEntries(students.map(student => [student.studentId, student.studentName]));
+
+  const handleExportStats = () => {
+    if (!classData || !currentUser) return;
+    exportConnectionStats(webRTCManager.current.getStatsHistory(), {
+      classId: classData.id,
+      userId: currentUser.uid,
+      names: studentNames
+    });
+  };
+
   const retryMedia = () => {
     initializeMedia(audioEnabled, videoEnabled);
   };
@@ -977,12 +1334,28 @@ const handleReopenQuiz = () => {
     return () => unsubscribeScreenShares();
   }, [classData?.id, isTeacher]);
 
-  const correctCount = quizResponses.filter(r => r.isCorrect).length;
-  const totalResponses = quizResponses.length;
-  const accuracy = totalResponses > 0 ? Math.round((correctCount / totalResponses) * 100) : 0;
+  // Late submissions are rejected, so they never count towards the stats
+  const resultsQuiz = activeQuiz || closedQuiz;
+  const countedResponses = resultsQuiz
+    ? quizResponses.filter(response => !isLateResponse(resultsQuiz, response))
+    : quizResponses;
+  const totalResponses = countedResponses.length;
+  const accuracy = totalResponses > 0
+    ? Math.round(countedResponses.reduce((total, response) => total + getScorePercentage(response), 0) / totalResponses)
+    : 0;
 
   const canReopenQuiz = !isTeacher && activeQuiz && dismissedQuizzes.has(activeQuiz.id) && !hasSubmitted;
 
+  const speakingRing = (userId: string | undefined) =>
+    userId && speakingIds.has(userId) ? 'ring-2 ring-green-400' : '';
+
+  // Speaker view moves the stage speaker to the front and enlarges their tile
+  const isPromoted = (userId: string) => videoLayout === 'speaker' && userId === stageSpeakerId;
+  const orderForLayout = (entries: [string, MediaStream][]) =>
+    videoLayout === 'speaker' && stageSpeakerId
+      ? [...entries].sort(([a], [b]) => Number(b === stageSpeakerId) - Number(a === stageSpeakerId))
+      : entries;
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center">
@@ -1007,6 +1380,10 @@ const handleReopenQuiz = () => {
     );
   }
 
+  if (!hasJoined) {
+    return <PreJoinLobby classTitle={classData.title} isTeacher={isTeacher} onJoin={handleLobbyJoin} />;
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 text-white flex flex-col">
       {/* Header */}
@@ -1033,6 +1410,15 @@ const handleReopenQuiz = () => {
             <Copy className="w-4 h-4 mr-2" />
             Copy Link
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setShowDeviceSettings(true)}
+            className="text-gray-300 hover:text-white"
+            title="Audio & video settings"
+          >
+            <Settings className="w-4 h-4" />
+          </Button>
         </div>
 
         <div className="flex items-center gap-2">
@@ -1074,6 +1460,20 @@ const handleReopenQuiz = () => {
             </Button>
           )}
           
+          {!isTeacher && (
+            <Button
+              variant={raisedHands.myHand ? 'default' : 'outline'}
+              size="sm"
+              onClick={raisedHands.toggleHand}
+              className={raisedHands.myHand ? 'bg-yellow-500 text-white hover:bg-yellow-600' : ''}
+            >
+              <Hand className="w-4 h-4 mr-1" />
+              {raisedHands.myHand
+                ? raisedHands.myHand.calledOnAt ? "You're up" : `Hand raised (#${raisedHands.myPosition})`
+                : 'Raise Hand'}
+            </Button>
+          )}
+
           <Button variant="destructive" onClick={handleEndClass} size="sm">
             {isTeacher ? 'End Class' : 'Leave'}
           </Button>
@@ -1109,7 +1509,7 @@ const handleReopenQuiz = () => {
                 </div>
               </div>
             </div>
-          ) : isScreenShareActive && !isTeacher ? (
+          ) : (isScreenShareActive || remoteScreenStream) && !isTeacher ? (
             <div className="h-full flex flex-col">
               <div className="flex items-center justify-between mb-4">
                 <div className="flex items-center gap-2">
@@ -1123,19 +1523,53 @@ const handleReopenQuiz = () => {
                 </Badge>
               </div>
               <div className="flex-1 bg-black rounded-xl overflow-hidden relative border-2 border-green-500">
-                <div className="w-full h-full flex items-center justify-center bg-gray-900">
-                  <div className="text-center text-white p-8">
-                    <Monitor className="w-16 h-16 text-green-400 mx-auto mb-4" />
-                    <h3 className="text-xl font-bold mb-2">Watching {classData.teacherName}'s Screen</h3>
-                    <p className="text-gray-300 mb-4">
-                      The teacher is sharing their screen in real-time
-                    </p>
-                    <div className="flex items-center justify-center gap-2 text-sm text-green-400">
-                      <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                      Live Screen Sharing Active
+                {remoteScreenStream ? (
+                  <video
+                    ref={el => {
+                      if (el && el.srcObject !== remoteScreenStream) el.srcObject = remoteScreenStream;
+                    }}
+                    autoPlay
+                    playsInline
+                    className="w-full h-full object-contain"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center bg-gray-900">
+                    <div className="text-center text-white p-8">
+                      <Monitor className="w-16 h-16 text-green-400 mx-auto mb-4" />
+                      <h3 className="text-xl font-bold mb-2">Watching {classData.teacherName}'s Screen</h3>
+                      <p className="text-gray-300 mb-4">
+                        Connecting to the shared screen...
+                      </p>
+                      <div className="flex items-center justify-center gap-2 text-sm text-green-400">
+                        <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
+                        Live Screen Sharing Active
+                      </div>
                     </div>
                   </div>
-                </div>
+                )}
+
+                {/* Teacher camera stays visible next to the shared screen */}
+                {Array.from(remoteStreams.entries()).filter(([peerId]) => peerId === classData.teacherId).map(([teacherId, stream]) => (
+                  <div key={teacherId} className={`absolute bottom-4 right-4 w-48 aspect-video bg-gray-900 rounded-lg overflow-hidden border border-gray-600 shadow-lg ${speakingRing(teacherId)}`}>
+                    <video
+                      ref={el => {
+                        if (el) {
+                          remoteVideoRefs.current.set(teacherId, el);
+                          el.srcObject = stream;
+                        }
+                      }}
+                      autoPlay
+                      playsInline
+                      className="w-full h-full object-cover"
+                    />
+                    {reconnectingPeers.has(teacherId) && (
+                      <ReconnectingOverlay attempt={reconnectingPeers.get(teacherId) || 0} compact />
+                    )}
+                    <div className="absolute bottom-1 left-1 bg-black bg-opacity-70 text-white px-2 py-0.5 rounded text-xs">
+                      {classData.teacherName}
+                    </div>
+                  </div>
+                ))}
               </div>
             </div>
           ) : isTeacher ? (
@@ -1176,7 +1610,7 @@ const handleReopenQuiz = () => {
                         </Button>
                       </div>
                     ) : (
-                      <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
+                      <div className={`relative aspect-video bg-gray-900 rounded-lg overflow-hidden ${speakingRing(currentUser?.uid)}`}>
                         <video
                           ref={localVideoRef}
                           autoPlay
@@ -1201,19 +1635,27 @@ const handleReopenQuiz = () => {
                 <div className="mb-4">
                   <Card className="bg-gray-800 border-gray-700">
                     <CardHeader className="pb-3">
-                      <CardTitle className="text-sm flex items-center gap-2">
-                        <Users className="w-4 h-4" />
-                        Students ({remoteStreams.size}/{students.length} connected)
+                      <CardTitle className="text-sm flex items-center justify-between">
+                        <span className="flex items-center gap-2">
+                          <Users className="w-4 h-4" />
+                          Students ({remoteStreams.size}/{students.length} connected)
+                        </span>
+                        <VideoLayoutToggle layout={videoLayout} onChange={setVideoLayout} />
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
                       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                        {Array.from(remoteStreams.entries()).map(([studentId, stream]) => {
+                        {orderForLayout(Array.from(remoteStreams.entries())).map(([studentId, stream]) => {
                           const student = students.find(s => s.studentId === studentId);
                           const isConnected = activeConnections.has(studentId);
                           
                           return (
-                            <div key={studentId} className="relative bg-black rounded-lg overflow-hidden aspect-video">
+                            <div
+                              key={studentId}
+                              className={`relative bg-black rounded-lg overflow-hidden aspect-video ${speakingRing(studentId)} ${
+                                isPromoted(studentId) ? 'md:col-span-2 lg:col-span-3' : ''
+                              }`}
+                            >
                               <video
                                 ref={el => {
                                   if (el) {
@@ -1225,13 +1667,15 @@ const handleReopenQuiz = () => {
                                 playsInline
                                 className="w-full h-full object-cover"
                               />
+                              {reconnectingPeers.has(studentId) && (
+                                <ReconnectingOverlay attempt={reconnectingPeers.get(studentId) || 0} />
+                              )}
+                              {videoQualities.has(studentId) && (
+                                <VideoQualityBadge quality={videoQualities.get(studentId)!} />
+                              )}
                               <div className="absolute bottom-2 left-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs">
                                 <div className="flex items-center gap-1">
-                                  {isConnected ? (
-                                    <Wifi className="w-3 h-3 text-green-400" />
-                                  ) : (
-                                    <WifiOff className="w-3 h-3 text-red-400" />
-                                  )}
+                                  <ConnectionQualityIndicator connected={isConnected} sample={peerStats.get(studentId)} />
                                   {student?.studentName || 'Student'}
                                 </div>
                               </div>
@@ -1244,12 +1688,30 @@ const handleReopenQuiz = () => {
                 </div>
               )}
 
-              {/* Screen Share Option */}
+              {/* Slide Presentation */}
+              {presentation.activeDeck ? (
+                <PresentationStage
+                  deck={presentation.activeDeck}
+                  page={presentation.currentPage}
+                  pageCount={presentation.pageCount}
+                  isTeacher={isTeacher}
+                  canNavigate={presentation.canNavigate}
+                  allowFreeBrowse={!!presentation.presentation?.allowFreeBrowse}
+                  followTeacher={presentation.followTeacher}
+                  teacherPage={presentation.presentation?.page || 1}
+                  onPageCountChange={presentation.setPageCount}
+                  onPageChange={presentation.goToPage}
+                  onAllowFreeBrowseChange={presentation.setAllowFreeBrowse}
+                  onSyncToTeacher={presentation.syncToTeacher}
+                  onStop={presentation.stopPresentation}
+                />
+              ) : (
+              /* Screen Share Option */
               <div className="flex-1 flex flex-col items-center justify-center bg-gray-800 rounded-xl p-8">
                 <ScreenShare className="w-24 h-24 text-gray-500 mb-4" />
                 <h2 className="text-2xl font-semibold mb-2">Ready to present?</h2>
                 <p className="text-gray-400 text-center mb-6 max-w-md">
-                  Start screen sharing to show your presentation to all students.
+                  Start screen sharing or present an uploaded slide deck to all students.
                 </p>
                 <Button 
                   onClick={handleStartScreenShare} 
@@ -1259,13 +1721,33 @@ const handleReopenQuiz = () => {
                   <ScreenShare className="w-5 h-5 mr-2" />
                   Share Screen
                 </Button>
+                {presentation.decks.length > 0 && (
+                  <div className="mt-6 w-full max-w-md space-y-2">
+                    <p className="text-xs text-gray-400 text-center">Or present slides</p>
+                    {presentation.decks.map(deck => (
+                      <Button
+                        key={deck.deckId}
+                        variant="outline"
+                        className="w-full justify-start"
+                        onClick={() => presentation.startPresentation(deck.deckId)}
+                      >
+                        <Presentation className="w-4 h-4 mr-2" />
+                        {deck.deckName}
+                        <span className="ml-auto text-xs text-gray-400">
+                          {deck.kind === 'pdf' ? 'PDF' : `${deck.slides.length} images`}
+                        </span>
+                      </Button>
+                    ))}
+                  </div>
+                )}
               </div>
+              )}
             </div>
           ) : (
             /* Student View */
             <div className="h-full flex flex-col">
               {/* Teacher's Video for Students */}
-              {remoteStreams.size > 0 ? (
+              {remoteStreams.has(classData.teacherId) ? (
                 <div className="mb-4">
                   <Card className="bg-gray-800 border-gray-700">
                     <CardHeader className="pb-3">
@@ -1279,8 +1761,8 @@ const handleReopenQuiz = () => {
                     </CardHeader>
                     <CardContent>
                       <div className="grid grid-cols-1 gap-4">
-                        {Array.from(remoteStreams.entries()).map(([teacherId, stream]) => (
-                          <div key={teacherId} className="relative aspect-video bg-black rounded-lg overflow-hidden">
+                        {Array.from(remoteStreams.entries()).filter(([peerId]) => peerId === classData.teacherId).map(([teacherId, stream]) => (
+                          <div key={teacherId} className={`relative aspect-video bg-black rounded-lg overflow-hidden ${speakingRing(teacherId)}`}>
                             <video
                               ref={el => {
                                 if (el) {
@@ -1292,7 +1774,11 @@ const handleReopenQuiz = () => {
                               playsInline
                               className="w-full h-full object-cover"
                             />
-                            <div className="absolute bottom-2 left-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs">
+                            {reconnectingPeers.has(teacherId) && (
+                              <ReconnectingOverlay attempt={reconnectingPeers.get(teacherId) || 0} />
+                            )}
+                            <div className="absolute bottom-2 left-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs flex items-center gap-1">
+                              <ConnectionQualityIndicator connected={activeConnections.has(teacherId)} sample={peerStats.get(teacherId)} />
                               {classData.teacherName} (Teacher)
                             </div>
                           </div>
@@ -1309,6 +1795,58 @@ const handleReopenQuiz = () => {
                 </div>
               )}
 
+              {/* Classmates, connected directly in discussion mode */}
+              {classmateStreams.length > 0 && (
+                <div className="mb-4">
+                  <Card className="bg-gray-800 border-gray-700">
+                    <CardHeader className="pb-3">
+                      <CardTitle className="text-sm flex items-center justify-between">
+                        <span className="flex items-center gap-2">
+                          <Users className="w-4 h-4" />
+                          Classmates ({classmateStreams.length})
+                        </span>
+                        <VideoLayoutToggle layout={videoLayout} onChange={setVideoLayout} />
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="grid grid-cols-2 lg:grid-cols-3 gap-4">
+                        {orderForLayout(classmateStreams).map(([peerId, stream]) => {
+                          const classmate = students.find(s => s.studentId === peerId);
+
+                          return (
+                            <div
+                              key={peerId}
+                              className={`relative bg-black rounded-lg overflow-hidden aspect-video ${speakingRing(peerId)} ${
+                                isPromoted(peerId) ? 'col-span-2 lg:col-span-3' : ''
+                              }`}
+                            >
+                              <video
+                                ref={el => {
+                                  if (el) {
+                                    remoteVideoRefs.current.set(peerId, el);
+                                    el.srcObject = stream;
+                                  }
+                                }}
+                                autoPlay
+                                playsInline
+                                className="w-full h-full object-cover"
+                              />
+                              {reconnectingPeers.has(peerId) && (
+                                <ReconnectingOverlay attempt={reconnectingPeers.get(peerId) || 0} compact />
+                              )}
+                              <div className="absolute bottom-2 left-2 bg-black bg-opacity-70 text-white px-2 py-1 rounded text-xs flex items-center gap-1">
+                                <ConnectionQualityIndicator connected={activeConnections.has(peerId)} sample={peerStats.get(peerId)} />
+                                {classmate?.studentName || 'Classmate'}
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </CardContent>
+                  </Card>
+                </div>
+              )}
+
               {/* Student's Own Video (if enabled) */}
               {isWebRTCInitialized && (
                 <div className="mb-4">
@@ -1335,7 +1873,7 @@ const handleReopenQuiz = () => {
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="relative aspect-video bg-gray-900 rounded-lg overflow-hidden">
+                      <div className={`relative aspect-video bg-gray-900 rounded-lg overflow-hidden ${speakingRing(currentUser?.uid)}`}>
                         <video
                           ref={localVideoRef}
                           autoPlay
@@ -1355,8 +1893,27 @@ const handleReopenQuiz = () => {
                 </div>
               )}
 
+              {/* Slide Presentation */}
+              {!isScreenShareActive && presentation.activeDeck && (
+                <PresentationStage
+                  deck={presentation.activeDeck}
+                  page={presentation.currentPage}
+                  pageCount={presentation.pageCount}
+                  isTeacher={isTeacher}
+                  canNavigate={presentation.canNavigate}
+                  allowFreeBrowse={!!presentation.presentation?.allowFreeBrowse}
+                  followTeacher={presentation.followTeacher}
+                  teacherPage={presentation.presentation?.page || 1}
+                  onPageCountChange={presentation.setPageCount}
+                  onPageChange={presentation.goToPage}
+                  onAllowFreeBrowseChange={presentation.setAllowFreeBrowse}
+                  onSyncToTeacher={presentation.syncToTeacher}
+                  onStop={presentation.stopPresentation}
+                />
+              )}
+
               {/* Waiting for Screen Share */}
-              {!isScreenShareActive && (
+              {!isScreenShareActive && !presentation.activeDeck && (
                 <div className="flex-1 flex flex-col items-center justify-center bg-gray-800 rounded-xl p-8">
                   <Monitor className="w-24 h-24 text-gray-500 mb-4" />
                   <h2 className="text-2xl font-semibold mb-2">Waiting for presenter</h2>
@@ -1376,8 +1933,13 @@ const handleReopenQuiz = () => {
               <TabsTrigger value="main" className="text-xs">
                 <Users className="w-4 h-4" />
               </TabsTrigger>
-              <TabsTrigger value="chat" className="text-xs">
+              <TabsTrigger value="chat" className="text-xs relative">
                 <MessageSquare className="w-4 h-4" />
+                {chat.unreadCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                    {chat.unreadCount > 99 ? '99+' : chat.unreadCount}
+                  </span>
+                )}
               </TabsTrigger>
               <TabsTrigger value="activities" className="text-xs">
                 <Award className="w-4 h-4" />
@@ -1401,6 +1963,8 @@ const handleReopenQuiz = () => {
                     {students.map((student) => {
                       const isConnected = activeConnections.has(student.studentId);
                       const hasVideo = remoteStreams.has(student.studentId);
+                      const media = participantMedia.get(student.studentId);
+                      const handRaised = raisedHands.queue.some(hand => hand.userId === student.studentId);
                       
                       return (
                         <div key={student.id} className="flex items-center gap-3 p-2 rounded hover:bg-gray-600 transition-colors">
@@ -1421,10 +1985,13 @@ const handleReopenQuiz = () => {
                                   </Badge>
                                 )}
                               </p>
+                              {handRaised && <Hand className="w-3 h-3 text-yellow-400 shrink-0" />}
                               {isConnected && (
                                 <div className="flex items-center gap-1">
                                   <Wifi className="w-3 h-3 text-green-400" />
                                   {hasVideo && <Video className="w-3 h-3 text-blue-400" />}
+                                  {media && !media.audioEnabled && <MicOff className="w-3 h-3 text-red-400" />}
+                                  {media && !media.videoEnabled && <VideoOff className="w-3 h-3 text-gray-400" />}
                                 </div>
                               )}
                             </div>
@@ -1432,6 +1999,31 @@ const handleReopenQuiz = () => {
                               Joined {student.joinedAt ? new Date(student.joinedAt).toLocaleTimeString() : 'recently'}
                             </p>
                           </div>
+                          {isTeacher && student.studentId !== currentUser?.uid && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDmCounterpartId(student.studentId)}
+                              className="relative h-7 w-7 p-0 text-gray-300 hover:text-white"
+                              title="Send private message"
+                            >
+                              <Mail className="w-4 h-4" />
+                              {directMessages.getUnreadCount(student.studentId) > 0 && (
+                                <span className="absolute -top-1 -right-1 h-4 min-w-[1rem] px-1 rounded-full bg-purple-500 text-white text-[10px] font-bold flex items-center justify-center">
+                                  {directMessages.getUnreadCount(student.studentId)}
+                                </span>
+                              )}
+                            </Button>
+                          )}
+                          {isTeacher && student.studentId !== currentUser?.uid && (
+                            <ParticipantModerationMenu
+                              studentName={student.studentName}
+                              onAction={action => {
+                                moderation.moderate(student.studentId, student.studentName, action);
+                                if (action === 'remove' || action === 'ban') raisedHands.lowerHand(student.studentId);
+                              }}
+                            />
+                          )}
                         </div>
                       );
                     })}
@@ -1439,12 +2031,83 @@ const handleReopenQuiz = () => {
                 </CardContent>
               </Card>
 
+              {isTeacher && (
+                <Card className="bg-gray-700 border-gray-600">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Activity className="w-4 h-4" />
+                      Network Health
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <NetworkHealthPanel
+                      stats={peerStats}
+                      names={studentNames}
+                      sfuMode={sfuMode}
+                      onExport={handleExportStats}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {isTeacher && (
+                <Card className="bg-gray-700 border-gray-600">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Hand className="w-4 h-4" />
+                      Raised Hands ({raisedHands.queue.length})
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <RaiseHandQueue
+                      queue={raisedHands.queue}
+                      onCallOn={raisedHands.callOn}
+                      onLower={raisedHands.lowerHand}
+                      onLowerAll={raisedHands.lowerAll}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {isTeacher && (
+                <Card className="bg-gray-700 border-gray-600">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Shield className="w-4 h-4" />
+                      Moderation Log
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ModerationLogPanel
+                      log={moderation.log}
+                      bannedUsers={moderation.bannedUserIds.map(userId => ({
+                        userId,
+                        name: studentNames[userId] ||
+                          moderation.log.find(entry => entry.targetUserId === userId)?.targetName ||
+                          'Student'
+                      }))}
+                      onUnban={moderation.unban}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
               {isTeacher && (
                 <Card className="bg-gray-700 border-gray-600">
                   <CardHeader className="pb-3">
                     <CardTitle className="text-sm">Class Controls</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-2">
+                    <Button
+                      onClick={() => moderation.muteAll(Array.from(activeConnections).filter(userId => userId !== currentUser?.uid))}
+                      variant="outline"
+                      size="sm"
+                      className="w-full justify-start"
+                      disabled={activeConnections.size === 0}
+                    >
+                      <MicOff className="w-4 h-4 mr-2" />
+                      Mute All Students
+                    </Button>
                     <Button 
                       onClick={() => setShowQuizDialog(true)}
                       variant="outline" 
@@ -1454,6 +2117,15 @@ const handleReopenQuiz = () => {
                       <Award className="w-4 h-4 mr-2" />
                       Create Quiz
                     </Button>
+                    <Button 
+                      onClick={() => setShowBankPicker(true)}
+                      variant="outline" 
+                      size="sm" 
+                      className="w-full justify-start"
+                    >
+                      <Library className="w-4 h-4 mr-2" />
+                      Quiz from Bank
+                    </Button>
                     {activeQuiz && (
                       <Button 
                         onClick={() => setShowResultsDialog(true)}
@@ -1465,6 +2137,7 @@ const handleReopenQuiz = () => {
                         View Results ({totalResponses})
                       </Button>
                     )}
+                    <MediaModeToggle classItem={classData} studentCount={students.length} />
                     <Button 
                       onClick={handleStartScreenShare}
                       variant="outline" 
@@ -1533,6 +2206,32 @@ const handleReopenQuiz = () => {
                 </Card>
               )}
 
+              {!isTeacher && (
+                <Card className="bg-gray-700 border-gray-600">
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center justify-between">
+                      <span>Private Messages</span>
+                      {directMessages.totalUnread > 0 && (
+                        <Badge variant="outline" className="bg-purple-500/20 text-purple-300 border-purple-500/30 text-xs">
+                          {directMessages.totalUnread} new
+                        </Badge>
+                      )}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <Button
+                      onClick={() => setDmCounterpartId(classData.teacherId)}
+                      variant="outline"
+                      size="sm"
+                      className="w-full justify-start"
+                    >
+                      <Mail className="w-4 h-4 mr-2" />
+                      Message {classData.teacherName}
+                    </Button>
+                  </CardContent>
+                </Card>
+              )}
+
               {!isTeacher && activeQuiz && (
                 <Card className="bg-gray-700 border-gray-600">
                   <CardHeader className="pb-3">
@@ -1550,7 +2249,7 @@ const handleReopenQuiz = () => {
                         className="w-full justify-start bg-yellow-500/20 text-yellow-400 border-yellow-500/30"
                       >
                         <Award className="w-4 h-4 mr-2" />
-                        Answer Quiz Question
+                        Take Quiz ({activeQuiz.questions.length} question{activeQuiz.questions.length === 1 ? '' : 's'})
                       </Button>
                     ) : (
                       <>
@@ -1587,7 +2286,7 @@ const handleReopenQuiz = () => {
                     </div>
                     <div className="bg-gray-600 p-3 rounded">
                       <p className="text-2xl font-bold text-green-400">{accuracy}%</p>
-                      <p className="text-xs text-gray-400">Quiz Accuracy</p>
+                      <p className="text-xs text-gray-400">Avg Quiz Score</p>
                     </div>
                   </div>
                   {isTeacher && (
@@ -1602,13 +2301,17 @@ const handleReopenQuiz = () => {
               </Card>
             </TabsContent>
 
-            <TabsContent value="chat" className="flex-1 flex flex-col">
-              <div className="flex-1 p-4">
-                <div className="text-center text-gray-500 py-8">
-                  <MessageSquare className="w-12 h-12 mx-auto mb-2" />
-                  <p>Chat feature coming soon</p>
-                </div>
-              </div>
+            <TabsContent value="chat" className="flex-1 flex flex-col min-h-0">
+              <ChatPanel
+                messages={chat.messages}
+                currentUserId={currentUser?.uid || ''}
+                isTeacher={isTeacher}
+                isMuted={chat.isMuted}
+                mutedUserIds={chat.mutedUserIds}
+                onSend={chat.sendMessage}
+                onDelete={chat.deleteMessage}
+                onToggleMute={chat.setUserMuted}
+              />
             </TabsContent>
 
             <TabsContent value="activities" className="flex-1 p-4">
@@ -1624,10 +2327,10 @@ const handleReopenQuiz = () => {
                           <Award className="w-4 h-4 text-yellow-400" />
                           <span className="font-medium text-yellow-400">Active Quiz</span>
                         </div>
-                        <p className="text-sm text-gray-300 mb-2">{activeQuiz.question}</p>
+                        <p className="text-sm text-gray-300 mb-2">{activeQuiz.title}</p>
                         <div className="flex justify-between text-xs text-gray-400">
-                          <span>{totalResponses} responses</span>
-                          <span>{accuracy}% accuracy</span>
+                          <span>{activeQuiz.questions.length} questions · {totalResponses} responses</span>
+                          <span>{accuracy}% avg</span>
                         </div>
                       </div>
                     </div>
@@ -1644,444 +2347,73 @@ const handleReopenQuiz = () => {
         </div>
       </div>
 
-      {/* Quiz Creation Dialog */}
-      <Dialog open={showQuizDialog} onOpenChange={setShowQuizDialog}>
-        <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl">
-          <DialogHeader>
-            <DialogTitle className="text-xl flex items-center gap-2">
-              <Award className="w-6 h-6 text-yellow-400" />
-              Create Quiz
-            </DialogTitle>
-            <DialogDescription className="text-gray-400">
-              Create a multiple-choice quiz for your students
-            </DialogDescription>
-          </DialogHeader>
-
-          <form onSubmit={handleCreateQuiz} className="space-y-6">
-            <div className="space-y-3">
-              <Label htmlFor="question" className="text-sm font-medium text-gray-300">
-                Question *
-              </Label>
-              <Textarea
-                id="question"
-                value={newQuiz.question}
-                onChange={(e) => setNewQuiz({...newQuiz, question: e.target.value})}
-                placeholder="Enter your quiz question here..."
-                className="bg-gray-700 border-gray-600 text-white min-h-[100px]"
-                required
-              />
-            </div>
-
-            <div className="space-y-4">
-              <Label className="text-sm font-medium text-gray-300">
-                Quiz Options *
-              </Label>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {[1, 2, 3, 4].map((num) => (
-                  <div key={num} className="space-y-2">
-                    <Label htmlFor={`option${num}`} className="text-sm font-medium text-gray-300">
-                      Option {num} *
-                    </Label>
-                    <Input
-                      id={`option${num}`}
-                      value={newQuiz[`option${num}` as keyof typeof newQuiz] as string}
-                      onChange={(e) => setNewQuiz({...newQuiz, [`option${num}`]: e.target.value})}
-                      placeholder={`Enter option ${num}`}
-                      className="bg-gray-700 border-gray-600 text-white"
-                      required
-                    />
-                  </div>
-                ))}
-              </div>
-            </div>
-              
-            <div className="space-y-4">
-              <Label className="text-sm font-medium text-gray-300 flex items-center gap-2">
-                <CheckCircle2 className="w-4 h-4 text-green-400" />
-                Correct Answer *
-              </Label>
-              
-              <RadioGroup 
-                value={newQuiz.correctAnswer.toString()} 
-                onValueChange={(value) => setNewQuiz({...newQuiz, correctAnswer: parseInt(value)})}
-                className="grid grid-cols-2 gap-3"
-              >
-                {[1, 2, 3, 4].map((num) => (
-                  <div 
-                    key={num} 
-                    className={`
-                      relative flex items-center space-x-3 p-4 rounded-xl border-2 transition-all duration-200 cursor-pointer
-                      ${newQuiz.correctAnswer === num - 1 
-                        ? 'bg-green-500/20 border-green-500' 
-                        : 'bg-gray-700/80 border-gray-600 hover:bg-gray-600/80'
-                      }
-                    `}
-                  >
-                    <RadioGroupItem 
-                      value={(num - 1).toString()} 
-                      id={`correct${num}`}
-                      className="sr-only"
-                    />
-                    <Label 
-                      htmlFor={`correct${num}`} 
-                      className={`
-                        flex-1 text-sm font-medium cursor-pointer select-none
-                        ${newQuiz.correctAnswer === num - 1 ? 'text-green-300' : 'text-gray-300'}
-                      `}
-                    >
-                      Option {num}
-                    </Label>
-                  </div>
-                ))}
-              </RadioGroup>
-            </div>
+      {/* Device Settings Dialog */}
+      <DeviceSettingsDialog
+        open={showDeviceSettings}
+        onOpenChange={setShowDeviceSettings}
+        devices={devices}
+        audioInputId={devicePreferences?.audioInputId}
+        videoInputId={devicePreferences?.videoInputId}
+        audioOutputId={audioOutputId}
+        audioTrack={localStream?.getAudioTracks()[0] || null}
+        onAudioInputChange={deviceId => handleSwitchDevice('audio', deviceId)}
+        onVideoInputChange={deviceId => handleSwitchDevice('video', deviceId)}
+        onAudioOutputChange={deviceId => updateDevicePreference({ audioOutputId: deviceId })}
+      />
+
+      {/* Private Message Dialog */}
+      <DirectMessageDialog
+        open={dmCounterpartId !== null}
+        onOpenChange={(open) => !open && setDmCounterpartId(null)}
+        counterpartName={
+          isTeacher
+            ? students.find(s => s.studentId === dmCounterpartId)?.studentName || 'Student'
+            : classData.teacherName
+        }
+        currentUserId={currentUser?.uid || ''}
+        messages={dmCounterpartId ? directMessages.threads.get(dmCounterpartId) || [] : []}
+        onSend={(text) => dmCounterpartId ? directMessages.sendDirectMessage(dmCounterpartId, text) : Promise.resolve(false)}
+      />
 
-            <div className="flex gap-3 pt-2">
-              <Button 
-                type="button" 
-                variant="outline" 
-                onClick={() => setShowQuizDialog(false)}
-                className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700"
-              >
-                Cancel
-              </Button>
-              <Button 
-                type="submit" 
-                className="flex-1 bg-green-600 hover:bg-green-700"
-                disabled={!newQuiz.question || !newQuiz.option1 || !newQuiz.option2 || !newQuiz.option3 || !newQuiz.option4}
-              >
-                <Award className="w-4 h-4 mr-2" />
-                Create Quiz
-              </Button>
-            </div>
-          </form>
-        </DialogContent>
-      </Dialog>
+      {/* Quiz Creation Dialog */}
+      <QuizBuilderDialog
+        open={showQuizDialog}
+        onOpenChange={setShowQuizDialog}
+        onCreate={handleCreateQuiz}
+      />
+
+      {/* Question Bank Picker */}
+      {isTeacher && currentUser && (
+        <QuestionBankPicker
+          open={showBankPicker}
+          onOpenChange={setShowBankPicker}
+          teacherId={currentUser.uid}
+          onLaunch={handleCreateQuiz}
+        />
+      )}
 
       {/* Quiz Response Dialog */}
-      <Dialog open={showQuizResponseDialog} onOpenChange={handleQuizDialogClose}>
-        <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-md">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Award className="w-5 h-5 text-yellow-400" />
-              {hasSubmitted ? 'Quiz Review' : 'Quick Quiz'}
-            </DialogTitle>
-            <DialogDescription className="text-gray-400">
-              {hasSubmitted 
-                ? 'Review your submitted answer' 
-                : 'Answer the question below - You can only submit once'
-              }
-            </DialogDescription>
-          </DialogHeader>
-            
-          {activeQuiz && (
-            <div className="space-y-4">
-              <div className="bg-gray-700 p-4 rounded-lg border border-gray-600">
-                <p className="font-medium text-white">{activeQuiz.question}</p>
-              </div>
-          
-              <div className="space-y-3">
-                {activeQuiz.options.map((option, index) => {
-                  const isStudentAnswer = index === selectedOption;
-                  const isCorrectAnswer = index === activeQuiz.correctAnswer;
-                  const isStudentCorrect = hasSubmitted && isStudentAnswer && isCorrectAnswer;
-                  const isStudentWrong = hasSubmitted && isStudentAnswer && !isCorrectAnswer;
-                  const showCorrectAnswer = hasSubmitted && isCorrectAnswer && !isStudentCorrect;
-                
-                  return (
-                    <div 
-                      key={index} 
-                      className={`
-                        relative flex items-start space-x-3 p-4 rounded-xl border-2 transition-all duration-200
-                        ${hasSubmitted 
-                          ? isCorrectAnswer 
-                            ? 'bg-green-500/20 border-green-500/80 shadow-lg shadow-green-500/20' 
-                            : isStudentWrong
-                              ? 'bg-red-500/20 border-red-500/80 shadow-lg shadow-red-500/20'
-                              : showCorrectAnswer
-                                ? 'bg-green-500/10 border-green-500/40'
-                                : 'bg-gray-700/50 border-gray-600/50'
-                          : 'bg-gray-700/80 border-gray-600 hover:bg-gray-600/80 hover:border-gray-500'
-                        }
-                        ${!hasSubmitted && !dismissedQuizzes.has(activeQuiz.id) && 'cursor-pointer'}
-                      `}
-                      onClick={() => !hasSubmitted && !dismissedQuizzes.has(activeQuiz.id) && setSelectedOption(index)}
-                    >
-                      <div className="flex items-center h-5 mt-0.5">
-                        {hasSubmitted ? (
-                          <>
-                            {isCorrectAnswer && (
-                              <CheckCircle2 className="w-5 h-5 text-green-500" />
-                            )}
-                            {isStudentWrong && (
-                              <XCircle className="w-5 h-5 text-red-500" />
-                            )}
-                            {!isCorrectAnswer && !isStudentWrong && (
-                              <div className="w-5 h-5 border-2 border-gray-500 rounded-full" />
-                            )}
-                          </>
-                        ) : (
-                          <div className={`
-                            w-5 h-5 border-2 rounded-full flex items-center justify-center
-                            ${selectedOption === index 
-                              ? 'border-blue-500 bg-blue-500/20' 
-                              : 'border-gray-400'
-                            }
-                            ${dismissedQuizzes.has(activeQuiz.id) ? 'opacity-50 cursor-not-allowed' : ''}
-                          `}>
-                            {selectedOption === index && (
-                              <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                            )}
-                          </div>
-                        )}
-                      </div>
-                      
-                      <div className="flex-1 min-w-0">
-                        <div className={`
-                          text-base font-medium select-none
-                          ${hasSubmitted 
-                            ? isCorrectAnswer 
-                              ? 'text-green-400' 
-                              : isStudentWrong
-                                ? 'text-red-400'
-                                : showCorrectAnswer
-                                  ? 'text-green-300'
-                                  : 'text-gray-400'
-                            : selectedOption === index 
-                              ? 'text-blue-300'
-                              : 'text-gray-300'
-                          }
-                          ${dismissedQuizzes.has(activeQuiz.id) && !hasSubmitted ? 'opacity-50' : ''}
-                        `}>
-                          {option}
-                        </div>
-                        
-                        {hasSubmitted && (
-                          <div className="mt-1 text-xs">
-                            {isStudentAnswer && (
-                              <span className="text-blue-400">Your answer</span>
-                            )}
-                            {showCorrectAnswer && (
-                              <span className="text-green-400">Correct answer</span>
-                            )}
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-              
-              {hasSubmitted && (
-                <div className={`
-                  p-4 rounded-lg border-2 text-center
-                  ${selectedOption === activeQuiz.correctAnswer 
-                    ? 'bg-green-500/20 border-green-500 text-green-400' 
-                    : 'bg-red-500/20 border-red-500 text-red-400'
-                  }
-                `}>
-                  <div className="flex items-center justify-center gap-2 mb-2">
-                    {selectedOption === activeQuiz.correctAnswer ? (
-                      <>
-                        <CheckCircle2 className="w-6 h-6" />
-                        <span className="text-xl font-bold">Correct! 🎉</span>
-                      </>
-                    ) : (
-                      <>
-                        <XCircle className="w-6 h-6" />
-                        <span className="text-xl font-bold">Incorrect 😔</span>
-                      </>
-                    )}
-                  </div>
-                  <p className="text-sm">
-                    {selectedOption === activeQuiz.correctAnswer 
-                      ? 'Excellent! You got it right!' 
-                      : `Better luck next time! The correct answer was Option ${activeQuiz.correctAnswer + 1}`
-                    }
-                  </p>
-                </div>
-              )}
-
-              <div className="flex gap-2 pt-2">
-                {!hasSubmitted ? (
-                  <>
-                    <Button 
-                      type="button" 
-                      variant="outline" 
-                      onClick={handleQuizDialogClose}
-                      className="flex-1 border-gray-600 text-gray-300 hover:bg-gray-700 hover:text-white"
-                    >
-                      Close
-                    </Button>
-                    <Button 
-                      onClick={handleSubmitQuizResponse}
-                      disabled={selectedOption === null || dismissedQuizzes.has(activeQuiz.id)}
-                      className={`
-                        flex-1 transition-all duration-200
-                        ${selectedOption === null || dismissedQuizzes.has(activeQuiz.id)
-                          ? 'bg-gray-600 text-gray-400 cursor-not-allowed' 
-                          : 'bg-blue-600 hover:bg-blue-700 shadow-lg hover:shadow-blue-500/25'
-                        }
-                      `}
-                    >
-                      <CheckCircle2 className="w-4 h-4 mr-2" />
-                      {dismissedQuizzes.has(activeQuiz.id) ? 'Already Submitted' : 'Submit Answer'}
-                    </Button>
-                  </>
-                ) : (
-                  <div className="flex-1 space-y-3">
-                    <div className="text-center text-sm text-gray-400">
-                      {selectedOption === activeQuiz.correctAnswer 
-                        ? 'Your answer has been recorded successfully!' 
-                        : 'You can review the correct answer above.'
-                      }
-                    </div>
-                    <Button 
-                      onClick={handleQuizDialogClose}
-                      className="w-full bg-gray-600 hover:bg-gray-700"
-                    >
-                      Close Review
-                    </Button>
-                  </div>
-                )}
-              </div>
-              
-              {hasSubmitted && (
-                <div className="pt-2 border-t border-gray-700">
-                  <div className="text-xs text-gray-400 text-center">
-                    You have already submitted your answer for this quiz.
-                  </div>
-                </div>
-              )}
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+      {activeQuiz && !isTeacher && (
+        <QuizTakingDialog
+          open={showQuizResponseDialog}
+          onClose={handleQuizDialogClose}
+          quiz={activeQuiz}
+          selections={quizSelections}
+          onSelect={(questionId, selection) => !hasSubmitted && setQuizSelections(prev => ({ ...prev, [questionId]: selection }))}
+          submittedResponse={submittedResponse}
+          onSubmit={handleSubmitQuizResponse}
+          submitting={submittingQuiz}
+        />
+      )}
 
       {/* Quiz Results Dialog */}
-      <Dialog open={showResultsDialog} onOpenChange={setShowResultsDialog}>
-        <DialogContent className="bg-gray-800 border-gray-700 text-white max-w-2xl">
-          <DialogHeader>
-            <DialogTitle>Quiz Results</DialogTitle>
-            <DialogDescription className="text-gray-400">
-              Results for: {activeQuiz?.question}
-            </DialogDescription>
-          </DialogHeader>
-            
-          {activeQuiz && (
-            <div className="space-y-6">
-              <div className="grid grid-cols-3 gap-4">
-                <div className="bg-gray-700 p-4 rounded-lg text-center">
-                  <p className="text-2xl font-bold text-blue-400">{totalResponses}</p>
-                  <p className="text-sm text-gray-400">Total Responses</p>
-                </div>
-                <div className="bg-gray-700 p-4 rounded-lg text-center">
-                  <p className="text-2xl font-bold text-green-400">{correctCount}</p>
-                  <p className="text-sm text-gray-400">Correct Answers</p>
-                </div>
-                <div className="bg-gray-700 p-4 rounded-lg text-center">
-                  <p className="text-2xl font-bold text-yellow-400">{accuracy}%</p>
-                  <p className="text-sm text-gray-400">Accuracy</p>
-                </div>
-              </div>
-            
-              <div>
-                <h4 className="font-medium mb-3">Response Breakdown</h4>
-                <div className="space-y-2">
-                  {activeQuiz.options.map((option, index) => {
-                    const optionCount = quizResponses.filter(r => r.selectedOption === index).length;
-                    const percentage = totalResponses > 0 ? Math.round((optionCount / totalResponses) * 100) : 0;
-                    const isCorrect = index === activeQuiz.correctAnswer;
-                    
-                    return (
-                      <div key={index} className="flex items-center gap-3 p-3 bg-gray-700/50 rounded-lg">
-                        <div className="flex items-center gap-2 w-40">
-                          <span className={`w-3 h-3 rounded-full ${isCorrect ? 'bg-green-500' : 'bg-gray-500'}`}></span>
-                          <span className="text-sm font-medium">Option {index + 1}</span>
-                          {isCorrect && (
-                            <CheckCircle2 className="w-4 h-4 text-green-500" />
-                          )}
-                        </div>
-                        <div className="flex-1">
-                          <div className="flex justify-between text-sm mb-2">
-                            <span className="text-gray-300 truncate flex-1 mr-4">{option}</span>
-                            <span className="text-gray-400 whitespace-nowrap">
-                              {optionCount} ({percentage}%)
-                            </span>
-                          </div>
-                          <div className="w-full bg-gray-600 rounded-full h-3">
-                            <div 
-                              className={`h-3 rounded-full transition-all duration-500 ${
-                                isCorrect ? 'bg-green-500' : 'bg-blue-500'
-                              }`}
-                              style={{ width: `${percentage}%` }}
-                            ></div>
-                          </div>
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
-              </div>
-                
-              <div>
-                <h4 className="font-medium mb-3">Student Responses</h4>
-                {quizResponses.length > 0 ? (
-                  <div className="max-h-60 overflow-y-auto space-y-2 border border-gray-600 rounded-lg p-2">
-                    {quizResponses.map((response) => (
-                      <div 
-                        key={response.id} 
-                        className={`flex items-center gap-3 p-3 rounded-lg ${
-                          response.isCorrect ? 'bg-green-500/10' : 'bg-red-500/10'
-                        }`}
-                      >
-                        <Avatar className="h-8 w-8">
-                          <AvatarFallback className={response.isCorrect ? 'bg-green-600' : 'bg-red-600'}>
-                            {response.studentName?.[0]?.toUpperCase() || 'S'}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center gap-2">
-                            <p className="font-medium text-sm truncate">{response.studentName}</p>
-                            {response.isCorrect ? (
-                              <CheckCircle2 className="w-4 h-4 text-green-500 flex-shrink-0" />
-                            ) : (
-                              <XCircle className="w-4 h-4 text-red-500 flex-shrink-0" />
-                            )}
-                          </div>
-                          <p className="text-xs text-gray-400">
-                            Selected: {activeQuiz.options[response.selectedOption]}
-                          </p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-center py-8 bg-gray-700/50 rounded-lg border border-gray-600">
-                    <p className="text-gray-400">No responses yet</p>
-                  </div>
-                )}
-              </div>
-      
-              <div className="flex gap-2">
-                <Button 
-                  variant="outline" 
-                  onClick={() => setShowResultsDialog(false)}
-                  className="flex-1"
-                >
-                  Close
-                </Button>
-                <Button 
-                  onClick={handleCloseQuiz}
-                  className="flex-1 bg-blue-600 hover:bg-blue-700"
-                >
-                  Close Quiz
-                </Button>
-              </div>
-            </div>
-          )}
-        </DialogContent>
-      </Dialog>
+      <QuizResultsDialog
+        open={showResultsDialog}
+        onOpenChange={setShowResultsDialog}
+        quiz={activeQuiz || closedQuiz}
+        responses={quizResponses}
+        onCloseQuiz={handleCloseQuiz}
+      />
     </div>
   );
 }
\ No newline at end of file
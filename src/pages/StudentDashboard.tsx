@@ -5,8 +5,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { collection, query, onSnapshot, orderBy, where, Timestamp, limit, addDoc } from 'firebase/firestore';
+import { collection, query, onSnapshot, orderBy, where, limit } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getScorePercentage, quizResponseFromDoc } from '@/lib/quiz';
 import { Class, QuizResponse } from '@/types';
 import { LogOut, Video, Calendar, BookOpen, Trophy, Users, Clock, Play, Award, Monitor, Eye } from 'lucide-react';
 import { toast } from 'sonner';
@@ -99,23 +100,7 @@ export function StudentDashboard() {
         const responses: QuizResponse[] = [];
         
         snapshot.forEach((doc) => {
-          const data = doc.data();
-          const response: QuizResponse = {
-            id: doc.id,
-            studentId: data.studentId,
-            studentName: data.studentName || currentUser.displayName || 'Student',
-            quizId: data.quizId,
-            quizTitle: data.quizTitle || 'Quiz',
-            question: data.question || '',
-            selectedOption: data.selectedOption || '',
-            correctOption: data.correctOption || '',
-            isCorrect: data.isCorrect || false,
-            submittedAt: data.submittedAt?.toDate() || new Date(),
-            classId: data.classId,
-            score: data.score || 0,
-            totalQuestions: data.totalQuestions || 1
-          };
-          responses.push(response);
+          responses.push(quizResponseFromDoc(doc.id, doc.data()));
         });
         
         setQuizResults(responses);
@@ -129,24 +114,10 @@ export function StudentDashboard() {
     return () => unsubscribe();
   }, [currentUser]);
 
-  const handleJoinClass = async (classItem: Class) => {
+  const handleJoinClass = (classItem: Class) => {
     if (classItem.status === 'live') {
       console.log('Joining class:', classItem.roomId);
-      
-      // Record attendance before navigating
-      try {
-        await addDoc(collection(db, 'attendance'), {
-          classId: classItem.id,
-          studentId: currentUser?.uid,
-          studentName: currentUser?.displayName || currentUser?.email || 'Student',
-          studentEmail: currentUser?.email,
-          joinedAt: Timestamp.fromDate(new Date()),
-          status: 'present'
-        });
-      } catch (error) {
-        console.error('Error recording attendance:', error);
-      }
-      
+      // Attendance is recorded by the classroom once the student is in the room
       navigate(`/class/${classItem.roomId}`);
     } else {
       toast.info('This class has not started yet');
@@ -178,13 +149,14 @@ export function StudentDashboard() {
   const pastClasses = classes.filter(c => c.status === 'completed');
   // Removed unused missedClasses variable
 
-  // Quiz statistics
+  // Quiz statistics, totalled across every question answered
   const totalQuizzes = quizResults.length;
-  const correctAnswers = quizResults.filter(r => r.isCorrect).length;
-  const accuracy = totalQuizzes > 0 ? (correctAnswers / totalQuizzes) * 100 : 0;
-  const averageScore = totalQuizzes > 0 
-    ? quizResults.reduce((sum, result) => sum + (result.score || 0), 0) / totalQuizzes 
-    : 0;
+  const totalQuestions = quizResults.reduce((sum, result) => sum + result.totalQuestions, 0);
+  const correctAnswers = quizResults.reduce((sum, result) => sum + result.correctCount, 0);
+  const accuracy = totalQuestions > 0 ? (correctAnswers / totalQuestions) * 100 : 0;
+  const pointsEarned = quizResults.reduce((sum, result) => sum + result.score, 0);
+  const pointsPossible = quizResults.reduce((sum, result) => sum + result.maxScore, 0);
+  const averageScore = pointsPossible > 0 ? (pointsEarned / pointsPossible) * 100 : 0;
 
   const getClassStatus = (classItem: Class) => {
     if (classItem.status === 'live') return 'live';
@@ -325,7 +297,7 @@ export function StudentDashboard() {
             <CardContent>
               <div className="text-3xl font-bold text-slate-900">{Math.round(accuracy)}%</div>
               <p className="text-xs text-slate-600 mt-1">
-                {correctAnswers}/{totalQuizzes} correct
+                {correctAnswers}/{totalQuestions} questions correct
               </p>
             </CardContent>
           </Card>
@@ -540,10 +512,10 @@ export function StudentDashboard() {
                         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
                           <div>
                             <div className="text-2xl font-bold text-purple-700">{totalQuizzes}</div>
-                            <div className="text-sm text-slate-600">Total Attempts</div>
+                            <div className="text-sm text-slate-600">Quizzes Taken</div>
                           </div>
                           <div>
-                            <div className="text-2xl font-bold text-green-700">{correctAnswers}</div>
+                            <div className="text-2xl font-bold text-green-700">{correctAnswers}/{totalQuestions}</div>
                             <div className="text-sm text-slate-600">Correct Answers</div>
                           </div>
                           <div>
@@ -552,7 +524,7 @@ export function StudentDashboard() {
                           </div>
                           <div>
                             <div className="text-2xl font-bold text-orange-700">{Math.round(averageScore)}%</div>
-                            <div className="text-sm text-slate-600">Avg Score</div>
+                            <div className="text-sm text-slate-600">Points ({pointsEarned}/{pointsPossible})</div>
                           </div>
                         </div>
                       </CardContent>
@@ -567,28 +539,24 @@ export function StudentDashboard() {
                               <div className="flex items-center gap-3 mb-2">
                                 <CardTitle className="text-lg">{result.quizTitle}</CardTitle>
                                 <Badge 
-                                  variant={result.isCorrect ? "default" : "destructive"}
-                                  className={result.isCorrect ? "bg-green-100 text-green-800 hover:bg-green-100" : ""}
+                                  variant={getScorePercentage(result) >= 50 ? "default" : "destructive"}
+                                  className={getScorePercentage(result) >= 50 ? "bg-green-100 text-green-800 hover:bg-green-100" : ""}
                                 >
-                                  {result.isCorrect ? 'Correct' : 'Incorrect'}
+                                  {getScorePercentage(result)}%
                                 </Badge>
                               </div>
-                              {result.question && (
-                                <CardDescription className="text-base mb-2">
-                                  <strong>Question:</strong> {result.question}
-                                </CardDescription>
-                              )}
+                              <CardDescription className="text-base mb-2">
+                                {result.correctCount} of {result.totalQuestions} question{result.totalQuestions === 1 ? '' : 's'} answered correctly
+                              </CardDescription>
                               <div className="flex flex-wrap items-center gap-4 text-sm text-slate-600 mt-3">
                                 <div className="flex items-center gap-2">
                                   <Calendar className="w-4 h-4" />
                                   Submitted {format(result.submittedAt, 'PPP p')}
                                 </div>
-                                {result.score !== undefined && (
-                                  <div className="flex items-center gap-2">
-                                    <Award className="w-4 h-4" />
-                                    Score: {result.score}/{result.totalQuestions}
-                                  </div>
-                                )}
+                                <div className="flex items-center gap-2">
+                                  <Award className="w-4 h-4" />
+                                  Score: {result.score}/{result.maxScore} points
+                                </div>
                               </div>
                             </div>
                             <div className="mt-4 lg:mt-0">
@@ -604,13 +572,6 @@ export function StudentDashboard() {
                             </div>
                           </div>
                         </CardHeader>
-                        {!result.isCorrect && result.correctOption && (
-                          <CardContent className="pt-0">
-                            <div className="text-sm text-slate-700">
-                              <span className="font-medium">Correct answer:</span> {result.correctOption}
-                            </div>
-                          </CardContent>
-                        )}
                       </Card>
                     ))}
                   </div>
@@ -625,40 +586,49 @@ export function StudentDashboard() {
       <Dialog open={showQuizReview} onOpenChange={setShowQuizReview}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
-            <DialogTitle>Quiz Review</DialogTitle>
+            <DialogTitle>Quiz Review: {selectedQuizForReview?.quizTitle}</DialogTitle>
             <DialogDescription>
               Review your quiz submission and see the correct answers
             </DialogDescription>
           </DialogHeader>
           {selectedQuizForReview && (
             <div className="space-y-6">
-              <div className="p-4 bg-gray-50 rounded-lg border">
-                <p className="font-medium text-gray-900 mb-2">{selectedQuizForReview.question}</p>
-                <div className="space-y-3 mt-4">
-                  <div className="flex items-center justify-between p-3 border rounded-lg bg-white">
-                    <div className="flex items-center gap-3">
-                      <div className={`w-6 h-6 rounded-full flex items-center justify-center ${
-                        selectedQuizForReview.isCorrect ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
-                      }`}>
-                        {selectedQuizForReview.isCorrect ? '✓' : '✗'}
-                      </div>
-                      <span className="font-medium">Your Answer</span>
+              <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+                {selectedQuizForReview.answers.map((answer, index) => (
+                  <div key={answer.questionId} className="p-4 bg-gray-50 rounded-lg border">
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="font-medium text-gray-900 mb-2">{index + 1}. {answer.prompt}</p>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {answer.pointsAwarded}/{answer.points} pts
+                      </span>
                     </div>
-                    <span>{selectedQuizForReview.selectedOption}</span>
-                  </div>
-                  
-                  {!selectedQuizForReview.isCorrect && (
-                    <div className="flex items-center justify-between p-3 border rounded-lg bg-green-50 border-green-200">
-                      <div className="flex items-center gap-3">
-                        <div className="w-6 h-6 rounded-full bg-green-100 text-green-700 flex items-center justify-center">
-                          ✓
+                    <div className="space-y-3 mt-4">
+                      <div className="flex items-center justify-between p-3 border rounded-lg bg-white">
+                        <div className="flex items-center gap-3">
+                          <div className={`w-6 h-6 rounded-full flex items-center justify-center ${
+                            answer.isCorrect ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                          }`}>
+                            {answer.isCorrect ? '✓' : '✗'}
+                          </div>
+                          <span className="font-medium">Your Answer</span>
                         </div>
-                        <span className="font-medium text-green-700">Correct Answer</span>
+                        <span>{answer.selectedText || 'No answer'}</span>
                       </div>
-                      <span className="text-green-700">{selectedQuizForReview.correctOption}</span>
+                      
+                      {!answer.isCorrect && (
+                        <div className="flex items-center justify-between p-3 border rounded-lg bg-green-50 border-green-200">
+                          <div className="flex items-center gap-3">
+                            <div className="w-6 h-6 rounded-full bg-green-100 text-green-700 flex items-center justify-center">
+                              ✓
+                            </div>
+                            <span className="font-medium text-green-700">Correct Answer</span>
+                          </div>
+                          <span className="text-green-700">{answer.correctText}</span>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
+                  </div>
+                ))}
               </div>
 
               <div className="flex justify-between items-center">
@@ -667,7 +637,7 @@ export function StudentDashboard() {
                     variant={selectedQuizForReview.isCorrect ? "default" : "destructive"}
                     className={selectedQuizForReview.isCorrect ? "bg-green-100 text-green-800" : ""}
                   >
-                    {selectedQuizForReview.isCorrect ? 'Correct' : 'Incorrect'}
+                    Score: {selectedQuizForReview.score}/{selectedQuizForReview.maxScore}
                   </Badge>
                   <p className="text-sm text-gray-600 mt-1">
                     Submitted on {format(selectedQuizForReview.submittedAt, 'PPP p')}
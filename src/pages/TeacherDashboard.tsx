@@ -17,12 +17,16 @@ import {
   orderBy, 
   updateDoc, 
   doc,
-  Timestamp,
-  getDocs
+  Timestamp
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { Class, StudentAttendance } from '@/types';
-import { LogOut, Plus, Video, Calendar, Users, BarChart, Clock, Play, Trash2, User, Eye, EyeOff, Share2, Monitor } from 'lucide-react';
+import { SlideDeckDialog } from '@/components/teacher/SlideDeckDialog';
+import { QuestionBankSection } from '@/components/teacher/QuestionBankSection';
+import { ClassExportMenu } from '@/components/teacher/ClassExportMenu';
+import { AttendanceReportDialog } from '@/components/teacher/AttendanceReportDialog';
+import { fetchClassAttendance, latestSessionPerStudent } from '@/lib/attendance';
+import { LogOut, Plus, Video, Calendar, Users, BarChart, Clock, Play, Trash2, User, Eye, EyeOff, Share2, Monitor, Presentation, ClipboardList } from 'lucide-react';
 import { toast } from 'sonner';
 import { format, isAfter, isBefore } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
@@ -36,6 +40,8 @@ export function TeacherDashboard() {
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('upcoming');
   const [expandedClasses, setExpandedClasses] = useState<Set<string>>(new Set());
+  const [slidesClass, setSlidesClass] = useState<Class | null>(null);
+  const [reportClassId, setReportClassId] = useState<string | null>(null);
 
   const [newClass, setNewClass] = useState({
     title: '',
@@ -78,7 +84,10 @@ export function TeacherDashboard() {
             createdAt: data.createdAt?.toDate() || new Date(),
             studentCount: data.studentCount || 0,
             isImmediate: data.isImmediate || false,
-            students: data.students || []
+            students: data.students || [],
+            lateGraceMinutes: data.lateGraceMinutes,
+            startedAt: data.startedAt?.toDate(),
+            endedAt: data.endedAt?.toDate()
           };
           classesData.push(classData);
         });
@@ -101,29 +110,7 @@ export function TeacherDashboard() {
 
   const fetchStudentAttendance = async (classId: string) => {
     try {
-      const attendanceQuery = query(
-        collection(db, 'attendance'),
-        where('classId', '==', classId)
-      );
-      
-      const snapshot = await getDocs(attendanceQuery);
-      const attendanceData: StudentAttendance[] = [];
-      
-      snapshot.forEach((doc) => {
-        const data = doc.data();
-        attendanceData.push({
-          id: doc.id,
-          classId: data.classId,
-          studentId: data.studentId,
-          studentName: data.studentName || 'Unknown Student',
-          studentEmail: data.studentEmail,
-          joinedAt: data.joinedAt?.toDate() || new Date(),
-          leftAt: data.leftAt?.toDate(),
-          duration: data.duration || 0,
-          status: data.status || 'present'
-        });
-      });
-      
+      const attendanceData = await fetchClassAttendance(classId);
       setStudentAttendance(prev => ({
         ...prev,
         [classId]: attendanceData
@@ -301,12 +288,15 @@ export function TeacherDashboard() {
     );
   };
 
-  const totalStudents = Object.values(studentAttendance).reduce(
-    (total, attendance) => total + attendance.length, 0
+  // Each attendance row is one session, so students are counted once per class
+  const getAttendees = (classId: string) => latestSessionPerStudent(studentAttendance[classId] || []);
+
+  const totalStudents = classes.reduce(
+    (total, classItem) => total + getAttendees(classItem.id).length, 0
   );
 
   const activeStudents = liveClasses.reduce(
-    (total, classItem) => total + (studentAttendance[classItem.id]?.length || 0), 0
+    (total, classItem) => total + getAttendees(classItem.id).length, 0
   );
 
   return (
@@ -609,7 +599,7 @@ export function TeacherDashboard() {
                   </div>
                 ) : (
                   liveClasses.map((classItem) => {
-                    const students = studentAttendance[classItem.id] || [];
+                    const students = getAttendees(classItem.id);
                     const isExpanded = expandedClasses.has(classItem.id);
                     
                     return (
@@ -631,6 +621,20 @@ export function TeacherDashboard() {
                                 <Video className="w-4 h-4 mr-2" />
                                 Join Class
                               </Button>
+                              <Button
+                                variant="outline"
+                                onClick={() => setSlidesClass(classItem)}
+                              >
+                                <Presentation className="w-4 h-4 mr-2" />
+                                Slides
+                              </Button>
+                              <Button
+                                variant="outline"
+                                onClick={() => setReportClassId(classItem.id)}
+                              >
+                                <ClipboardList className="w-4 h-4 mr-2" />
+                                Attendance
+                              </Button>
                               <Button 
                                 variant="outline" 
                                 onClick={() => handleEndClass(classItem)}
@@ -762,6 +766,13 @@ export function TeacherDashboard() {
                               <Share2 className="w-4 h-4 mr-2" />
                               Start & Share
                             </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => setSlidesClass(classItem)}
+                            >
+                              <Presentation className="w-4 h-4 mr-2" />
+                              Slides
+                            </Button>
                             <Button 
                               variant="outline" 
                               size="icon"
@@ -824,7 +835,7 @@ export function TeacherDashboard() {
                   </div>
                 ) : (
                   completedClasses.map((classItem) => {
-                    const students = studentAttendance[classItem.id] || [];
+                    const students = getAttendees(classItem.id);
                     const isExpanded = expandedClasses.has(classItem.id);
                     
                     return (
@@ -838,15 +849,27 @@ export function TeacherDashboard() {
                               </div>
                               <CardDescription>{classItem.description}</CardDescription>
                             </div>
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              onClick={() => toggleStudentView(classItem.id)}
-                              className="flex items-center gap-2"
-                            >
-                              <Users className="w-4 h-4" />
-                              {students.length}
-                            </Button>
+                            <div className="flex items-center gap-2">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setReportClassId(classItem.id)}
+                                className="flex items-center gap-2"
+                              >
+                                <ClipboardList className="w-4 h-4" />
+                                Report
+                              </Button>
+                              <ClassExportMenu classItem={classItem} attendance={studentAttendance[classItem.id] || []} />
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => toggleStudentView(classItem.id)}
+                                className="flex items-center gap-2"
+                              >
+                                <Users className="w-4 h-4" />
+                                {students.length}
+                              </Button>
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent className="space-y-4">
@@ -918,7 +941,7 @@ export function TeacherDashboard() {
                   </div>
                 ) : (
                   classes.map((classItem) => {
-                    const students = studentAttendance[classItem.id] || [];
+                    const students = getAttendees(classItem.id);
                     
                     return (
                       <Card key={classItem.id} className={`border-l-4 ${
@@ -990,7 +1013,21 @@ export function TeacherDashboard() {
             </Tabs>
           </CardContent>
         </Card>
+
+        {/* Question Bank Section */}
+        {currentUser && <QuestionBankSection teacherId={currentUser.uid} />}
       </div>
+
+      <SlideDeckDialog
+        classItem={slidesClass}
+        teacherId={currentUser?.uid || ''}
+        onOpenChange={(open) => !open && setSlidesClass(null)}
+      />
+
+      <AttendanceReportDialog
+        classItem={classes.find(c => c.id === reportClassId) || null}
+        onOpenChange={(open) => !open && setReportClassId(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
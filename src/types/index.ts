@@ -22,9 +22,57 @@ export interface Class {
   createdAt: Date;
   studentCount: number;
   isImmediate: boolean;
+  // Roster of enrolled student uids; roster students who never join are reported absent
   students?: string[];
+  // Minutes after scheduledAt before a join counts as late (default: LATE_GRACE_MINUTES)
+  lateGraceMinutes?: number;
   startedAt?: Date;
   endedAt?: Date;
+  chatMutedUserIds?: string[];
+  // Removed by the teacher and not allowed back in
+  bannedUserIds?: string[];
+  // Who sees whom: 'lecture' connects students to the teacher only, 'discussion' also to each other
+  mediaMode?: MediaMode;
+  // How media travels: direct peer connections, or publishing once to a media server (large classes)
+  mediaServer?: MediaServer;
+}
+
+export type MediaMode = 'lecture' | 'discussion';
+export type MediaServer = 'p2p' | 'sfu';
+
+export type QuizQuestionType = 'single' | 'multiple' | 'true-false' | 'short-answer' | 'numeric';
+
+export interface QuizQuestion {
+  id: string;
+  type: QuizQuestionType;
+  prompt: string;
+  options: string[];
+  correctAnswer: number;
+  correctAnswers?: number[];
+  acceptedAnswers?: string[];
+  numericAnswer?: number;
+  tolerance?: number;
+  points: number;
+}
+
+export interface QuestionBankUsage {
+  classId: string;
+  classTitle: string;
+  quizId: string;
+  usedAt: Date;
+}
+
+export interface BankQuestion {
+  id: string;
+  teacherId: string;
+  question: QuizQuestion;
+  tags: string[];
+  topic: string;
+  createdAt: Date;
+  updatedAt: Date;
+  usageCount: number;
+  lastUsedAt?: Date;
+  usageHistory: QuestionBankUsage[];
 }
 
 export interface Quiz {
@@ -32,11 +80,28 @@ export interface Quiz {
   classId: string;
   teacherId: string;
   teacherName: string;
-  question: string;
-  options: string[];
-  correctAnswer: number;
+  title: string;
+  questions: QuizQuestion[];
+  totalPoints: number;
   createdAt: Date;
   isActive: boolean;
+  timeLimitSeconds?: number;
+  startedAt?: Date;
+  closedAt?: Date;
+}
+
+export interface QuizAnswer {
+  questionId: string;
+  prompt: string;
+  questionType: QuizQuestionType;
+  selectedOption: number | null;
+  selectedOptions?: number[];
+  textAnswer?: string;
+  selectedText: string;
+  correctText: string;
+  isCorrect: boolean;
+  points: number;
+  pointsAwarded: number;
 }
 
 export interface QuizResponse {
@@ -44,14 +109,14 @@ export interface QuizResponse {
   studentId: string;
   studentName: string;
   quizId: string;
-  quizTitle: string;   // ✅ Add this line
-  question: string;
-  selectedOption: number;
-  correctOption: string;
+  quizTitle: string;
+  answers: QuizAnswer[];
   isCorrect: boolean;
   submittedAt: Date;
   classId: string;
   score: number;
+  maxScore: number;
+  correctCount: number;
   totalQuestions: number;
 }
 
@@ -59,22 +124,120 @@ export interface QuizResponse {
 export interface Slide {
   id: string;
   classId: string;
+  teacherId?: string;
+  deckId: string;
+  deckName: string;
+  order: number;
   fileName: string;
   fileUrl: string;
   fileType: string;
+  storagePath?: string;
+  uploadedAt: Date;
+}
+
+// A deck is either a single PDF or an ordered set of images uploaded together
+export interface SlideDeck {
+  deckId: string;
+  deckName: string;
+  classId: string;
+  kind: 'pdf' | 'images';
+  slides: Slide[];
   uploadedAt: Date;
 }
+
+export interface PresentationState {
+  classId: string;
+  deckId: string;
+  page: number;
+  allowFreeBrowse: boolean;
+  isActive: boolean;
+  presenterId: string;
+  updatedAt: Date;
+}
 export interface StudentAttendance {
   id: string;
   classId: string;
   studentId: string;
   studentName: string;
   studentEmail?: string;
+  // One per browser tab visit; the document id is `${classId}_${studentId}_${sessionId}`
+  sessionId?: string;
   joinedAt: Date;
   leftAt?: Date;
+  // Heartbeat from the student's tab; a stale value means the tab went away without saying goodbye
+  lastSeenAt?: Date;
   duration?: number;
   status: 'present' | 'absent' | 'late';
 }
+
+// Each attendance document is one session (join to leave); the report folds them into one row per student
+export interface AttendanceReportRow {
+  studentId: string;
+  studentName: string;
+  studentEmail: string;
+  status: StudentAttendance['status'];
+  firstJoinedAt: Date | null;
+  lastLeftAt: Date | null;
+  totalMinutes: number;
+  sessionCount: number;
+  minutesLate: number;
+  isOnline: boolean;
+}
+
+// Export schemas for completed classes. Column order follows the field order below and is part of the
+// file format: spreadsheets and LMS imports depend on it, so only ever append new columns at the end.
+// Dates are ISO 8601 strings in CSV and date cells in XLSX; empty cells mean "not recorded".
+
+// One row per student per quiz
+export interface QuizResultExportRow {
+  classId: string;
+  classTitle: string;
+  quizId: string;
+  quizTitle: string;
+  studentId: string;
+  studentName: string;
+  submittedAt: Date;
+  score: number;
+  maxScore: number;
+  percentage: number;
+  correctCount: number;
+  totalQuestions: number;
+}
+
+// One row per attendance record
+export interface AttendanceExportRow {
+  classId: string;
+  classTitle: string;
+  studentId: string;
+  studentName: string;
+  studentEmail: string;
+  status: StudentAttendance['status'];
+  joinedAt: Date;
+  leftAt: Date | null;
+  durationMinutes: number | null;
+}
+
+// Quiz import CSV: one question per row with a header row. Only `prompt` is required.
+//   type      single | multiple | true-false | short-answer | numeric (default: single)
+//   points    positive number (default: 1)
+//   option1..option6  answer options for single and multiple
+//   correct   single: option number or text; multiple: option numbers joined by ";";
+//             true-false: true or false; short-answer: accepted answers joined by ";"; numeric: the answer
+//   tolerance numeric only, allowed difference from the answer (default: 0)
+export interface QuizImportCsvRow {
+  type?: QuizQuestionType;
+  prompt: string;
+  points?: string;
+  option1?: string;
+  option2?: string;
+  option3?: string;
+  option4?: string;
+  option5?: string;
+  option6?: string;
+  correct?: string;
+  tolerance?: string;
+}
+
 export interface ScreenShare {
   id: string;
   classId: string;
@@ -86,14 +249,82 @@ export interface ScreenShare {
   streamId: string;
   streamInfo?: any;
 }
-export interface WebRTCSignal {
+export interface ChatMessage {
+  id: string;
+  classId: string;
+  senderId: string;
+  senderName: string;
+  senderRole: UserRole;
+  text: string;
+  createdAt: Date;
+  deleted?: boolean;
+  deletedBy?: string;
+}
+export interface DirectMessage {
+  id: string;
+  classId: string;
+  threadId: string;
+  teacherId: string;
+  studentId: string;
+  senderId: string;
+  senderName: string;
+  text: string;
+  createdAt: Date;
+  deliveredAt?: Date;
+  readAt?: Date;
+}
+// Signaling messages exchanged to set up WebRTC connections; validated on arrival by signalSchema.ts.
+// Every message carries the envelope; the rest depends on its type.
+export interface WebRTCSignalEnvelope {
   id?: string;
   classId: string;
   fromUserId: string;
   targetUserId: string;
-  type: 'offer' | 'answer' | 'ice-candidate' | 'join-request';
-  offer?: RTCSessionDescriptionInit;
-  answer?: RTCSessionDescriptionInit;
-  candidate?: RTCIceCandidateInit;
+  // Connection attempt the message belongs to; messages from an earlier attempt are ignored
+  sessionId: string;
+  // Order of the message within the sender's side of the session, starting at 1 (acks are not sequenced)
+  seq: number;
   createdAt: Date;
+}
+
+export type WebRTCSignalMessage =
+  // Starts a session; when it started, so an older request never replaces a newer session
+  | { type: 'join-request'; sessionStartedAt: number }
+  // Descriptions carry the stream id of the sender's screen share, if it is sharing
+  | { type: 'offer'; offer: RTCSessionDescriptionInit; screenStreamId?: string | null }
+  | { type: 'answer'; answer: RTCSessionDescriptionInit; screenStreamId?: string | null }
+  // Trickle candidates are batched into one message
+  | { type: 'ice-candidates'; candidates: RTCIceCandidateInit[] }
+  // Every message up to and including this seq has been received
+  | { type: 'ack'; ack: number }
+  // Teacher to student: a command the student's classroom carries out
+  | { type: 'moderation'; action: ModerationAction }
+  // Student to teacher: the student's microphone and camera, for the participant list
+  | { type: 'media-state'; audioEnabled: boolean; videoEnabled: boolean };
+
+export type WebRTCSignal = WebRTCSignalEnvelope & WebRTCSignalMessage;
+export type WebRTCSignalType = WebRTCSignal['type'];
+
+export type ModerationAction = 'mute' | 'request-unmute' | 'disable-camera' | 'remove' | 'ban';
+
+export interface ModerationLogEntry {
+  id: string;
+  classId: string;
+  actorId: string;
+  actorName: string;
+  // Absent for class-wide actions
+  targetUserId?: string;
+  targetName?: string;
+  action: ModerationAction | 'mute-all' | 'unban';
+  createdAt: Date;
+}
+
+// One per student and class, so raising twice or rejoining keeps the original place in the queue
+export interface RaisedHand {
+  id: string;
+  classId: string;
+  userId: string;
+  userName: string;
+  raisedAt: Date;
+  calledOnAt?: Date;
 }
\ No newline at end of file